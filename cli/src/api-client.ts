@@ -1,4 +1,14 @@
-import type { Synv2Config, Project, ProjectDetail, StatusResponse, ApiError } from './types.js';
+import { Readable } from 'stream';
+import type { Synv2Config, Project, ProjectDetail, ProjectUpdate, ProjectUpdateResult, StatusResponse, ApiError, TaskRecord, ApiToken, AuditEvent, ExecResult, Snapshot, Operation, OperationStarted, ProjectPolicy, ProjectUsage, ProjectOverview, SupervisorEvent, LogQuery, Transcript, TranscriptPage } from './types.js';
+
+function logQueryString(query: LogQuery): string {
+  const params = new URLSearchParams();
+  if (query.lines !== undefined) params.set('lines', String(query.lines));
+  if (query.grep) params.set('grep', query.grep);
+  if (query.ignore_case) params.set('ignore_case', '1');
+  if (query.since) params.set('since', query.since);
+  return params.toString();
+}
 
 export class ApiClient {
   private host: string;
@@ -30,10 +40,14 @@ export class ApiClient {
     return res.json() as Promise<T>;
   }
 
-  async createProject(name: string, opts: { anthropicApiKey: string; mcpServers?: string[]; env?: Record<string, string>; instanceType?: string }): Promise<Project> {
+  async createProject(name: string, opts: { anthropicApiKey: string; mcpServers?: string[]; env?: Record<string, string>; instanceType?: string }): Promise<Project & OperationStarted> {
     return this.request('POST', '/api/projects', { name, ...opts });
   }
 
+  async cloneProject(source: string, name: string, opts: { instanceType?: string; resetTask?: boolean } = {}): Promise<Project & OperationStarted> {
+    return this.request('POST', `/api/projects/${encodeURIComponent(source)}/clone`, { name, ...opts });
+  }
+
   async listProjects(): Promise<Project[]> {
     const res = await this.request<{ projects: Project[] }>('GET', '/api/projects');
     return res.projects;
@@ -43,14 +57,19 @@ export class ApiClient {
     return this.request('GET', `/api/projects/${encodeURIComponent(name)}`);
   }
 
-  async deleteProject(name: string): Promise<void> {
-    await this.request('DELETE', `/api/projects/${encodeURIComponent(name)}`);
+  async deleteProject(name: string): Promise<OperationStarted> {
+    return this.request('DELETE', `/api/projects/${encodeURIComponent(name)}`);
   }
 
   async getStatus(): Promise<StatusResponse> {
     return this.request('GET', '/api/status');
   }
 
+  async getOverview(): Promise<ProjectOverview[]> {
+    const res = await this.request<{ projects: ProjectOverview[] }>('GET', '/api/status/projects');
+    return res.projects;
+  }
+
   async health(): Promise<{ ok: boolean }> {
     return this.request('GET', '/health');
   }
@@ -70,16 +89,48 @@ export class ApiClient {
     await this.request('DELETE', `/api/projects/${encodeURIComponent(projectName)}/secrets/${encodeURIComponent(key)}`);
   }
 
-  async restartProject(name: string): Promise<void> {
-    await this.request('POST', `/api/projects/${encodeURIComponent(name)}/restart`);
+  async updateProject(name: string, updates: ProjectUpdate): Promise<ProjectUpdateResult> {
+    return this.request('PATCH', `/api/projects/${encodeURIComponent(name)}`, updates);
+  }
+
+  async restartProject(name: string): Promise<OperationStarted> {
+    return this.request('POST', `/api/projects/${encodeURIComponent(name)}/restart`);
+  }
+
+  async stopProject(name: string): Promise<OperationStarted> {
+    return this.request('POST', `/api/projects/${encodeURIComponent(name)}/stop`);
+  }
+
+  async startProject(name: string): Promise<OperationStarted> {
+    return this.request('POST', `/api/projects/${encodeURIComponent(name)}/start`);
+  }
+
+  async getPolicy(name: string): Promise<ProjectPolicy> {
+    return this.request('GET', `/api/projects/${encodeURIComponent(name)}/policy`);
+  }
+
+  async setPolicy(name: string, policy: { idleStopMinutes?: number | null; budgetUsd?: number | null; budgetAction?: 'pause' | 'stop' }): Promise<ProjectPolicy> {
+    return this.request('PUT', `/api/projects/${encodeURIComponent(name)}/policy`, policy);
+  }
+
+  async getProjectUsage(name: string): Promise<ProjectUsage> {
+    return this.request('GET', `/api/projects/${encodeURIComponent(name)}/usage`);
+  }
+
+  async getUsage(): Promise<{ projects: ProjectUsage[]; total_cost_usd: number }> {
+    return this.request('GET', '/api/usage');
   }
 
-  async resizeProject(name: string, instanceType: string): Promise<{ ok: boolean; instanceType: string }> {
+  async resizeProject(name: string, instanceType: string): Promise<OperationStarted & { ok: boolean; instanceType: string }> {
     return this.request('POST', `/api/projects/${encodeURIComponent(name)}/resize`, { instanceType });
   }
 
-  async exec(projectName: string, cmd: string[]): Promise<{ ok: boolean; output: string }> {
-    return this.request('POST', `/api/projects/${encodeURIComponent(projectName)}/exec`, { cmd });
+  async getOperation(id: string): Promise<Operation> {
+    return this.request('GET', `/api/operations/${encodeURIComponent(id)}`);
+  }
+
+  async exec(projectName: string, cmd: string[], timeoutMs?: number): Promise<ExecResult> {
+    return this.request('POST', `/api/projects/${encodeURIComponent(projectName)}/exec`, { cmd, timeout: timeoutMs });
   }
 
   async getProcesses(projectName: string): Promise<{ processes: string; memory: string; disk: string; tmux_sessions: string }> {
@@ -106,6 +157,12 @@ export class ApiClient {
     return this.request('POST', `/api/projects/${encodeURIComponent(projectName)}/task`, taskDef);
   }
 
+  async listTasks(projectName: string, opts: { archived?: boolean } = {}): Promise<TaskRecord[]> {
+    const qs = opts.archived ? '?archived=1' : '';
+    const res = await this.request<{ tasks: TaskRecord[] }>('GET', `/api/projects/${encodeURIComponent(projectName)}/tasks${qs}`);
+    return res.tasks;
+  }
+
   async resumeTask(projectName: string): Promise<void> {
     await this.request('POST', `/api/projects/${encodeURIComponent(projectName)}/task/resume`);
   }
@@ -121,8 +178,146 @@ export class ApiClient {
     });
   }
 
+  async createToken(opts: { label: string; role: string; projects?: string[]; expiresAt?: string }): Promise<ApiToken & { token: string }> {
+    return this.request('POST', '/api/tokens', opts);
+  }
+
+  async listTokens(): Promise<ApiToken[]> {
+    const res = await this.request<{ tokens: ApiToken[] }>('GET', '/api/tokens');
+    return res.tokens;
+  }
+
+  async createSnapshot(projectName: string, label?: string): Promise<Snapshot> {
+    return this.request('POST', `/api/projects/${encodeURIComponent(projectName)}/snapshots`, { label });
+  }
+
+  async listSnapshots(projectName: string): Promise<Snapshot[]> {
+    const res = await this.request<{ snapshots: Snapshot[] }>('GET', `/api/projects/${encodeURIComponent(projectName)}/snapshots`);
+    return res.snapshots;
+  }
+
+  async restoreSnapshot(projectName: string, id: string): Promise<OperationStarted> {
+    return this.request('POST', `/api/projects/${encodeURIComponent(projectName)}/snapshots/${encodeURIComponent(id)}/restore`);
+  }
+
+  async deleteSnapshot(projectName: string, id: string): Promise<void> {
+    await this.request('DELETE', `/api/projects/${encodeURIComponent(projectName)}/snapshots/${encodeURIComponent(id)}`);
+  }
+
+  private fileUrl(projectName: string, path: string): string {
+    return `${this.host}/api/projects/${encodeURIComponent(projectName)}/files?path=${encodeURIComponent(path)}`;
+  }
+
+  private async fileRequest(method: string, url: string, init: { headers?: Record<string, string>; body?: Readable } = {}): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers: { 'Authorization': `Bearer ${this.token}`, ...init.headers },
+        body: init.body ? Readable.toWeb(init.body) as ReadableStream : undefined,
+        duplex: init.body ? 'half' : undefined,
+      } as RequestInit);
+    } catch (err: any) {
+      // A failing body stream (e.g. unreadable local file) only shows up as the cause
+      throw new Error(err.cause?.message || err.message);
+    }
+
+    if (!res.ok && res.status !== 404) {
+      const err: ApiError = await res.json().catch(() => ({ error: res.statusText }));
+      throw new Error(err.message || err.error || `HTTP ${res.status}`);
+    }
+    return res;
+  }
+
+  /** Type of a path in the project workspace, or null if it does not exist. */
+  async statFile(projectName: string, path: string): Promise<'file' | 'directory' | null> {
+    const res = await this.fileRequest('HEAD', this.fileUrl(projectName, path));
+    if (res.status === 404) return null;
+    return res.headers.get('x-synv2-file-type') as 'file' | 'directory';
+  }
+
+  /** A file's contents, or a tar of a directory (entries rooted at the directory's name). */
+  async downloadFile(projectName: string, path: string): Promise<{ type: 'file' | 'directory'; body: Readable }> {
+    const res = await this.fileRequest('GET', this.fileUrl(projectName, path));
+    if (res.status === 404 || !res.body) {
+      const err: ApiError = await res.json().catch(() => ({ error: 'not_found' }));
+      throw new Error(err.message || err.error);
+    }
+    return {
+      type: res.headers.get('x-synv2-file-type') as 'file' | 'directory',
+      body: Readable.fromWeb(res.body as any),
+    };
+  }
+
+  async uploadFile(projectName: string, path: string, body: Readable, size: number): Promise<void> {
+    await this.fileRequest('PUT', this.fileUrl(projectName, path), {
+      headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': String(size) },
+      body,
+    });
+  }
+
+  /** Extract a tar stream into a workspace directory. */
+  async uploadArchive(projectName: string, dir: string, tar: Readable): Promise<void> {
+    await this.fileRequest('PUT', this.fileUrl(projectName, dir), {
+      headers: { 'Content-Type': 'application/x-tar' },
+      body: tar,
+    });
+  }
+
+  async revokeToken(id: string): Promise<void> {
+    await this.request('DELETE', `/api/tokens/${encodeURIComponent(id)}`);
+  }
+
+  async listAuditEvents(filters: { project?: string; action?: string; since?: string; until?: string; limit?: number }): Promise<AuditEvent[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    const res = await this.request<{ events: AuditEvent[] }>('GET', `/api/audit${qs ? `?${qs}` : ''}`);
+    return res.events;
+  }
+
+  async listEvents(name: string, filters: { type?: string; since?: string; after?: number; limit?: number }): Promise<SupervisorEvent[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    const res = await this.request<{ events: SupervisorEvent[] }>('GET', `/api/projects/${encodeURIComponent(name)}/events${qs ? `?${qs}` : ''}`);
+    return res.events;
+  }
+
+  async listTranscripts(name: string, filters: { q?: string; turn?: number; task_id?: string; before?: number; limit?: number }): Promise<TranscriptPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return this.request<TranscriptPage>('GET', `/api/projects/${encodeURIComponent(name)}/transcripts${qs ? `?${qs}` : ''}`);
+  }
+
+  async getTranscript(name: string, seq: number): Promise<Transcript> {
+    return this.request<Transcript>('GET', `/api/projects/${encodeURIComponent(name)}/transcripts/${seq}`);
+  }
+
+  async getLogs(name: string, query: LogQuery): Promise<string> {
+    const res = await this.request<{ logs: string }>('GET', `/api/projects/${encodeURIComponent(name)}/logs?${logQueryString(query)}`);
+    return res.logs;
+  }
+
   getWsUrl(projectName: string): string {
     const wsHost = this.host.replace(/^http/, 'ws');
     return `${wsHost}/ws/projects/${encodeURIComponent(projectName)}/chat?token=${this.token}`;
   }
+
+  getExecWsUrl(projectName: string): string {
+    const wsHost = this.host.replace(/^http/, 'ws');
+    return `${wsHost}/ws/projects/${encodeURIComponent(projectName)}/exec?token=${this.token}`;
+  }
+
+  getLogsWsUrl(projectName: string, query: LogQuery): string {
+    const wsHost = this.host.replace(/^http/, 'ws');
+    return `${wsHost}/ws/projects/${encodeURIComponent(projectName)}/logs?token=${this.token}&${logQueryString(query)}`;
+  }
 }
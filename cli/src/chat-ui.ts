@@ -24,9 +24,11 @@ const TOOL_ICONS: Record<string, string> = {
 };
 
 export class ChatUI {
-  private rl: Interface;
+  // No line editor in watch mode: there is nothing to send, keys are read raw instead
+  private rl: Interface | null = null;
+  private watch: boolean;
   private streaming = false;
-  private onMessage: (text: string) => void;
+  private onMessage: (text: string) => boolean | void;
   private onExit: () => void;
   private projectName: string;
   private spinnerInterval: ReturnType<typeof setInterval> | null = null;
@@ -34,13 +36,30 @@ export class ChatUI {
   private currentTool = '';
   private supervisorConnected = false;
   private agentBusy = false;
+  private humanCount = 0;
   private taskStatus: TaskStatus | null = null;
   private seenQuestionIds = new Set<string>();
+  private reconnecting = false;
 
-  constructor(opts: { onMessage: (text: string) => void; onExit: () => void; projectName?: string }) {
+  // onMessage returns false when the message couldn't be sent, so the prompt comes straight back.
+  // With watch set there is no input prompt; q or Ctrl+C leaves
+  constructor(opts: { onMessage: (text: string) => boolean | void; onExit: () => void; projectName?: string; watch?: boolean }) {
     this.onMessage = opts.onMessage;
     this.onExit = opts.onExit;
     this.projectName = opts.projectName || 'project';
+    this.watch = !!opts.watch;
+
+    if (this.watch) {
+      if (process.stdin.isTTY) {
+        process.stdin.setRawMode(true);
+        process.stdin.on('data', (key) => {
+          const k = key.toString();
+          if (k === 'q' || k === '\x03') this.onExit();
+        });
+        process.stdin.resume();
+      }
+      return;
+    }
 
     this.rl = createInterface({
       input: process.stdin,
@@ -62,13 +81,16 @@ export class ChatUI {
         this.onExit();
         return;
       }
+      if (this.onMessage(text) === false) {
+        this.prompt();
+        return;
+      }
       this.streaming = true;
-      this.onMessage(text);
     });
   }
 
   prompt(): void {
-    if (!this.streaming) {
+    if (this.rl && !this.streaming) {
       this.rl.setPrompt(`${c.cyan}${c.bold}> ${c.reset}`);
       this.rl.prompt();
     }
@@ -156,12 +178,34 @@ export class ChatUI {
         this.endStream();
         break;
 
+      case 'usage':
+        // Supervisor memory calls happen between turns; only the agent's own turn is shown inline
+        if (delta.source === 'agent') {
+          this.stopSpinner();
+          const model = delta.model ? ` · ${delta.model}` : '';
+          process.stdout.write(`\n${c.dim}  ${delta.input_tokens || 0} in / ${delta.output_tokens || 0} out tokens${model}${c.reset}`);
+        }
+        break;
+
       case 'done':
         this.stopSpinner();
         this.endStream();
         break;
 
       case 'history':
+        if (delta.since !== undefined) {
+          // Resumed after a reconnect: carry on with just the events missed, rendered as if live
+          this.reconnecting = false;
+          const missed = delta.events?.length || 0;
+          const lost = delta.truncated ? '; older ones were lost' : '';
+          process.stdout.write(`${c.dim}── reconnected${missed > 0 ? `, ${missed} missed event${missed === 1 ? '' : 's'}` : ''}${lost} ──${c.reset}\n`);
+          for (const event of delta.events || []) this.handleDelta(event);
+          break;
+        }
+        if (this.reconnecting) {
+          this.reconnecting = false;
+          process.stdout.write(`${c.dim}── reconnected; the gateway restarted ──${c.reset}\n`);
+        }
         // Replay buffered events from gateway as dimmed text
         if (delta.events && delta.events.length > 0) {
           process.stdout.write(`${c.dim}── recent activity ──${c.reset}\n`);
@@ -175,12 +219,16 @@ export class ChatUI {
       case 'status':
         this.supervisorConnected = delta.supervisorConnected || false;
         this.agentBusy = delta.agentBusy || false;
+        this.humanCount = delta.humanCount || 0;
         break;
 
       case 'client_change':
         if (delta.supervisorConnected !== undefined) {
           this.supervisorConnected = delta.supervisorConnected;
         }
+        if (delta.humans !== undefined) {
+          this.humanCount = delta.humans;
+        }
         break;
 
       case 'task_status':
@@ -259,9 +307,13 @@ export class ChatUI {
 
   showBanner(): void {
     process.stdout.write(`\n${c.cyan}${c.bold}  synv2${c.reset} ${c.dim}— ${this.projectName}${c.reset}\n`);
-    const supervisorStatus = this.supervisorConnected
-      ? `${c.green}active${c.reset}${c.dim} (paused while you're attached)${c.reset}`
-      : `${c.dim}not connected${c.reset}`;
+    let supervisorStatus = `${c.dim}not connected${c.reset}`;
+    if (this.supervisorConnected && !this.watch) {
+      supervisorStatus = `${c.green}active${c.reset}${c.dim} (paused while you're attached)${c.reset}`;
+    } else if (this.supervisorConnected) {
+      const paused = this.humanCount > 0 ? ` (paused: ${this.humanCount} human${this.humanCount === 1 ? '' : 's'} attached)` : '';
+      supervisorStatus = `${c.green}active${c.reset}${c.dim}${paused}${c.reset}`;
+    }
     process.stdout.write(`${c.dim}  Supervisor: ${supervisorStatus}\n`);
     if (this.taskStatus) {
       const ts = this.taskStatus;
@@ -270,7 +322,20 @@ export class ChatUI {
       if (ts.latest_metric !== null && ts.latest_metric !== undefined) taskLine += ` metric=${ts.latest_metric}`;
       process.stdout.write(`${c.dim}${taskLine}${c.reset}\n`);
     }
-    process.stdout.write(`${c.dim}  Type /quit to disconnect\n${c.reset}\n`);
+    if (this.watch) {
+      process.stdout.write(`${c.dim}  Watching — read-only, the supervisor keeps running. Press q to disconnect\n${c.reset}\n`);
+    } else {
+      process.stdout.write(`${c.dim}  Type /quit to disconnect\n${c.reset}\n`);
+    }
+  }
+
+  showReconnecting(attempt: number, delayMs: number, reason: string): void {
+    this.stopSpinner();
+    // Finish a half-streamed line; the rest of the turn follows once resumed
+    if (this.streaming) process.stdout.write('\n');
+    this.reconnecting = true;
+    const secs = Math.round(delayMs / 1000);
+    process.stdout.write(`\r\x1b[K${c.yellow}Connection lost (${reason}) — reconnecting in ${secs}s… (attempt ${attempt})${c.reset}\n`);
   }
 
   showStatus(text: string): void {
@@ -279,6 +344,11 @@ export class ChatUI {
 
   destroy(): void {
     this.stopSpinner();
-    this.rl.close();
+    if (this.rl) {
+      this.rl.close();
+    } else if (process.stdin.isTTY) {
+      process.stdin.setRawMode(false);
+      process.stdin.pause();
+    }
   }
 }
@@ -3,7 +3,11 @@ import { ApiClient } from '../api-client.js';
 import { WSClient } from '../ws-client.js';
 import { ChatUI } from '../chat-ui.js';
 
-export async function attachCommand(name: string): Promise<void> {
+interface AttachOptions {
+  watch?: boolean;
+}
+
+export async function attachCommand(name: string, opts: AttachOptions = {}): Promise<void> {
   const config = requireConfig();
   const api = new ApiClient(config);
 
@@ -45,21 +49,30 @@ export async function attachCommand(name: string): Promise<void> {
       ui.handleDelta(delta);
     },
     onOpen: () => {
-      // Identify as human so supervisor knows to pause
-      ws.identify('human');
+      // A human makes the supervisor pause; an observer just watches it work
+      ws.identify(opts.watch ? 'observer' : 'human');
     },
-    onClose: (_code, _reason) => {
-      ui.showStatus('Disconnected.');
+    onClose: (_code, reason) => {
+      ui.showStatus(reason ? `Disconnected: ${reason}` : 'Disconnected.');
       process.exit(0);
     },
     onError: (err) => {
       ui.showStatus(`Connection error: ${err.message}`);
     },
+    // Laptop sleep or a control-plane restart: keep the session and resume where it left off
+    onReconnecting: (attempt, delayMs, reason) => {
+      ui.showReconnecting(attempt, delayMs, reason);
+    },
   });
 
   ui = new ChatUI({
     onMessage: (text) => {
+      if (!ws.connected) {
+        ui.showStatus('Not connected — message not sent. Waiting to reconnect…');
+        return false;
+      }
       ws.sendMessage(text);
+      return true;
     },
     onExit: () => {
       ws.close();
@@ -68,6 +81,7 @@ export async function attachCommand(name: string): Promise<void> {
       process.exit(0);
     },
     projectName: name,
+    watch: opts.watch,
   });
 
   // Handle Ctrl+C
@@ -0,0 +1,77 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+
+// Accepts a relative duration back from now ("24h", "7d", "30m") or an absolute date
+export function parseSince(value: string): string | null {
+  const match = value.match(/^(\d+)([mhd])$/);
+  if (match) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'm' | 'h' | 'd'];
+    return new Date(Date.now() - parseInt(match[1], 10) * unitMs).toISOString();
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export async function auditCommand(opts: { project?: string; action?: string; since?: string; until?: string; limit?: string; json?: boolean }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  let since: string | undefined;
+  let until: string | undefined;
+  for (const [flag, value] of [['--since', opts.since], ['--until', opts.until]] as const) {
+    if (!value) continue;
+    const parsed = parseSince(value);
+    if (!parsed) {
+      console.error(`Invalid ${flag} "${value}". Use e.g. 24h, 7d or an ISO date.`);
+      process.exit(1);
+    }
+    if (flag === '--since') since = parsed;
+    else until = parsed;
+  }
+
+  try {
+    const events = await api.listAuditEvents({
+      project: opts.project,
+      action: opts.action,
+      since,
+      until,
+      limit: opts.limit ? parseInt(opts.limit, 10) : undefined,
+    });
+
+    if (opts.json) {
+      console.log(JSON.stringify(events, null, 2));
+      return;
+    }
+
+    if (events.length === 0) {
+      console.log('No audit events match.');
+      return;
+    }
+
+    console.log(
+      'TIME'.padEnd(22) + 'TOKEN'.padEnd(16) + 'PROJECT'.padEnd(18) + 'STATUS'.padEnd(8) + 'MS'.padEnd(8) + 'ACTION'
+    );
+    console.log('-'.repeat(22 + 16 + 18 + 8 + 8 + 40));
+    // Oldest first so the log reads top to bottom
+    for (const e of [...events].reverse()) {
+      const ok = (e.status >= 200 && e.status < 400) || e.status === 1000;
+      const statusColor = ok ? '\x1b[32m' : '\x1b[31m';
+      const time = new Date(e.created_at).toLocaleString();
+      const status = `${statusColor}${e.status}\x1b[0m`;
+      console.log(
+        time.padEnd(22) +
+        (e.token_label || '-').padEnd(16) +
+        (e.project_name || '-').padEnd(18) +
+        status.padEnd(8 + 9) +
+        String(e.duration_ms).padEnd(8) +
+        e.action
+      );
+      if (e.body) {
+        console.log(`${''.padEnd(22)}\x1b[2m${JSON.stringify(e.body)}\x1b[0m`);
+      }
+    }
+  } catch (err: any) {
+    console.error(`Failed to query audit log: ${err.message}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,34 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import { waitForOperation, printOperationStarted, exitWithOperationError } from '../operation-progress.js';
+
+export async function cloneCommand(src: string, dst: string, opts: { instanceType?: string; resetTask?: boolean; wait?: boolean }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  console.log(`Cloning "${src}" into "${dst}"...`);
+  if (opts.instanceType) {
+    console.log(`Instance type: ${opts.instanceType} (dedicated worker)`);
+  }
+  console.log(opts.resetTask ? 'Task: reset (task and memory files not copied)' : 'Task: carried over');
+
+  try {
+    const project = await api.cloneProject(src, dst, { instanceType: opts.instanceType, resetTask: opts.resetTask });
+
+    console.log(`\nProject "${project.name}" created from "${src}" (${project.status}).`);
+    if (opts.wait === false) {
+      printOperationStarted(project.operation);
+      return;
+    }
+    if (project.status === 'provisioning') {
+      console.log('Worker instance is provisioning... The workspace is copied once it is ready (~3 minutes).');
+    }
+
+    const op = await waitForOperation(api, project.operation_id);
+    if (op.status !== 'succeeded') exitWithOperationError('Clone', op);
+    console.log(`\nReady! Attach with: synv2 attach ${dst}`);
+  } catch (err: any) {
+    console.error(`Failed to clone project: ${err.message}`);
+    process.exit(1);
+  }
+}
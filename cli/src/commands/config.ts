@@ -0,0 +1,68 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import { waitForOperation, exitWithOperationError } from '../operation-progress.js';
+import type { ProjectUpdate } from '../types.js';
+
+interface ConfigOptions {
+  apiKey?: string;
+  mcpServers?: string;
+  env?: string[];
+  unsetEnv?: string[];
+  restart?: boolean;
+}
+
+/** Commander collector for repeatable options (--env A=1 --env B=2). */
+export function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+export async function configCommand(name: string, opts: ConfigOptions): Promise<void> {
+  const updates: ProjectUpdate = {};
+
+  if (opts.apiKey) updates.anthropicApiKey = opts.apiKey;
+  if (opts.mcpServers !== undefined) {
+    updates.mcpServers = opts.mcpServers.split(',').map((s) => s.trim()).filter(Boolean);
+  }
+  if (opts.env?.length) {
+    updates.env = {};
+    for (const pair of opts.env) {
+      const eq = pair.indexOf('=');
+      if (eq <= 0) {
+        console.error(`Invalid --env "${pair}". Use KEY=VALUE.`);
+        process.exit(1);
+      }
+      updates.env[pair.slice(0, eq)] = pair.slice(eq + 1);
+    }
+  }
+  if (opts.unsetEnv?.length) updates.unsetEnv = opts.unsetEnv;
+
+  if (Object.keys(updates).length === 0) {
+    console.error('Nothing to change. Pass --api-key, --mcp-servers, --env or --unset-env.');
+    process.exit(1);
+  }
+  updates.restart = !!opts.restart;
+
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  if (opts.restart) console.log(`Updating project "${name}" and restarting...`);
+
+  try {
+    const result = await api.updateProject(name, updates);
+    console.log(`Project "${name}" updated.`);
+    if (updates.anthropicApiKey) console.log('  API key:     replaced');
+    console.log(`  MCP servers: ${result.mcp_servers.join(', ') || '(none)'}`);
+    console.log(`  Env:         ${result.env_keys.join(', ') || '(none)'}`);
+    if (!result.operation) {
+      console.log(`\nRestart to apply: synv2 restart ${name}`);
+      return;
+    }
+
+    const op = await waitForOperation(api, result.operation.id);
+    if (op.status !== 'succeeded') exitWithOperationError('Restart', op);
+    console.log(`Project "${name}" restarted.`);
+  } catch (err: any) {
+    console.error(`Failed to update project: ${err.message}`);
+    process.exit(1);
+  }
+}
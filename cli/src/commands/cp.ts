@@ -0,0 +1,100 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, statSync } from 'fs';
+import { basename, dirname, join, posix, resolve } from 'path';
+import { pipeline } from 'stream/promises';
+import tar from 'tar-fs';
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+
+interface RemotePath {
+  project: string;
+  path: string;
+}
+
+// "project:/path" or "project:relative/to/workspace"; anything else is a local path
+function parseRemote(spec: string): RemotePath | null {
+  const match = spec.match(/^([a-z0-9][a-z0-9-]*):(.*)$/);
+  if (!match) return null;
+  return { project: match[1], path: match[2] || '/workspace' };
+}
+
+/** Rename the top-level entry of each tar header (e.g. "src/a.txt" → "lib/a.txt", or strip it with ""). */
+function renameRoot(name: string, root: string): string {
+  const rest = name.replace(/^[^/]+\/?/, '');
+  if (!root) return rest || '.';
+  return rest ? `${root}/${rest}` : root;
+}
+
+async function download(api: ApiClient, src: RemotePath, dest: string): Promise<void> {
+  const { type, body } = await api.downloadFile(src.project, src.path);
+  const destIsDir = existsSync(dest) && statSync(dest).isDirectory();
+
+  if (type === 'file') {
+    const target = destIsDir ? join(dest, posix.basename(src.path)) : dest;
+    await pipeline(body, createWriteStream(target));
+    return;
+  }
+
+  // Like docker cp: into an existing directory keeps the source name, otherwise dest becomes the copy
+  if (destIsDir) {
+    await pipeline(body, tar.extract(dest));
+  } else {
+    mkdirSync(dest, { recursive: true });
+    await pipeline(body, tar.extract(dest, { map: (header) => ({ ...header, name: renameRoot(header.name, '') }) }));
+  }
+}
+
+async function upload(api: ApiClient, src: string, dest: RemotePath): Promise<void> {
+  if (!existsSync(src)) {
+    throw new Error(`No such file or directory: ${src}`);
+  }
+  const srcStat = statSync(src);
+  const destType = await api.statFile(dest.project, dest.path);
+
+  if (srcStat.isFile()) {
+    const target = destType === 'directory' ? posix.join(dest.path, basename(src)) : dest.path;
+    await api.uploadFile(dest.project, target, createReadStream(src), srcStat.size);
+    return;
+  }
+
+  if (!srcStat.isDirectory()) {
+    throw new Error(`${src} is not a regular file or directory`);
+  }
+  if (destType === 'file') {
+    throw new Error(`Cannot copy directory ${src} onto file ${dest.path}`);
+  }
+
+  const name = basename(resolve(src));
+  const parent = dirname(resolve(src));
+  if (destType === 'directory') {
+    await api.uploadArchive(dest.project, dest.path, tar.pack(parent, { entries: [name] }));
+  } else {
+    const destName = posix.basename(dest.path);
+    const pack = tar.pack(parent, { entries: [name], map: (header) => ({ ...header, name: renameRoot(header.name, destName) }) });
+    await api.uploadArchive(dest.project, posix.dirname(dest.path), pack);
+  }
+}
+
+export async function cpCommand(src: string, dest: string): Promise<void> {
+  const remoteSrc = parseRemote(src);
+  const remoteDest = parseRemote(dest);
+
+  if (!!remoteSrc === !!remoteDest) {
+    console.error('Exactly one side must be a project path. Usage: synv2 cp <project>:<path> <local> | synv2 cp <local> <project>:<path>');
+    process.exit(1);
+  }
+
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    if (remoteSrc) {
+      await download(api, remoteSrc, dest);
+    } else {
+      await upload(api, src, remoteDest!);
+    }
+    console.log(`Copied ${src} → ${dest}`);
+  } catch (err: any) {
+    console.error(`Copy failed: ${err.message}`);
+    process.exit(1);
+  }
+}
@@ -1,8 +1,9 @@
 import { createInterface } from 'readline';
 import { requireConfig } from '../config.js';
 import { ApiClient } from '../api-client.js';
+import { waitForOperation, printOperationStarted, exitWithOperationError } from '../operation-progress.js';
 
-export async function destroyCommand(name: string, opts: { force?: boolean }): Promise<void> {
+export async function destroyCommand(name: string, opts: { force?: boolean; wait?: boolean }): Promise<void> {
   const config = requireConfig();
   const api = new ApiClient(config);
 
@@ -22,7 +23,14 @@ export async function destroyCommand(name: string, opts: { force?: boolean }): P
   console.log(`Destroying project "${name}"...`);
 
   try {
-    await api.deleteProject(name);
+    const { operation } = await api.deleteProject(name);
+    if (opts.wait === false) {
+      printOperationStarted(operation);
+      return;
+    }
+
+    const op = await waitForOperation(api, operation.id);
+    if (op.status !== 'succeeded') exitWithOperationError('Destroy', op);
     console.log(`Project "${name}" destroyed.`);
   } catch (err: any) {
     console.error(`Failed to destroy project: ${err.message}`);
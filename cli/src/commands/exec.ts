@@ -1,7 +1,9 @@
+import WebSocket from 'ws';
 import { requireConfig } from '../config.js';
 import { ApiClient } from '../api-client.js';
+import type { ExecFrame } from '../types.js';
 
-export async function execCommand(name: string, cmd: string[]): Promise<void> {
+export async function execCommand(name: string, cmd: string[], opts: { interactive?: boolean; tty?: boolean; timeout?: string } = {}): Promise<void> {
   if (cmd.length === 0) {
     console.error('No command specified. Usage: synv2 exec <project> -- <command...>');
     process.exit(1);
@@ -10,13 +12,111 @@ export async function execCommand(name: string, cmd: string[]): Promise<void> {
   const config = requireConfig();
   const api = new ApiClient(config);
 
-  try {
-    const result = await api.exec(name, cmd);
-    if (result.output) {
-      process.stdout.write(result.output);
+  if (opts.interactive || opts.tty) {
+    streamExec(api, name, cmd, { interactive: !!opts.interactive, tty: !!opts.tty });
+    return;
+  }
+
+  let timeoutMs: number | undefined;
+  if (opts.timeout) {
+    const seconds = parseFloat(opts.timeout);
+    if (!(seconds >= 1 && seconds <= 600)) {
+      console.error(`Invalid --timeout "${opts.timeout}". Use a number of seconds between 1 and 600.`);
+      process.exit(1);
     }
+    timeoutMs = Math.round(seconds * 1000);
+  }
+
+  let result;
+  try {
+    result = await api.exec(name, cmd, timeoutMs);
   } catch (err: any) {
     console.error(`Exec failed: ${err.message}`);
     process.exit(1);
   }
+
+  process.stdout.write(result.stdout);
+  process.stderr.write(result.stderr);
+  if (result.truncated) {
+    console.error('\x1b[33m[output truncated]\x1b[0m');
+  }
+  if (result.timed_out) {
+    console.error(`\x1b[31m[timed out after ${(result.duration_ms / 1000).toFixed(1)}s]\x1b[0m`);
+  }
+  process.exit(result.exit_code ?? 1);
+}
+
+/** Runs the command over the exec WebSocket and exits with its exit code. */
+function streamExec(api: ApiClient, name: string, cmd: string[], opts: { interactive: boolean; tty: boolean }): void {
+  // A remote TTY only makes sense when our own stdout is a terminal
+  const tty = opts.tty && !!process.stdout.isTTY;
+  const rawMode = tty && opts.interactive && !!process.stdin.isTTY;
+  let exitCode: number | null = null;
+
+  const ws = new WebSocket(api.getExecWsUrl(name));
+  const send = (msg: object) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  };
+
+  const restoreTerminal = () => {
+    if (rawMode) process.stdin.setRawMode(false);
+  };
+
+  ws.on('open', () => {
+    send({ type: 'start', cmd, tty, cols: process.stdout.columns, rows: process.stdout.rows });
+
+    if (tty) {
+      process.stdout.on('resize', () => {
+        send({ type: 'resize', cols: process.stdout.columns, rows: process.stdout.rows });
+      });
+    }
+
+    if (opts.interactive) {
+      if (rawMode) process.stdin.setRawMode(true);
+      process.stdin.on('data', (chunk: Buffer) => send({ type: 'stdin', data: chunk.toString('base64') }));
+      process.stdin.on('end', () => send({ type: 'stdin_close' }));
+      process.stdin.resume();
+    }
+  });
+
+  ws.on('message', (data) => {
+    let frame: ExecFrame;
+    try {
+      frame = JSON.parse(data.toString());
+    } catch {
+      return; // ignore malformed frames
+    }
+
+    switch (frame.type) {
+      case 'stdout':
+        process.stdout.write(Buffer.from(frame.data || '', 'base64'));
+        break;
+      case 'stderr':
+        process.stderr.write(Buffer.from(frame.data || '', 'base64'));
+        break;
+      case 'exit':
+        exitCode = frame.code ?? 1;
+        break;
+      case 'error':
+        restoreTerminal();
+        console.error(`\nExec failed: ${frame.message}`);
+        exitCode = 1;
+        break;
+    }
+  });
+
+  ws.on('close', (code, reason) => {
+    restoreTerminal();
+    if (exitCode === null) {
+      console.error(`\nExec stream closed (${code}${reason.length ? `: ${reason}` : ''})`);
+      exitCode = 1;
+    }
+    process.exit(exitCode);
+  });
+
+  ws.on('error', (err) => {
+    restoreTerminal();
+    console.error(`Exec failed: ${err.message}`);
+    process.exit(1);
+  });
 }
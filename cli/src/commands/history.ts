@@ -0,0 +1,171 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import type { Transcript, TranscriptSummary } from '../types.js';
+
+// Without --full, long prompts and tool output are cut to this many lines and chars, tool input to a line
+const CLIP_LINES = 12;
+const CLIP_CHARS = 1500;
+const CLIP_INPUT_CHARS = 200;
+const TIME_WIDTH = 24;
+
+const c = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+const CLASSIFICATION_COLORS: Record<string, string> = {
+  productive: c.green,
+  ok: c.green,
+  idle: c.yellow,
+  empty: c.red,
+  error: c.red,
+};
+
+interface HistoryOptions {
+  turn?: string;
+  grep?: string;
+  task?: string;
+  limit?: string;
+  before?: string;
+  full?: boolean;
+  json?: boolean;
+}
+
+function formatDuration(ms: number): string {
+  const secs = Math.max(0, Math.round(ms / 1000));
+  if (secs < 60) return `${secs}s`;
+  return `${Math.floor(secs / 60)}m${String(secs % 60).padStart(2, '0')}s`;
+}
+
+function classification(t: { classification: string | null }): string {
+  const value = t.classification || '-';
+  return `${CLASSIFICATION_COLORS[value] || ''}${value.padEnd(12)}${c.reset}`;
+}
+
+function clip(text: string, full: boolean): string {
+  if (full) return text;
+  const kept = text.split('\n').slice(0, CLIP_LINES).join('\n').slice(0, CLIP_CHARS);
+  if (kept.length === text.length) return text;
+  return `${kept}\n${c.dim}… ${text.length - kept.length} more chars (--full to show)${c.reset}`;
+}
+
+function indent(text: string): string {
+  return text.split('\n').map((line) => `    ${line}`).join('\n');
+}
+
+function parseIntOption(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = parseInt(value, 10);
+  if (isNaN(n) || n < 1) {
+    console.error(`Invalid ${flag} "${value}".`);
+    process.exit(1);
+  }
+  return n;
+}
+
+export async function historyCommand(project: string, opts: HistoryOptions): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  const turn = parseIntOption('--turn', opts.turn);
+  const limit = parseIntOption('--limit', opts.limit);
+  const before = parseIntOption('--before', opts.before);
+
+  try {
+    if (turn !== undefined) {
+      await showTurn(api, project, turn, opts, before);
+      return;
+    }
+
+    const page = await api.listTranscripts(project, { q: opts.grep, task_id: opts.task, before, limit });
+    if (opts.json) {
+      console.log(JSON.stringify(page, null, 2));
+      return;
+    }
+
+    if (page.transcripts.length === 0) {
+      console.log(opts.grep ? `No turns mention "${opts.grep}".` : `No transcripts for "${project}" yet.`);
+      return;
+    }
+
+    console.log(
+      'TIME'.padEnd(TIME_WIDTH) + 'TURN'.padEnd(7) + 'RESULT'.padEnd(12) + 'TOOLS'.padEnd(7) + 'TOOK'.padEnd(8) + 'SUMMARY'
+    );
+    console.log('-'.repeat(TIME_WIDTH + 7 + 12 + 7 + 8 + 50));
+    // Newest first from the API; print oldest first so the history reads top to bottom
+    for (const t of [...page.transcripts].reverse()) printSummary(t);
+
+    if (page.next_before !== null) {
+      const flags = [opts.grep ? `--grep ${JSON.stringify(opts.grep)}` : '', opts.task ? `--task ${opts.task}` : '']
+        .filter(Boolean).join(' ');
+      console.log(`\n${c.dim}Older turns: synv2 history ${project} ${flags ? `${flags} ` : ''}--before ${page.next_before}${c.reset}`);
+    }
+    console.log(`${c.dim}Full turn: synv2 history ${project} --turn <n>${c.reset}`);
+  } catch (err: any) {
+    console.error(`Failed to get history: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+function printSummary(t: TranscriptSummary): void {
+  const time = new Date(t.started_at).toLocaleString();
+  const preview = t.preview || `${c.dim}(no text)${c.reset}`;
+  console.log(
+    time.padEnd(TIME_WIDTH) +
+    String(t.turn).padEnd(7) +
+    classification(t) +
+    String(t.tool_count).padEnd(7) +
+    formatDuration(t.duration_ms).padEnd(8) +
+    preview.slice(0, 100)
+  );
+  if (t.match) {
+    console.log(`${''.padEnd(TIME_WIDTH)}${c.dim}${t.match.in}:${c.reset} ${t.match.text}`);
+  }
+}
+
+async function showTurn(api: ApiClient, project: string, turn: number, opts: HistoryOptions, before?: number): Promise<void> {
+  // Turn numbers restart with the supervisor, so several turns can share one; take the newest
+  const page = await api.listTranscripts(project, { turn, task_id: opts.task, before, limit: 2 });
+  if (page.transcripts.length === 0) {
+    console.error(`No transcript for turn ${turn}${before ? ` before #${before}` : ''}.`);
+    process.exit(1);
+  }
+
+  const t = await api.getTranscript(project, page.transcripts[0].seq);
+  if (opts.json) {
+    console.log(JSON.stringify(t, null, 2));
+    return;
+  }
+
+  printTranscript(t, !!opts.full);
+  if (page.transcripts.length > 1) {
+    console.log(`\n${c.dim}An earlier run also had a turn ${turn}: synv2 history ${project} --turn ${turn} --before ${t.seq}${c.reset}`);
+  }
+}
+
+function printTranscript(t: Transcript, full: boolean): void {
+  const started = new Date(t.started_at).toLocaleString();
+  console.log(`${c.bold}Turn ${t.turn}${c.reset}  ${classification(t).trim()}  ${formatDuration(t.duration_ms)}, ${t.tool_count} tool call(s)`);
+  console.log(`${c.dim}#${t.seq}  started ${started}${t.task_id ? `  task ${t.task_id}` : ''}${t.result && t.result !== 'ok' ? `  ended by ${t.result}` : ''}${c.reset}`);
+
+  console.log(`\n${c.cyan}── Prompt${t.prompt_type ? ` (${t.prompt_type})` : ''} ──${c.reset}`);
+  console.log(`${c.dim}${clip(t.prompt, full)}${c.reset}`);
+
+  console.log(`\n${c.cyan}── Agent ──${c.reset}`);
+  console.log(t.text ? t.text : `${c.dim}(no text)${c.reset}`);
+
+  if (t.tools.length > 0) {
+    console.log(`\n${c.cyan}── Tool calls ──${c.reset}`);
+    for (const call of t.tools) {
+      const input = call.input ?? '';
+      console.log(`${c.yellow}▸ ${call.tool}${c.reset} ${full || input.length <= CLIP_INPUT_CHARS ? input : `${input.slice(0, CLIP_INPUT_CHARS)}…`}`);
+      if (call.output !== null) console.log(`${c.dim}${indent(clip(call.output, full))}${c.reset}`);
+      else console.log(`${c.dim}    (no result)${c.reset}`);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { createInterface } from 'readline';
 import { requireConfig } from '../config.js';
 import { ApiClient } from '../api-client.js';
+import { waitForOperation, printOperationStarted, exitWithOperationError } from '../operation-progress.js';
 
 function ask(question: string): Promise<string> {
   const rl = createInterface({ input: process.stdin, output: process.stdout });
@@ -14,7 +15,7 @@ function ask(question: string): Promise<string> {
 
 const ALL_MCP_SERVERS = ['filesystem', 'fetch', 'memory', 'github', 'brave-search', 'puppeteer', 'postgres', 'exa'];
 
-export async function initCommand(name: string, opts: { apiKey?: string; mcpServers?: string; interactive?: boolean; instanceType?: string }): Promise<void> {
+export async function initCommand(name: string, opts: { apiKey?: string; mcpServers?: string; interactive?: boolean; instanceType?: string; wait?: boolean }): Promise<void> {
   const config = requireConfig();
   const api = new ApiClient(config);
 
@@ -42,14 +43,18 @@ export async function initCommand(name: string, opts: { apiKey?: string; mcpServ
     });
 
     console.log(`\nProject "${project.name}" created (${project.status}).`);
-    if (project.instance_type) {
-      console.log(`Instance: ${project.instance_type}${project.worker_instance_id ? ` (${project.worker_instance_id})` : ''}`);
+    if (opts.wait === false) {
+      printOperationStarted(project.operation);
+      console.log(`Add secrets once it is ready: synv2 secrets set ${name} KEY VALUE`);
+      return;
     }
     if (project.status === 'provisioning') {
       console.log('Worker instance is provisioning... This takes ~3 minutes.');
-      console.log(`Check status with: synv2 status`);
     }
 
+    const op = await waitForOperation(api, project.operation_id);
+    if (op.status !== 'succeeded') exitWithOperationError('Create', op);
+
     // Prompt for secrets
     console.log('\nSet up service tokens (press Enter to skip any):');
 
@@ -85,7 +90,9 @@ export async function initCommand(name: string, opts: { apiKey?: string; mcpServ
 
     if (secretsSet > 0) {
       console.log(`\n${secretsSet} secret(s) configured. Restarting to apply...`);
-      await api.restartProject(name);
+      const { operation } = await api.restartProject(name);
+      const restart = await waitForOperation(api, operation.id);
+      if (restart.status !== 'succeeded') exitWithOperationError('Restart', restart);
       console.log('Project restarted with new secrets.');
     }
 
@@ -0,0 +1,194 @@
+import WebSocket from 'ws';
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import { parseSince } from './audit.js';
+import type { LogFrame, LogQuery, SupervisorEvent } from '../types.js';
+
+const FOLLOW_INTERVAL_MS = 2000;
+
+const c = {
+  reset: '\x1b[0m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+const CLASSIFICATION_COLORS: Record<string, string> = {
+  productive: c.green,
+  ok: c.green,
+  idle: c.yellow,
+  empty: c.red,
+  error: c.red,
+};
+
+function describe(e: SupervisorEvent): string {
+  switch (e.type) {
+    case 'state_change':
+      return `${e.from} → ${e.to}`;
+    case 'turn_start':
+      return `turn ${e.turn}: ${e.prompt_type} prompt (${e.prompt_chars} chars)`;
+    case 'turn_end': {
+      const color = CLASSIFICATION_COLORS[e.classification as string] || '';
+      const secs = typeof e.duration_ms === 'number' ? ` in ${Math.round(e.duration_ms / 1000)}s` : '';
+      return `turn ${e.turn}: ${color}${e.classification}${c.reset}${secs} (${e.tools} tools, ${e.text_chars} chars)`;
+    }
+    case 'verification':
+      if (e.error) return `${c.red}failed${c.reset}: ${e.error}`;
+      if (e.value === null) return `${c.red}not numeric${c.reset}: ${e.output}`;
+      return `${e.passed ? `${c.green}PASSED${c.reset}` : 'not yet'}: ${e.value} ${e.direction} ${e.target}`;
+    case 'question':
+      return `${e.priority === 'blocking' ? `${c.yellow}[BLOCKING]${c.reset} ` : ''}${e.question_id}: "${e.text}"`;
+    case 'question_answered':
+      return `${e.question_id} answered`;
+    case 'directives_applied':
+      return `${e.count} directive(s): ${(e.instructions as string[]).join('; ')}`;
+    case 'task_end':
+      return `${e.status}: ${e.reason}`;
+    default: {
+      const { seq, id, ts, type, state, task_id, turn, ...rest } = e;
+      return JSON.stringify(rest);
+    }
+  }
+}
+
+function printEvent(e: SupervisorEvent, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(e));
+    return;
+  }
+  const time = new Date(e.ts).toLocaleString();
+  console.log(`${c.dim}${time.padEnd(22)}${c.reset}${c.cyan}${e.type.padEnd(20)}${c.reset}${describe(e)}`);
+}
+
+interface LogsOptions {
+  lines?: string;
+  since?: string;
+  grep?: string;
+  ignoreCase?: boolean;
+  follow?: boolean;
+  events?: boolean;
+  type?: string;
+  json?: boolean;
+}
+
+export async function logsCommand(project: string, opts: LogsOptions): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  let since: string | undefined;
+  if (opts.since) {
+    const parsed = parseSince(opts.since);
+    if (!parsed) {
+      console.error(`Invalid --since "${opts.since}". Use e.g. 30m, 24h or an ISO date.`);
+      process.exit(1);
+    }
+    since = parsed;
+  }
+
+  const lines = opts.lines !== undefined ? parseInt(opts.lines, 10) : undefined;
+  if (lines !== undefined && (isNaN(lines) || lines < 0)) {
+    console.error(`Invalid --lines "${opts.lines}".`);
+    process.exit(1);
+  }
+
+  // --type and --json only make sense for structured events
+  if (opts.events || opts.type || opts.json) {
+    if (opts.grep) {
+      console.error('--grep filters the text log; use --type to filter events.');
+      process.exit(1);
+    }
+    await showEvents(api, project, { type: opts.type, since, limit: lines, follow: opts.follow, json: opts.json });
+    return;
+  }
+
+  const query: LogQuery = { lines: lines ?? 100, grep: opts.grep, ignore_case: opts.ignoreCase, since };
+  if (opts.follow) {
+    followLogs(api, project, query);
+    return;
+  }
+
+  try {
+    const logs = await api.getLogs(project, query);
+    if (logs) process.stdout.write(logs.endsWith('\n') ? logs : `${logs}\n`);
+  } catch (err: any) {
+    console.error(`Failed to get logs: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+/** Prints the backlog and then each new line over the log WebSocket until interrupted. */
+function followLogs(api: ApiClient, project: string, query: LogQuery): void {
+  const ws = new WebSocket(api.getLogsWsUrl(project, query));
+  let ended = false;
+
+  ws.on('message', (data) => {
+    let frame: LogFrame;
+    try {
+      frame = JSON.parse(data.toString());
+    } catch {
+      return; // ignore malformed frames
+    }
+
+    switch (frame.type) {
+      case 'line':
+        console.log(frame.text);
+        break;
+      case 'end':
+        ended = true;
+        console.error(`${c.dim}Log stream ended (container stopped).${c.reset}`);
+        break;
+      case 'error':
+        ended = true;
+        console.error(`Failed to follow logs: ${frame.message}`);
+        process.exitCode = 1;
+        break;
+    }
+  });
+
+  ws.on('close', (code, reason) => {
+    if (!ended) {
+      console.error(`Log stream closed (${code}${reason.length ? `: ${reason}` : ''})`);
+      process.exitCode = 1;
+    }
+    process.exit();
+  });
+
+  ws.on('error', (err) => {
+    console.error(`Failed to follow logs: ${err.message}`);
+    process.exit(1);
+  });
+}
+
+async function showEvents(
+  api: ApiClient,
+  project: string,
+  opts: { type?: string; since?: string; limit?: number; follow?: boolean; json?: boolean },
+): Promise<void> {
+  let cursor = 0;
+  try {
+    const events = await api.listEvents(project, { type: opts.type, since: opts.since, limit: opts.limit ?? 50 });
+    // Newest first from the API; print oldest first so the log reads top to bottom
+    for (const e of [...events].reverse()) printEvent(e, !!opts.json);
+    if (events.length > 0) cursor = events[0].seq;
+    else if (!opts.follow && !opts.json) console.log(`No supervisor events for "${project}".`);
+  } catch (err: any) {
+    console.error(`Failed to get events: ${err.message}`);
+    process.exit(1);
+  }
+
+  if (!opts.follow) return;
+
+  // Events are indexed by the control plane as it reads them, so follow them by polling for newer ones
+  for (;;) {
+    await new Promise((r) => setTimeout(r, FOLLOW_INTERVAL_MS));
+    try {
+      const events = await api.listEvents(project, { type: opts.type, after: cursor, limit: 1000 });
+      for (const e of [...events].reverse()) printEvent(e, !!opts.json);
+      if (events.length > 0) cursor = events[0].seq;
+    } catch (err: any) {
+      console.error(`${c.dim}Failed to get events: ${err.message} (retrying)${c.reset}`);
+    }
+  }
+}
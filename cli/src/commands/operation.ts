@@ -0,0 +1,35 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import { waitForOperation, formatOperationSteps } from '../operation-progress.js';
+
+const c = {
+  reset: '\x1b[0m',
+  dim: '\x1b[2m',
+  bold: '\x1b[1m',
+};
+
+export async function operationCommand(id: string, opts: { wait?: boolean }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    const op = opts.wait ? await waitForOperation(api, id) : await api.getOperation(id);
+
+    console.log(`${c.bold}${op.id}${c.reset}  ${op.type} ${op.project}  ${op.status}`);
+    console.log(`${c.dim}started ${op.created_at}${op.finished_at ? `, finished ${op.finished_at}` : ''}${c.reset}`);
+    if (op.error) console.log(`Error: ${op.error}`);
+
+    console.log('\nSteps:');
+    console.log(formatOperationSteps(op));
+
+    console.log('\nLog:');
+    for (const entry of op.logs) {
+      console.log(`  ${c.dim}${entry.at.slice(11, 19)}${c.reset} ${entry.message}`);
+    }
+
+    if (op.status === 'failed' || op.status === 'rolled_back') process.exit(1);
+  } catch (err: any) {
+    console.error(`Failed to get operation: ${err.message}`);
+    process.exit(1);
+  }
+}
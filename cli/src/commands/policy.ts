@@ -0,0 +1,97 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import type { ProjectPolicy } from '../types.js';
+
+// Accepts "30m", "2h", "1d", plain minutes ("45") or "off"
+function parseIdleStop(value: string): number | null | undefined {
+  if (value === 'off' || value === 'none') return null;
+  const match = value.match(/^(\d+)([mhd]?)$/);
+  if (!match) return undefined;
+  const minutes = parseInt(match[1], 10) * { '': 1, m: 1, h: 60, d: 1440 }[match[2] as '' | 'm' | 'h' | 'd'];
+  return minutes > 0 ? minutes : undefined;
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+function printPolicy(policy: ProjectPolicy): void {
+  console.log(`${policy.project}`);
+  if (policy.idle_stop_minutes === null) {
+    console.log('  Idle stop: off');
+  } else {
+    console.log(`  Idle stop: ${formatMinutes(policy.idle_stop_minutes)} after the task finishes with no human attached`);
+    if (policy.idle_since) {
+      console.log(`             idle since ${new Date(policy.idle_since).toLocaleString()}`);
+    }
+  }
+
+  if (policy.budget_usd === null) {
+    console.log('  Budget:    none');
+  } else {
+    const action = policy.budget_action === 'stop' ? 'stop the worker' : 'pause the supervisor';
+    console.log(`  Budget:    $${policy.budget_usd.toFixed(2)}, then ${action}`);
+    if (policy.budget_exceeded_at) {
+      console.log(`             exceeded ${new Date(policy.budget_exceeded_at).toLocaleString()}`);
+    }
+  }
+}
+
+export async function policySetCommand(project: string, opts: { idleStop?: string; budget?: string; budgetAction?: string }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  const update: { idleStopMinutes?: number | null; budgetUsd?: number | null; budgetAction?: 'pause' | 'stop' } = {};
+
+  if (opts.idleStop !== undefined) {
+    const minutes = parseIdleStop(opts.idleStop);
+    if (minutes === undefined) {
+      console.error(`Invalid duration "${opts.idleStop}". Use e.g. 30m, 2h, 1d or off.`);
+      process.exit(1);
+    }
+    update.idleStopMinutes = minutes;
+  }
+
+  if (opts.budget !== undefined) {
+    const usd = opts.budget === 'off' || opts.budget === 'none' ? null : parseFloat(opts.budget.replace(/^\$/, ''));
+    if (usd !== null && !(usd > 0)) {
+      console.error(`Invalid budget "${opts.budget}". Use an amount in USD (e.g. 50) or off.`);
+      process.exit(1);
+    }
+    update.budgetUsd = usd;
+  }
+
+  if (opts.budgetAction !== undefined) {
+    if (opts.budgetAction !== 'pause' && opts.budgetAction !== 'stop') {
+      console.error(`Invalid budget action "${opts.budgetAction}". Use pause or stop.`);
+      process.exit(1);
+    }
+    update.budgetAction = opts.budgetAction;
+  }
+
+  if (Object.keys(update).length === 0) {
+    console.error('Nothing to set. Pass --idle-stop, --budget or --budget-action.');
+    process.exit(1);
+  }
+
+  try {
+    printPolicy(await api.setPolicy(project, update));
+  } catch (err: any) {
+    console.error(`Failed to set policy: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+export async function policyShowCommand(project: string): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    printPolicy(await api.getPolicy(project));
+  } catch (err: any) {
+    console.error(`Failed to get policy: ${err.message}`);
+    process.exit(1);
+  }
+}
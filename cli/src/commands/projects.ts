@@ -20,7 +20,7 @@ export async function projectsCommand(): Promise<void> {
   console.log('-'.repeat(nameWidth + 14 + 18 + 24));
 
   for (const p of projects) {
-    const statusColor = p.status === 'running' ? '\x1b[32m' : p.status === 'error' ? '\x1b[31m' : '\x1b[33m';
+    const statusColor = p.status === 'running' ? '\x1b[32m' : p.status === 'error' ? '\x1b[31m' : p.status === 'stopped' ? '\x1b[2m' : '\x1b[33m';
     const status = `${statusColor}${p.status}\x1b[0m`;
     const instance = p.instance_type || 'local';
     const created = new Date(p.created_at).toLocaleString();
@@ -1,7 +1,8 @@
 import { requireConfig } from '../config.js';
 import { ApiClient } from '../api-client.js';
+import { waitForOperation, formatOperationSteps, printOperationStarted } from '../operation-progress.js';
 
-export async function resizeCommand(name: string, instanceType: string): Promise<void> {
+export async function resizeCommand(name: string, instanceType: string, opts: { wait?: boolean } = {}): Promise<void> {
   const config = requireConfig();
   const api = new ApiClient(config);
 
@@ -10,9 +11,27 @@ export async function resizeCommand(name: string, instanceType: string): Promise
   console.log('Workspace data is preserved.\n');
 
   try {
-    const result = await api.resizeProject(name, instanceType);
-    console.log(`Resized to ${result.instanceType}.`);
-    console.log('Project container is restarting on the new instance.');
+    const { operation } = await api.resizeProject(name, instanceType);
+    if (opts.wait === false) {
+      printOperationStarted(operation);
+      return;
+    }
+
+    const op = await waitForOperation(api, operation.id);
+
+    if (op.status === 'succeeded') {
+      console.log(`\nResized to ${instanceType}. Project container is running on the new instance.`);
+      return;
+    }
+
+    console.error(`\nResize failed: ${op.error}`);
+    console.error(formatOperationSteps(op));
+    if (op.status === 'rolled_back') {
+      console.error(`\nRolled back to ${op.params.from}; the project is running on its previous instance type.`);
+    } else {
+      console.error(`\nRollback failed; the project is in an error state. Operation: ${op.id}`);
+    }
+    process.exit(1);
   } catch (err: any) {
     console.error(`Failed to resize: ${err.message}`);
     process.exit(1);
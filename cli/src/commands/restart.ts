@@ -1,14 +1,22 @@
 import { requireConfig } from '../config.js';
 import { ApiClient } from '../api-client.js';
+import { waitForOperation, printOperationStarted, exitWithOperationError } from '../operation-progress.js';
 
-export async function restartCommand(name: string): Promise<void> {
+export async function restartCommand(name: string, opts: { wait?: boolean } = {}): Promise<void> {
   const config = requireConfig();
   const api = new ApiClient(config);
 
   console.log(`Restarting project "${name}"...`);
 
   try {
-    await api.restartProject(name);
+    const { operation } = await api.restartProject(name);
+    if (opts.wait === false) {
+      printOperationStarted(operation);
+      return;
+    }
+
+    const op = await waitForOperation(api, operation.id);
+    if (op.status !== 'succeeded') exitWithOperationError('Restart', op);
     console.log(`Project "${name}" restarted.`);
   } catch (err: any) {
     console.error(`Failed to restart: ${err.message}`);
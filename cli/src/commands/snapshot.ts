@@ -0,0 +1,102 @@
+import { createInterface } from 'readline';
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import { waitForOperation, printOperationStarted, exitWithOperationError } from '../operation-progress.js';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+export async function snapshotCreateCommand(project: string, opts: { label?: string }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  console.log(`Snapshotting /workspace of "${project}"...`);
+
+  try {
+    const snapshot = await api.createSnapshot(project, opts.label);
+    console.log(`Snapshot created: ${snapshot.id} (${formatSize(snapshot.size_bytes)})`);
+  } catch (err: any) {
+    console.error(`Failed to create snapshot: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+export async function snapshotListCommand(project: string): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    const snapshots = await api.listSnapshots(project);
+    if (snapshots.length === 0) {
+      console.log(`No snapshots for "${project}".`);
+      return;
+    }
+
+    console.log('ID'.padEnd(20) + 'CREATED'.padEnd(24) + 'SIZE'.padEnd(12) + 'LABEL');
+    console.log('-'.repeat(20 + 24 + 12 + 30));
+    for (const s of snapshots) {
+      console.log(
+        s.id.padEnd(20) +
+        new Date(s.created_at).toLocaleString().padEnd(24) +
+        formatSize(s.size_bytes).padEnd(12) +
+        (s.label || '')
+      );
+    }
+  } catch (err: any) {
+    console.error(`Failed to list snapshots: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+export async function snapshotRestoreCommand(project: string, id: string, opts: { force?: boolean; wait?: boolean }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  if (!opts.force) {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    const answer = await new Promise<string>((resolve) => {
+      rl.question(`Replace /workspace of "${project}" with snapshot ${id}? Current contents will be lost. [y/N] `, resolve);
+    });
+    rl.close();
+
+    if (answer.toLowerCase() !== 'y') {
+      console.log('Cancelled.');
+      return;
+    }
+  }
+
+  console.log(`Restoring snapshot ${id}...`);
+
+  try {
+    const { operation } = await api.restoreSnapshot(project, id);
+    if (opts.wait === false) {
+      printOperationStarted(operation);
+      return;
+    }
+
+    const op = await waitForOperation(api, operation.id);
+    if (op.status !== 'succeeded') exitWithOperationError('Restore', op);
+    console.log(`Workspace of "${project}" restored from ${id}.`);
+    console.log(`Restart the project so the agent starts fresh: synv2 restart ${project}`);
+  } catch (err: any) {
+    console.error(`Failed to restore snapshot: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+export async function snapshotDeleteCommand(project: string, id: string): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    await api.deleteSnapshot(project, id);
+    console.log(`Snapshot ${id} deleted.`);
+  } catch (err: any) {
+    console.error(`Failed to delete snapshot: ${err.message}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,25 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import { waitForOperation, printOperationStarted, exitWithOperationError } from '../operation-progress.js';
+
+export async function startCommand(name: string, opts: { wait?: boolean }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  console.log(`Starting project "${name}"...`);
+
+  try {
+    const { operation } = await api.startProject(name);
+    if (opts.wait === false) {
+      printOperationStarted(operation);
+      return;
+    }
+
+    const op = await waitForOperation(api, operation.id);
+    if (op.status !== 'succeeded') exitWithOperationError('Start', op);
+    console.log(`Project "${name}" is running.`);
+  } catch (err: any) {
+    console.error(`Failed to start: ${err.message}`);
+    process.exit(1);
+  }
+}
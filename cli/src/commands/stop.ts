@@ -0,0 +1,26 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import { waitForOperation, printOperationStarted, exitWithOperationError } from '../operation-progress.js';
+
+export async function stopCommand(name: string, opts: { wait?: boolean }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  console.log(`Stopping project "${name}"...`);
+
+  try {
+    const { operation } = await api.stopProject(name);
+    if (opts.wait === false) {
+      printOperationStarted(operation);
+      return;
+    }
+
+    const op = await waitForOperation(api, operation.id);
+    if (op.status !== 'succeeded') exitWithOperationError('Stop', op);
+    console.log(`Project "${name}" stopped. Workspace and task are kept.`);
+    console.log(`Start it again with: synv2 start ${name}`);
+  } catch (err: any) {
+    console.error(`Failed to stop: ${err.message}`);
+    process.exit(1);
+  }
+}
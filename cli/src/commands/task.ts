@@ -1,5 +1,6 @@
 import { requireConfig } from '../config.js';
 import { ApiClient } from '../api-client.js';
+import type { TaskUsage } from '../types.js';
 
 interface TaskResponse {
   task: { name: string; id: string; status: string };
@@ -53,6 +54,31 @@ function timeAgo(isoStr: string): string {
   return `${Math.floor(hours / 24)}d ago`;
 }
 
+function tokenCount(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+const RECENT_TURNS = 5;
+
+function printTaskUsage(usage: TaskUsage): void {
+  console.log(`  Tokens: ${tokenCount(usage.input_tokens)} in / ${tokenCount(usage.output_tokens)} out` +
+    `, cache ${tokenCount(usage.cache_read_tokens)} read / ${tokenCount(usage.cache_write_tokens)} write` +
+    ` (~$${usage.cost_usd.toFixed(2)})`);
+  for (const m of usage.by_model) {
+    console.log(`    ${m.model}: ${m.calls} calls, ${tokenCount(m.input_tokens)} in / ${tokenCount(m.output_tokens)} out (~$${m.cost_usd.toFixed(2)})`);
+  }
+
+  const recent = usage.turns.slice(-RECENT_TURNS);
+  if (recent.length > 0) {
+    console.log('  Recent turns:');
+    for (const t of recent) {
+      console.log(`    #${String(t.turn).padEnd(5)} ${tokenCount(t.input_tokens).padStart(7)} in / ${tokenCount(t.output_tokens).padStart(7)} out  ${t.models.join(', ')}`);
+    }
+  }
+}
+
 export async function taskStatusCommand(project: string) {
   const config = requireConfig();
   const api = new ApiClient(config);
@@ -78,6 +104,9 @@ export async function taskStatusCommand(project: string) {
     if (task.summary) {
       console.log(`  Summary: ${task.summary}`);
     }
+    if (detail.task_usage && detail.task_usage.calls > 0) {
+      printTaskUsage(detail.task_usage);
+    }
 
     // Show pending questions
     if (task.questions && task.questions.length > 0) {
@@ -99,6 +128,38 @@ export async function taskStatusCommand(project: string) {
   }
 }
 
+export async function taskListCommand(project: string, opts: { archived?: boolean }) {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    const tasks = await api.listTasks(project, { archived: opts.archived });
+    if (tasks.length === 0) {
+      console.log(opts.archived ? `No archived tasks for "${project}"` : `No tasks recorded for "${project}"`);
+      return;
+    }
+
+    console.log(
+      'ID'.padEnd(20) + 'NAME'.padEnd(30) + 'STATUS'.padEnd(12) + 'TURNS'.padEnd(8) + 'STARTED'
+    );
+    console.log('-'.repeat(20 + 30 + 12 + 8 + 12));
+    for (const t of tasks) {
+      const name = t.name.length > 28 ? t.name.slice(0, 27) + '…' : t.name;
+      const turns = String(t.progress?.turns_completed || 0);
+      console.log(t.id.padEnd(20) + name.padEnd(30) + t.status.padEnd(12) + turns.padEnd(8) + timeAgo(t.started_at));
+      if (t.completion_reason) {
+        console.log(`${''.padEnd(20)}${t.completion_reason}`);
+      }
+      if (t.archived_at) {
+        console.log(`${''.padEnd(20)}archived ${timeAgo(t.archived_at)} when the project was destroyed`);
+      }
+    }
+  } catch (err: any) {
+    console.error(`Failed to list tasks: ${err.message}`);
+    process.exit(1);
+  }
+}
+
 export async function taskStopCommand(project: string) {
   const config = requireConfig();
   const api = new ApiClient(config);
@@ -0,0 +1,94 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+
+const ROLES = ['read', 'operator', 'admin'];
+
+// Accepts a relative duration ("30d", "12h", "45m") or an absolute date
+function parseExpiry(value: string): string | null {
+  const match = value.match(/^(\d+)([mhd])$/);
+  if (match) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'm' | 'h' | 'd'];
+    return new Date(Date.now() + parseInt(match[1], 10) * unitMs).toISOString();
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export async function tokenCreateCommand(opts: { label: string; role: string; projects?: string; expires?: string }): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  if (!ROLES.includes(opts.role)) {
+    console.error(`Invalid role "${opts.role}". Use one of: ${ROLES.join(', ')}`);
+    process.exit(1);
+  }
+
+  let expiresAt: string | undefined;
+  if (opts.expires) {
+    const parsed = parseExpiry(opts.expires);
+    if (!parsed) {
+      console.error(`Invalid expiry "${opts.expires}". Use e.g. 30d, 12h, 45m or an ISO date.`);
+      process.exit(1);
+    }
+    expiresAt = parsed;
+  }
+
+  const projects = opts.projects
+    ? opts.projects.split(',').map((p) => p.trim()).filter(Boolean)
+    : undefined;
+
+  try {
+    const result = await api.createToken({ label: opts.label, role: opts.role, projects, expiresAt });
+    console.log(`Token created: ${result.id} (${result.role})`);
+    console.log(`  Projects: ${result.projects ? result.projects.join(', ') : 'all'}`);
+    console.log(`  Expires:  ${result.expires_at ? new Date(result.expires_at).toLocaleString() : 'never'}`);
+    console.log('');
+    console.log(`  ${result.token}`);
+    console.log('');
+    console.log('Store it now — it cannot be shown again.');
+  } catch (err: any) {
+    console.error(`Failed to create token: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+export async function tokenListCommand(): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    const tokens = await api.listTokens();
+    if (tokens.length === 0) {
+      console.log('No tokens.');
+      return;
+    }
+
+    console.log(
+      'ID'.padEnd(18) + 'LABEL'.padEnd(20) + 'ROLE'.padEnd(10) + 'PROJECTS'.padEnd(24) + 'EXPIRES'
+    );
+    console.log('-'.repeat(18 + 20 + 10 + 24 + 20));
+    for (const t of tokens) {
+      const projects = t.projects ? t.projects.join(',') : 'all';
+      const expires = t.expires_at
+        ? `${new Date(t.expires_at).toLocaleString()}${t.expired ? ' \x1b[31m(expired)\x1b[0m' : ''}`
+        : 'never';
+      console.log(t.id.padEnd(18) + t.label.padEnd(20) + t.role.padEnd(10) + projects.padEnd(24) + expires);
+    }
+  } catch (err: any) {
+    console.error(`Failed to list tokens: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+export async function tokenRevokeCommand(id: string): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    await api.revokeToken(id);
+    console.log(`Token "${id}" revoked.`);
+  } catch (err: any) {
+    console.error(`Failed to revoke token: ${err.message}`);
+    process.exit(1);
+  }
+}
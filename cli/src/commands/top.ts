@@ -0,0 +1,430 @@
+import { spawn } from 'child_process';
+import { emitKeypressEvents } from 'readline';
+import type { Key } from 'readline';
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import type { ProjectOverview, TaskQuestion } from '../types.js';
+
+const DEFAULT_INTERVAL_SECS = 3;
+const MESSAGE_MS = 5000;
+const MAX_DETAIL_QUESTIONS = 3;
+
+const c = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  inverse: '\x1b[7m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+const screen = {
+  enter: '\x1b[?1049h\x1b[?25l', // alternate buffer, hide cursor
+  leave: '\x1b[?25h\x1b[?1049l',
+  home: '\x1b[H',
+  clearLine: '\x1b[K',
+  clearBelow: '\x1b[J',
+};
+
+const STATE_COLORS: Record<string, string> = {
+  PROMPTING: c.green,
+  WAITING: c.green,
+  DELAY: c.green,
+  PAUSED: c.yellow,
+  NEEDS_INPUT: c.yellow,
+  INIT: c.dim,
+  COMPLETED: c.cyan,
+  ERROR_STOPPED: c.red,
+};
+
+interface Column {
+  title: string;
+  width: number;
+  cell: (p: ProjectOverview) => [string, string?]; // text, color
+}
+
+function formatMemory(mb: number): string {
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)}G` : `${mb}M`;
+}
+
+function openQuestions(p: ProjectOverview): TaskQuestion[] {
+  // Blocking questions first: those are the ones holding the agent up
+  const questions = p.task?.questions ?? [];
+  return [...questions.filter((q) => q.priority === 'blocking'), ...questions.filter((q) => q.priority !== 'blocking')];
+}
+
+const COLUMNS: Column[] = [
+  { title: 'PROJECT', width: 18, cell: (p) => [p.name] },
+  { title: 'STATUS', width: 13, cell: (p) => [p.status, p.status === 'running' ? (p.reachable ? c.green : c.yellow) : c.red] },
+  {
+    title: 'SUPERVISOR',
+    width: 14,
+    cell: (p) => {
+      if (!p.supervisor) return ['-', c.dim];
+      if (!p.supervisor.connected) return ['off', c.red];
+      const state = p.supervisor.state || 'connected';
+      return [state.toLowerCase(), STATE_COLORS[state] || ''];
+    },
+  },
+  { title: 'BUSY', width: 6, cell: (p) => (p.agent_busy ? ['yes', c.green] : ['-', c.dim]) },
+  { title: 'TASK', width: 24, cell: (p) => (p.task ? [`${p.task.name} [${p.task.status}]`] : ['-', c.dim]) },
+  { title: 'TURNS', width: 7, cell: (p) => [p.task ? String(p.task.turns_completed) : '-'] },
+  { title: 'METRIC', width: 10, cell: (p) => [p.task?.latest_metric !== null && p.task?.latest_metric !== undefined ? String(p.task.latest_metric) : '-'] },
+  {
+    title: 'QUESTIONS',
+    width: 12,
+    cell: (p) => {
+      const open = openQuestions(p);
+      if (open.length === 0) return ['-', c.dim];
+      const blocking = open.filter((q) => q.priority === 'blocking').length;
+      return blocking > 0 ? [`${open.length} (${blocking} block)`, c.yellow] : [String(open.length)];
+    },
+  },
+  {
+    title: 'CPU',
+    width: 8,
+    cell: (p) => [p.resources?.cpu_percent !== null && p.resources?.cpu_percent !== undefined ? `${Math.round(p.resources.cpu_percent)}%` : '-'],
+  },
+  {
+    title: 'MEM',
+    width: 13,
+    cell: (p) => {
+      const r = p.resources;
+      if (!r || r.memory_used_mb === null || r.memory_total_mb === null) return ['-'];
+      return [`${formatMemory(r.memory_used_mb)}/${formatMemory(r.memory_total_mb)}`];
+    },
+  },
+  {
+    title: 'ATTACHED',
+    width: 10,
+    cell: (p) => {
+      if (p.humans === 0 && p.observers === 0) return ['-', c.dim];
+      return [[p.humans ? `${p.humans}h` : '', p.observers ? `${p.observers}w` : ''].filter(Boolean).join(' '), p.humans ? c.yellow : ''];
+    },
+  },
+];
+
+/** Fit `text` into `width` columns: cut with an ellipsis, or pad. */
+function fit(text: string, width: number): string {
+  return text.length > width - 1 ? `${text.slice(0, width - 2)}… ` : text.padEnd(width);
+}
+
+interface Answering {
+  project: string;
+  questions: TaskQuestion[];
+  index: number;
+  text: string;
+}
+
+class TopScreen {
+  private api: ApiClient;
+  private intervalMs: number;
+  private projects: ProjectOverview[] = [];
+  private selected: string | null = null;
+  private updatedAt: Date | null = null;
+  private error: string | null = null;
+  private message: { text: string; at: number; error: boolean } | null = null;
+  private answering: Answering | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private fetching = false;
+  private suspended = false;
+  private onKeypress = (str: string | undefined, key: Key) => this.handleKey(str, key);
+  private onResize = () => this.render();
+
+  constructor(api: ApiClient, intervalMs: number) {
+    this.api = api;
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    emitKeypressEvents(process.stdin);
+    // Raw mode turns Ctrl+C into a key; while attached the child owns the terminal and handles it
+    process.on('SIGINT', () => {
+      if (!this.suspended) this.quit();
+    });
+    this.resume();
+  }
+
+  private resume(): void {
+    this.suspended = false;
+    process.stdout.write(screen.enter);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.on('keypress', this.onKeypress);
+    process.stdout.on('resize', this.onResize);
+    this.refresh();
+  }
+
+  private suspend(): void {
+    this.suspended = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    process.stdin.off('keypress', this.onKeypress);
+    process.stdout.off('resize', this.onResize);
+    process.stdin.setRawMode(false);
+    process.stdin.pause();
+    process.stdout.write(screen.leave);
+  }
+
+  private quit(): void {
+    this.suspend();
+    process.exit(0);
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.fetching) return;
+    this.fetching = true;
+    try {
+      this.projects = await this.api.getOverview();
+      this.updatedAt = new Date();
+      this.error = null;
+      if (!this.projects.some((p) => p.name === this.selected)) this.selected = this.projects[0]?.name ?? null;
+    } catch (err: any) {
+      this.error = err.message;
+    } finally {
+      this.fetching = false;
+    }
+    if (this.suspended) return;
+    this.render();
+    this.timer = setTimeout(() => this.refresh(), this.intervalMs);
+  }
+
+  private get current(): ProjectOverview | null {
+    return this.projects.find((p) => p.name === this.selected) ?? null;
+  }
+
+  private flash(text: string, error = false): void {
+    this.message = { text, at: Date.now(), error };
+    this.render();
+  }
+
+  // ── Keys ──────────────────────────────────────────────────────
+
+  private handleKey(str: string | undefined, key: Key): void {
+    if (key.ctrl && key.name === 'c') {
+      this.quit();
+      return;
+    }
+    if (this.answering) {
+      this.handleAnswerKey(str, key);
+      return;
+    }
+
+    const index = this.projects.findIndex((p) => p.name === this.selected);
+    switch (key.name) {
+      case 'up':
+      case 'k':
+        if (index > 0) this.selected = this.projects[index - 1].name;
+        this.render();
+        return;
+      case 'down':
+      case 'j':
+        if (index < this.projects.length - 1) this.selected = this.projects[index + 1].name;
+        this.render();
+        return;
+      case 'return':
+        this.attach(false);
+        return;
+      case 'w':
+        this.attach(true);
+        return;
+      case 'p':
+        this.controlSupervisor('pause');
+        return;
+      case 'r':
+        this.controlSupervisor('resume');
+        return;
+      case 'a':
+        this.startAnswer();
+        return;
+      case 'q':
+        this.quit();
+        return;
+    }
+  }
+
+  private handleAnswerKey(str: string | undefined, key: Key): void {
+    const answering = this.answering!;
+    if (key.name === 'escape') {
+      this.answering = null;
+    } else if (key.name === 'return') {
+      this.submitAnswer();
+      return;
+    } else if (key.name === 'tab') {
+      answering.index = (answering.index + 1) % answering.questions.length;
+    } else if (key.name === 'backspace') {
+      answering.text = answering.text.slice(0, -1);
+    } else if (str && !key.ctrl && !key.meta && str >= ' ') {
+      answering.text += str;
+    }
+    this.render();
+  }
+
+  // ── Actions ───────────────────────────────────────────────────
+
+  private attach(watch: boolean): void {
+    const p = this.current;
+    if (!p) return;
+    if (p.status !== 'running') {
+      this.flash(`${p.name} is ${p.status}`, true);
+      return;
+    }
+
+    // Run attach as its own process so its exit (it calls process.exit) brings us back here
+    this.suspend();
+    const args = [...process.execArgv, process.argv[1], 'attach', p.name, ...(watch ? ['--watch'] : [])];
+    const child = spawn(process.execPath, args, { stdio: 'inherit' });
+    const back = (text: string, error = false) => {
+      this.message = { text, at: Date.now(), error };
+      this.resume();
+    };
+    child.on('exit', () => back(`Detached from ${p.name}`));
+    child.on('error', (err) => back(`Failed to attach: ${err.message}`, true));
+  }
+
+  private async controlSupervisor(action: 'pause' | 'resume'): Promise<void> {
+    const p = this.current;
+    if (!p) return;
+    try {
+      const result = await this.api.controlSupervisor(p.name, action);
+      if (!result.supervisorFound) this.flash(`Supervisor not connected for ${p.name}`, true);
+      else this.flash(`Supervisor ${action === 'pause' ? 'paused' : 'resumed'} for ${p.name}`);
+      this.refresh();
+    } catch (err: any) {
+      this.flash(`Failed to ${action} supervisor: ${err.message}`, true);
+    }
+  }
+
+  private startAnswer(): void {
+    const p = this.current;
+    if (!p) return;
+    const questions = openQuestions(p);
+    if (questions.length === 0) {
+      this.flash(`${p.name} has no open questions`);
+      return;
+    }
+    this.answering = { project: p.name, questions, index: 0, text: '' };
+    this.render();
+  }
+
+  private async submitAnswer(): Promise<void> {
+    const answering = this.answering!;
+    const answer = answering.text.trim();
+    if (!answer) return;
+    const question = answering.questions[answering.index];
+    this.answering = null;
+    try {
+      await this.api.respondToQuestion(answering.project, question.id, answer);
+      this.flash(`Answered ${question.id} for ${answering.project}`);
+      this.refresh();
+    } catch (err: any) {
+      this.flash(`Failed to answer: ${err.message}`, true);
+    }
+  }
+
+  // ── Drawing ───────────────────────────────────────────────────
+
+  private render(): void {
+    if (this.suspended) return;
+    const width = process.stdout.columns || 120;
+    const height = process.stdout.rows || 40;
+    const lines: string[] = [];
+
+    const updated = this.updatedAt ? this.updatedAt.toLocaleTimeString() : '…';
+    lines.push(`${c.bold}${c.cyan}synv2 top${c.reset}${c.dim} — ${this.projects.length} project(s) · updated ${updated} · every ${this.intervalMs / 1000}s${c.reset}`);
+    lines.push(this.error ? `${c.red}Failed to refresh: ${this.error}${c.reset}` : '');
+
+    // Only as many columns as fit the terminal
+    const columns: Column[] = [];
+    let used = 0;
+    for (const col of COLUMNS) {
+      if (used + col.width > width) break;
+      columns.push(col);
+      used += col.width;
+    }
+
+    lines.push(`${c.dim}${columns.map((col) => fit(col.title, col.width)).join('')}${c.reset}`);
+    for (const p of this.projects) {
+      const selected = p.name === this.selected;
+      const cells = columns.map((col) => {
+        const [text, color = ''] = col.cell(p);
+        return `${selected ? '' : color}${fit(text, col.width)}${selected ? '' : c.reset}`;
+      });
+      lines.push(selected ? `${c.inverse}${cells.join('')}${c.reset}` : cells.join(''));
+    }
+    if (this.projects.length === 0 && this.updatedAt) lines.push(`${c.dim}No projects.${c.reset}`);
+
+    lines.push('');
+    lines.push(...this.detailLines(width));
+
+    // Footer pinned to the bottom rows
+    const footer = this.footerLines(width);
+    while (lines.length < height - footer.length) lines.push('');
+    lines.length = Math.max(0, height - footer.length);
+    lines.push(...footer);
+
+    process.stdout.write(screen.home + lines.map((line) => line + screen.clearLine).join('\n') + screen.clearBelow);
+  }
+
+  private detailLines(width: number): string[] {
+    const p = this.current;
+    if (!p || !p.task) return [];
+    const lines = [`${c.bold}${p.name}${c.reset}${c.dim} — ${p.task.name}${p.task.blocked ? `${c.reset} ${c.yellow}BLOCKED${c.reset}` : ''}${c.reset}`];
+    const questions = openQuestions(p);
+    for (const q of questions.slice(0, MAX_DETAIL_QUESTIONS)) {
+      const tag = q.priority === 'blocking' ? `${c.yellow}[BLOCKING]${c.reset} ` : '';
+      lines.push(`  ${c.dim}${q.id}${c.reset} ${tag}${fit(q.text, Math.max(20, width - q.id.length - 16)).trimEnd()}`);
+    }
+    if (questions.length > MAX_DETAIL_QUESTIONS) lines.push(`${c.dim}  … ${questions.length - MAX_DETAIL_QUESTIONS} more${c.reset}`);
+    return lines;
+  }
+
+  private footerLines(width: number): string[] {
+    if (this.answering) {
+      const { project, questions, index, text } = this.answering;
+      const q = questions[index];
+      const tag = q.priority === 'blocking' ? ' [BLOCKING]' : '';
+      const more = questions.length > 1 ? ` · Tab next question (${index + 1}/${questions.length})` : '';
+      return [
+        `${c.yellow}${project} ${q.id}${tag}:${c.reset} ${fit(q.text, Math.max(20, width - project.length - q.id.length - 16)).trimEnd()}`,
+        `${c.cyan}answer>${c.reset} ${text.slice(-(width - 10))}${c.inverse} ${c.reset}`,
+        `${c.dim}Enter send · Esc cancel${more}${c.reset}`,
+      ];
+    }
+
+    const lines: string[] = [];
+    if (this.message && Date.now() - this.message.at < MESSAGE_MS) {
+      lines.push(`${this.message.error ? c.red : c.green}${this.message.text}${c.reset}`);
+    } else {
+      lines.push('');
+    }
+    lines.push(`${c.dim}↑/↓ select · Enter attach · w watch · p pause · r resume supervisor · a answer question · q quit${c.reset}`);
+    return lines;
+  }
+}
+
+interface TopOptions {
+  interval?: string;
+}
+
+export async function topCommand(opts: TopOptions): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  const secs = opts.interval !== undefined ? parseFloat(opts.interval) : DEFAULT_INTERVAL_SECS;
+  if (isNaN(secs) || secs < 1) {
+    console.error(`Invalid --interval "${opts.interval}". Use a number of seconds, at least 1.`);
+    process.exit(1);
+  }
+
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    console.error('synv2 top needs an interactive terminal. Use synv2 status or synv2 projects instead.');
+    process.exit(1);
+  }
+
+  new TopScreen(api, secs * 1000).start();
+}
@@ -0,0 +1,90 @@
+import { requireConfig } from '../config.js';
+import { ApiClient } from '../api-client.js';
+import type { ProjectUsage } from '../types.js';
+
+const c = {
+  reset: '\x1b[0m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+};
+
+function usd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function count(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function budgetLabel(u: ProjectUsage): string {
+  if (u.budget.usd === null) return '-';
+  const label = `${usd(u.budget.usd)} (${u.budget.action})`;
+  if (u.budget.exceeded_at) return `${c.red}${label} exceeded${c.reset}`;
+  if (u.total_cost_usd >= u.budget.usd * 0.8) return `${c.yellow}${label}${c.reset}`;
+  return label;
+}
+
+function printDetail(u: ProjectUsage): void {
+  console.log(`${u.project}  ${usd(u.total_cost_usd)}\n`);
+
+  console.log(`Compute     ${u.compute.hours.toFixed(1)} h   ${usd(u.compute.cost_usd)}`);
+  for (const i of u.compute.instances) {
+    const rate = i.hourly_usd === null ? 'unpriced' : `${usd(i.hourly_usd)}/h`;
+    console.log(`  ${i.instance_type.padEnd(16)} ${i.provider.padEnd(6)} ${i.hours.toFixed(1).padStart(8)} h  ${rate.padEnd(10)} ${usd(i.cost_usd)}`);
+  }
+
+  const t = u.tokens;
+  console.log(`\nTokens      ${t.turns} turns   ${usd(t.cost_usd)}`);
+  console.log(`  input ${count(t.input_tokens)}, output ${count(t.output_tokens)}, cache read ${count(t.cache_read_tokens)}, cache write ${count(t.cache_write_tokens)}`);
+  if (t.updated_at) console.log(`  ${c.dim}as of ${new Date(t.updated_at).toLocaleString()}${c.reset}`);
+
+  console.log(`\nBudget      ${budgetLabel(u)}`);
+  if (u.compute.unpriced_types.length > 0) {
+    console.log(`\n${c.dim}No price for ${u.compute.unpriced_types.join(', ')}; add it to the control plane's PRICE_TABLE_PATH.${c.reset}`);
+  }
+}
+
+export async function usageCommand(project?: string): Promise<void> {
+  const config = requireConfig();
+  const api = new ApiClient(config);
+
+  try {
+    if (project) {
+      printDetail(await api.getProjectUsage(project));
+      return;
+    }
+
+    const { projects, total_cost_usd } = await api.getUsage();
+    if (projects.length === 0) {
+      console.log('No projects.');
+      return;
+    }
+
+    const nameWidth = Math.max(20, ...projects.map((p) => p.project.length + 2));
+    console.log(
+      'PROJECT'.padEnd(nameWidth) + 'HOURS'.padStart(8) + 'COMPUTE'.padStart(11) + 'TOKENS IN/OUT'.padStart(17) + 'TOKENS'.padStart(10) + 'TOTAL'.padStart(11) + '  BUDGET'
+    );
+    console.log('-'.repeat(nameWidth + 8 + 11 + 17 + 10 + 11 + 20));
+
+    for (const u of projects) {
+      const tokens = `${count(u.tokens.input_tokens)}/${count(u.tokens.output_tokens)}`;
+      console.log(
+        u.project.padEnd(nameWidth) +
+        u.compute.hours.toFixed(1).padStart(8) +
+        usd(u.compute.cost_usd).padStart(11) +
+        tokens.padStart(17) +
+        usd(u.tokens.cost_usd).padStart(10) +
+        usd(u.total_cost_usd).padStart(11) +
+        '  ' + budgetLabel(u)
+      );
+    }
+
+    console.log(`\nTotal: ${usd(total_cost_usd)}`);
+  } catch (err: any) {
+    console.error(`Failed to get usage: ${err.message}`);
+    process.exit(1);
+  }
+}
@@ -2,17 +2,31 @@ import { Command } from 'commander';
 import { setupCommand } from './commands/setup.js';
 import { projectsCommand } from './commands/projects.js';
 import { initCommand } from './commands/init.js';
+import { cloneCommand } from './commands/clone.js';
 import { attachCommand } from './commands/attach.js';
 import { destroyCommand } from './commands/destroy.js';
 import { statusCommand } from './commands/status.js';
+import { topCommand } from './commands/top.js';
 import { secretsSetCommand, secretsListCommand, secretsDeleteCommand } from './commands/secrets.js';
+import { configCommand, collect } from './commands/config.js';
 import { restartCommand } from './commands/restart.js';
 import { resizeCommand } from './commands/resize.js';
+import { stopCommand } from './commands/stop.js';
+import { startCommand } from './commands/start.js';
+import { policySetCommand, policyShowCommand } from './commands/policy.js';
+import { usageCommand } from './commands/usage.js';
+import { operationCommand } from './commands/operation.js';
 import { execCommand } from './commands/exec.js';
+import { cpCommand } from './commands/cp.js';
 import { psCommand } from './commands/ps.js';
 import { supervisorPauseCommand, supervisorResumeCommand, supervisorStopCommand, supervisorRestartCommand } from './commands/supervisor.js';
 import { directiveSetCommand, directiveListCommand, directiveDeleteCommand } from './commands/directives.js';
-import { taskStartCommand, taskStatusCommand, taskStopCommand, taskResumeCommand, taskRespondCommand } from './commands/task.js';
+import { auditCommand } from './commands/audit.js';
+import { logsCommand } from './commands/logs.js';
+import { historyCommand } from './commands/history.js';
+import { snapshotCreateCommand, snapshotListCommand, snapshotRestoreCommand, snapshotDeleteCommand } from './commands/snapshot.js';
+import { tokenCreateCommand, tokenListCommand, tokenRevokeCommand } from './commands/tokens.js';
+import { taskStartCommand, taskStatusCommand, taskListCommand, taskStopCommand, taskResumeCommand, taskRespondCommand } from './commands/task.js';
 
 const program = new Command();
 
@@ -38,44 +52,165 @@ program
   .option('--api-key <key>', 'Anthropic API key (or set ANTHROPIC_API_KEY)')
   .option('--mcp-servers <servers>', 'Comma-separated MCP servers to enable')
   .option('--instance-type <type>', 'EC2 instance type for dedicated worker (e.g. c7i.12xlarge)')
+  .option('--wait', 'Wait for the operation to finish (default)')
+  .option('--no-wait', 'Return once the operation has started instead of waiting for it')
   .action(initCommand);
 
+program
+  .command('clone <src> <dst>')
+  .description('Create a new project as a copy of an existing one (settings, secrets, workspace)')
+  .option('--instance-type <type>', 'EC2 instance type for the clone\'s dedicated worker')
+  .option('--reset-task', 'Start without the source\'s current task and memory files')
+  .option('--wait', 'Wait for the operation to finish (default)')
+  .option('--no-wait', 'Return once the operation has started instead of waiting for it')
+  .action(cloneCommand);
+
 program
   .command('attach <name>')
   .description('Open AI chat session for a project')
+  .option('-w, --watch', 'Watch the agent work without sending messages or pausing the supervisor')
   .action(attachCommand);
 
 program
   .command('destroy <name>')
   .description('Tear down a project and its data')
   .option('-f, --force', 'Skip confirmation')
+  .option('--wait', 'Wait for the operation to finish (default)')
+  .option('--no-wait', 'Return once the operation has started instead of waiting for it')
   .action(destroyCommand);
 
+program
+  .command('config <name>')
+  .description('Change a project\'s API key, MCP servers or env vars')
+  .option('--api-key <key>', 'Replace the Anthropic API key')
+  .option('--mcp-servers <servers>', 'Comma-separated MCP servers to enable (replaces the list)')
+  .option('--env <KEY=VALUE>', 'Set an env var (repeatable)', collect)
+  .option('--unset-env <KEY>', 'Remove an env var (repeatable)', collect)
+  .option('--restart', 'Restart the container so the change takes effect')
+  .action(configCommand);
+
 program
   .command('restart <name>')
   .description('Restart a project container (picks up new secrets)')
+  .option('--wait', 'Wait for the operation to finish (default)')
+  .option('--no-wait', 'Return once the operation has started instead of waiting for it')
   .action(restartCommand);
 
+program
+  .command('stop <name>')
+  .description('Hibernate a project: stop its container and worker instance, keep the workspace')
+  .option('--wait', 'Wait for the operation to finish (default)')
+  .option('--no-wait', 'Return once the operation has started instead of waiting for it')
+  .action(stopCommand);
+
+program
+  .command('start <name>')
+  .description('Start a stopped project; the supervisor resumes its task')
+  .option('--wait', 'Wait for the operation to finish (default)')
+  .option('--no-wait', 'Return once the operation has started instead of waiting for it')
+  .action(startCommand);
+
+program
+  .command('usage [project]')
+  .description('Show instance-hours, token usage and cost per project')
+  .action(usageCommand);
+
+const policy = program
+  .command('policy')
+  .description('Manage a project\'s idle auto-stop and budget policy');
+
+policy
+  .command('set <project>')
+  .description('Set idle auto-stop and budget rules for a project')
+  .option('--idle-stop <duration>', 'Stop the worker this long after the task finishes with no human attached (30m, 2h, 1d) or "off"')
+  .option('--budget <usd>', 'Budget in USD for instance-hours plus tokens, or "off"')
+  .option('--budget-action <action>', 'What to do when the budget is reached: pause (supervisor) or stop (worker)')
+  .action(policySetCommand);
+
+policy
+  .command('show <project>')
+  .alias('get')
+  .description('Show the policy, how long the project has been idle and whether its budget was hit')
+  .action(policyShowCommand);
+
 program
   .command('resize <name> <instance-type>')
   .description('Resize a project worker to a different EC2 instance type')
+  .option('--wait', 'Wait for the operation to finish (default)')
+  .option('--no-wait', 'Return once the operation has started instead of waiting for it')
   .action(resizeCommand);
 
+program
+  .command('operation <id>')
+  .description('Show the steps and log of a create/clone/restart/destroy/resize operation')
+  .option('-w, --wait', 'Wait for the operation to finish first')
+  .action(operationCommand);
+
 program
   .command('exec <name> [cmd...]')
   .description('Execute a command in a project container')
+  .option('-i, --interactive', 'Stream stdin to the command')
+  .option('-t, --tty', 'Allocate a pseudo-TTY (e.g. synv2 exec -it <name> bash)')
+  .option('--timeout <seconds>', 'Kill the command after this many seconds (default: 30, max: 600)')
   .action(execCommand);
 
+program
+  .command('cp <src> <dest>')
+  .description('Copy files between a project workspace and the local machine (e.g. synv2 cp my-app:/workspace/out ./out)')
+  .action(cpCommand);
+
 program
   .command('ps <name>')
   .description('Show running processes, memory, disk, and tmux sessions')
   .action(psCommand);
 
+program
+  .command('logs <project>')
+  .description('Show the supervisor log, or its structured events with --events')
+  .option('-n, --lines <n>', 'Number of recent lines (default 100) or events (default 50)')
+  .option('--since <when>', 'Start time as a duration back (30m, 24h) or ISO date')
+  .option('-g, --grep <text>', 'Only lines containing this text')
+  .option('-i, --ignore-case', 'Case-insensitive --grep')
+  .option('-f, --follow', 'Keep printing new lines as they are written')
+  .option('--events', 'Show structured events (state changes, turns, verifications, questions)')
+  .option('-t, --type <types>', 'Only these event types, comma-separated (e.g. turn_end,verification); implies --events')
+  .option('--json', 'Print one JSON object per event; implies --events')
+  .action(logsCommand);
+
+program
+  .command('history <project>')
+  .description('Review what the agent did, turn by turn')
+  .option('--turn <n>', 'Show the full transcript of one turn')
+  .option('-g, --grep <text>', 'Only turns whose prompt, text or tool calls contain this text (case-insensitive)')
+  .option('--task <id>', 'Only turns of this task')
+  .option('-n, --limit <n>', 'Number of turns to list (default 20)')
+  .option('--before <seq>', 'Page back: only turns older than this #seq')
+  .option('--full', 'With --turn, show the prompt and tool output in full')
+  .option('--json', 'Print the raw API response')
+  .action(historyCommand);
+
 program
   .command('status')
   .description('Show infrastructure health and project status')
   .action(statusCommand);
 
+program
+  .command('top')
+  .description('Live dashboard of every project: supervisor, task, questions, CPU and memory')
+  .option('-n, --interval <seconds>', 'Refresh interval in seconds (default 3)')
+  .action(topCommand);
+
+program
+  .command('audit')
+  .description('Show the audit log of mutating control-plane actions')
+  .option('--project <name>', 'Only events for this project')
+  .option('--action <text>', 'Only actions containing this text (e.g. secrets, DELETE)')
+  .option('--since <when>', 'Start time as a duration back (24h, 7d) or ISO date')
+  .option('--until <when>', 'End time as a duration back or ISO date')
+  .option('-n, --limit <n>', 'Maximum number of events', '100')
+  .option('--json', 'Print raw JSON')
+  .action(auditCommand);
+
 // Supervisor control
 const supervisor = program
   .command('supervisor')
@@ -146,6 +281,62 @@ secrets
   .description('Delete a secret from a project')
   .action(secretsDeleteCommand);
 
+// Workspace snapshots
+const snapshot = program
+  .command('snapshot')
+  .description('Back up and restore a project workspace');
+
+snapshot
+  .command('create <project>')
+  .description('Snapshot /workspace into the control-plane snapshot store')
+  .option('--label <label>', 'Label to identify the snapshot')
+  .action(snapshotCreateCommand);
+
+snapshot
+  .command('list <project>')
+  .alias('ls')
+  .description('List snapshots for a project')
+  .action(snapshotListCommand);
+
+snapshot
+  .command('restore <project> <id>')
+  .description('Replace /workspace with a snapshot')
+  .option('-f, --force', 'Skip confirmation')
+  .option('--no-wait', 'Return once the operation has started instead of waiting for it')
+  .action(snapshotRestoreCommand);
+
+snapshot
+  .command('delete <project> <id>')
+  .alias('rm')
+  .description('Delete a snapshot')
+  .action(snapshotDeleteCommand);
+
+// API tokens
+const token = program
+  .command('token')
+  .description('Manage API tokens (roles, project scopes, expiry)');
+
+token
+  .command('create')
+  .description('Create a new API token')
+  .requiredOption('--label <label>', 'Human-readable label (e.g. mcp-server)')
+  .option('--role <role>', 'read, operator (tasks/directives/messages) or admin', 'read')
+  .option('--projects <projects>', 'Comma-separated projects the token may access (default: all)')
+  .option('--expires <when>', 'Expiry as a duration (30d, 12h) or ISO date')
+  .action(tokenCreateCommand);
+
+token
+  .command('list')
+  .alias('ls')
+  .description('List API tokens')
+  .action(tokenListCommand);
+
+token
+  .command('revoke <id>')
+  .alias('rm')
+  .description('Revoke an API token')
+  .action(tokenRevokeCommand);
+
 // Task management
 const task = program
   .command('task')
@@ -165,6 +356,13 @@ task
   .description('Show task progress')
   .action(taskStatusCommand);
 
+task
+  .command('list <project>')
+  .alias('ls')
+  .description('List current and past tasks')
+  .option('--archived', 'List the tasks of destroyed projects that had this name')
+  .action(taskListCommand);
+
 task
   .command('stop <project>')
   .description('Stop the running task')
@@ -0,0 +1,74 @@
+import type { ApiClient } from './api-client.js';
+import type { Operation } from './types.js';
+
+const c = {
+  reset: '\x1b[0m',
+  dim: '\x1b[2m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  red: '\x1b[31m',
+};
+
+const POLL_INTERVAL_MS = 2000;
+const BAR_WIDTH = 24;
+
+function progressLine(op: Operation): string {
+  const planned = op.steps.filter((s) => s.name !== 'rollback');
+  const done = planned.filter((s) => s.status === 'done').length;
+  const filled = Math.round((done / Math.max(planned.length, 1)) * BAR_WIDTH);
+  const current = op.steps.find((s) => s.status === 'running');
+  const elapsed = Math.round((Date.now() - new Date(op.created_at).getTime()) / 1000);
+
+  const bar = `${c.green}${'█'.repeat(filled)}${c.dim}${'░'.repeat(BAR_WIDTH - filled)}${c.reset}`;
+  const label = current ? (current.name === 'rollback' ? `${c.yellow}rolling back${c.reset}` : current.name) : op.status;
+  return `${bar} ${done}/${planned.length} ${label} ${c.dim}${elapsed}s${c.reset}`;
+}
+
+/**
+ * Poll an operation until it finishes, drawing a progress bar (one line per step
+ * change when stdout is not a terminal). Resolves with the final operation.
+ */
+export async function waitForOperation(api: ApiClient, id: string): Promise<Operation> {
+  const tty = !!process.stdout.isTTY;
+  let lastStep = '';
+
+  for (;;) {
+    const op = await api.getOperation(id);
+    const current = op.steps.find((s) => s.status === 'running')?.name || '';
+
+    if (tty) {
+      process.stdout.write(`\r${progressLine(op)}\x1b[K`);
+    } else if (current && current !== lastStep) {
+      console.log(`  ${current}...`);
+    }
+    lastStep = current;
+
+    if (op.status !== 'running') {
+      if (tty) process.stdout.write('\n');
+      return op;
+    }
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+  }
+}
+
+/** One line per step with its outcome, for reporting a failed operation. */
+export function formatOperationSteps(op: Operation): string {
+  const icon = { done: `${c.green}✓`, failed: `${c.red}✗`, running: `${c.yellow}…`, pending: `${c.dim}·` };
+  return op.steps
+    .map((s) => `  ${icon[s.status]} ${s.name}${c.reset}${s.error ? ` ${c.dim}— ${s.error}${c.reset}` : ''}`)
+    .join('\n');
+}
+
+/** Print how to follow an operation that was started with --no-wait. */
+export function printOperationStarted(op: Operation): void {
+  console.log(`Operation ${op.id} (${op.type}) started.`);
+  console.log(`Follow it with: synv2 operation ${op.id} --wait`);
+}
+
+/** Report a failed operation with its steps and exit non-zero. */
+export function exitWithOperationError(what: string, op: Operation): never {
+  console.error(`\n${what} failed: ${op.error}`);
+  console.error(formatOperationSteps(op));
+  console.error(`\nDetails: synv2 operation ${op.id}`);
+  process.exit(1);
+}
@@ -9,12 +9,63 @@ export interface Synv2Config {
 
 export interface Project {
   name: string;
-  status: 'running' | 'stopped' | 'creating' | 'error' | 'provisioning' | 'bootstrapping' | 'resizing';
+  status: 'running' | 'stopped' | 'creating' | 'error' | 'provisioning' | 'bootstrapping' | 'resizing' | 'destroying';
   created_at: string;
   container_id?: string;
   instance_type?: string;
   worker_instance_id?: string;
   mcp_servers?: string[];
+  cloned_from?: string;
+}
+
+export interface ProjectUpdate {
+  anthropicApiKey?: string;
+  mcpServers?: string[];
+  env?: Record<string, string>;
+  unsetEnv?: string[];
+  restart?: boolean;
+}
+
+export interface ProjectUpdateResult {
+  name: string;
+  status: Project['status'];
+  mcp_servers: string[];
+  env_keys: string[];
+  // Set when the update was sent with restart: the restart operation to wait on
+  operation_id?: string;
+  operation?: Operation;
+}
+
+/** Per-project idle auto-stop policy (GET/PUT /api/projects/:name/policy) */
+export interface ProjectPolicy {
+  project: string;
+  idle_stop_minutes: number | null;
+  idle_since: string | null; // when the task was first seen finished with no human attached
+  budget_usd: number | null;
+  budget_action: 'pause' | 'stop';
+  budget_exceeded_at: string | null;
+}
+
+/** Cost of a project (GET /api/projects/:name/usage) */
+export interface ProjectUsage {
+  project: string;
+  compute: {
+    hours: number;
+    cost_usd: number;
+    instances: { instance_type: string; provider: string; hours: number; hourly_usd: number | null; cost_usd: number }[];
+    unpriced_types: string[];
+  };
+  tokens: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_tokens: number;
+    cache_write_tokens: number;
+    turns: number;
+    cost_usd: number;
+    updated_at: string | null;
+  };
+  total_cost_usd: number;
+  budget: { usd: number | null; action: 'pause' | 'stop'; exceeded_at: string | null };
 }
 
 export interface ProjectDetail extends Project {
@@ -23,6 +74,7 @@ export interface ProjectDetail extends Project {
     memory: string;
     cpus: string;
   };
+  task_usage?: TaskUsage | null;
 }
 
 export interface StatusResponse {
@@ -41,6 +93,122 @@ export interface StatusResponse {
   };
 }
 
+/** One row of GET /api/status/projects: a project's live state for `synv2 top` */
+export interface ProjectOverview {
+  name: string;
+  status: string;
+  instance_type: string | null;
+  worker_instance_id: string | null;
+  // Whether the gateway answered; the fields below are empty when it didn't
+  reachable: boolean;
+  supervisor: { connected: boolean; state: string | null } | null;
+  agent_busy: boolean | null;
+  humans: number;
+  observers: number;
+  task: {
+    id: string;
+    name: string;
+    status: string;
+    turns_completed: number;
+    latest_metric: number | null;
+    blocked: boolean;
+    questions: TaskQuestion[]; // unanswered
+  } | null;
+  resources: {
+    cpu_percent: number | null; // summed over processes, so up to 100 × cpus
+    cpus: number | null;
+    memory_used_mb: number | null;
+    memory_total_mb: number | null;
+  } | null;
+}
+
+export interface ApiToken {
+  id: string;
+  label: string;
+  role: 'read' | 'operator' | 'admin';
+  projects: string[] | null;
+  expires_at: string | null;
+  expired: boolean;
+  created_at: string;
+}
+
+export interface AuditEvent {
+  id: number;
+  created_at: string;
+  token_id: string | null;
+  token_label: string | null;
+  project_name: string | null;
+  method: string;
+  route: string;
+  action: string;
+  body: unknown;
+  status: number;
+  duration_ms: number;
+}
+
+/** Filters for the supervisor text log (GET /logs and the /ws/projects/:name/logs stream) */
+export interface LogQuery {
+  lines?: number;
+  grep?: string;
+  ignore_case?: boolean;
+  since?: string;
+}
+
+/** Frames sent by /ws/projects/:name/logs */
+export interface LogFrame {
+  type: 'line' | 'live' | 'end' | 'error';
+  text?: string;
+  message?: string;
+}
+
+/** A structured supervisor event; type-specific fields (classification, from/to, passed, ...) sit alongside */
+export interface SupervisorEvent {
+  seq: number;
+  id: string;
+  ts: string;
+  type: string;
+  state: string | null;
+  task_id: string | null;
+  turn: number | null;
+  [field: string]: unknown;
+}
+
+export interface TranscriptSummary {
+  seq: number;
+  id: string;
+  turn: number;
+  task_id: string | null;
+  started_at: string;
+  ended_at: string;
+  duration_ms: number;
+  prompt_type: string | null;
+  classification: string | null;
+  result: string | null;
+  tool_count: number;
+  text_chars: number;
+  preview: string;
+  match?: { in: string; text: string } | null;
+}
+
+export interface Transcript extends Omit<TranscriptSummary, 'preview' | 'match'> {
+  prompt: string;
+  text: string;
+  tools: { tool: string; input: string | null; output: string | null }[];
+}
+
+export interface TranscriptPage {
+  transcripts: TranscriptSummary[];
+  next_before: number | null;
+}
+
+export interface Snapshot {
+  id: string;
+  project_name: string;
+  label: string | null;
+  size_bytes: number;
+  created_at: string;
+}
+
 export interface ApiError {
   error: string;
   message?: string;
@@ -80,23 +248,131 @@ export interface TaskStatus {
   questions?: TaskQuestion[];
 }
 
+export interface TaskRecord {
+  id: string;
+  name: string;
+  description: string;
+  type: 'measurable' | 'subjective';
+  status: string;
+  started_at: string;
+  completed_at: string | null;
+  completion_reason: string | null;
+  progress: {
+    turns_completed?: number;
+    last_active_at?: string | null;
+    latest_metric?: number | null;
+    summary?: string;
+  };
+  questions: TaskQuestion[];
+  // Only on archived tasks (task list --archived): when their project was destroyed
+  archived_at?: string;
+}
+
 export interface StreamDelta {
   type: 'text_delta' | 'tool_start' | 'tool_use' | 'tool_result' | 'error' | 'done'
-    | 'history' | 'status' | 'client_change' | 'task_status';
+    | 'history' | 'status' | 'client_change' | 'task_status' | 'usage';
   text?: string;
   tool?: string;
   input?: string;
   output?: string;
   error?: string;
-  // history type
+  // The gateway's event seq: broadcasts take the next one, messages to a single client repeat the latest.
+  // Connecting with ?since=<seq>&boot_id=<boot_id> replays only the events after it
+  seq?: number;
+  // The agent turn (prompt to done/error) the event belongs to; null between turns
+  turn_id?: string | null;
+  // history type: the most recent events, or with `since` only the events after it (`truncated` if some were lost)
   events?: StreamDelta[];
+  boot_id?: string;
+  since?: number;
+  truncated?: boolean;
   // status type
   agentBusy?: boolean;
   humanCount?: number;
+  observerCount?: number;
   supervisorConnected?: boolean;
   ocConnected?: boolean;
   // client_change type
   humans?: number;
+  observers?: number;
   // task_status type
   task?: TaskStatus | null;
+  // usage type: one model call, from the agent's turn or a supervisor memory call
+  at?: string;
+  source?: 'agent' | 'supervisor';
+  purpose?: string | null;
+  model?: string | null;
+  task_id?: string | null;
+  turn?: number | null;
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_tokens?: number;
+  cache_write_tokens?: number;
+}
+
+export interface UsageTokens {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
+/** Tokens a task has used, as stored by the control plane (`task_usage` on GET /api/projects/:name) */
+export interface TaskUsage extends UsageTokens {
+  task_id: string;
+  calls: number;
+  cost_usd: number;
+  by_model: (UsageTokens & { model: string; calls: number; cost_usd: number })[];
+  turns: (UsageTokens & { turn: number; models: string[]; calls: number })[];
+}
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  exit_code: number | null;
+  duration_ms: number;
+  truncated: boolean;
+  timed_out: boolean;
+}
+
+/** Frames sent by /ws/projects/:name/exec (stdout/stderr data is base64) */
+export interface ExecFrame {
+  type: 'stdout' | 'stderr' | 'exit' | 'error';
+  data?: string;
+  code?: number | null;
+  message?: string;
+}
+
+export interface OperationStep {
+  name: string;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  started_at: string | null;
+  finished_at: string | null;
+  error?: string;
+}
+
+export interface OperationLogEntry {
+  at: string;
+  message: string;
+}
+
+/** A long-running project action tracked by the control plane (GET /api/operations/:id) */
+export interface Operation {
+  id: string;
+  type: string;
+  project: string;
+  status: 'running' | 'succeeded' | 'failed' | 'rolled_back';
+  params: Record<string, unknown>;
+  steps: OperationStep[];
+  logs: OperationLogEntry[];
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+/** 202 response of the create/clone/restart/destroy/resize endpoints */
+export interface OperationStarted {
+  operation_id: string;
+  operation: Operation;
 }
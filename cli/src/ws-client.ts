@@ -1,11 +1,21 @@
 import WebSocket from 'ws';
 import type { StreamDelta } from './types.js';
 
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+// Close codes that another attempt won't fix (4001: the worker rejected the relay's token)
+const FATAL_CLOSE_CODES = new Set([4001]);
+const FATAL_HTTP_STATUS = /Unexpected server response: (401|403|404)/;
+
 export type WSEventHandler = {
   onDelta: (delta: StreamDelta) => void;
   onOpen: () => void;
+  /** The connection is gone for good: closed by us, refused, or lost before the gateway ever answered. */
   onClose: (code: number, reason: string) => void;
   onError: (err: Error) => void;
+  /** A live connection dropped and another attempt is scheduled in `delayMs`. */
+  onReconnecting?: (attempt: number, delayMs: number, reason: string) => void;
 };
 
 export class WSClient {
@@ -13,6 +23,14 @@ export class WSClient {
   private url: string;
   private handlers: WSEventHandler;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private established = false;
+  private closing = false;
+  private fatal = false;
+  private lastError: string | null = null;
+  // Resume cursor: the gateway instance and the last event seq seen from it
+  private bootId: string | null = null;
+  private lastSeq: number | null = null;
 
   constructor(url: string, handlers: WSEventHandler) {
     this.url = url;
@@ -20,30 +38,79 @@ export class WSClient {
   }
 
   connect(): void {
-    this.ws = new WebSocket(this.url);
+    this.fatal = false;
+    this.lastError = null;
+    const ws = new WebSocket(this.resumeUrl());
+    this.ws = ws;
 
-    this.ws.on('open', () => {
+    ws.on('open', () => {
       this.handlers.onOpen();
     });
 
-    this.ws.on('message', (data) => {
+    ws.on('message', (data) => {
+      // The relay accepts the socket before it reaches the gateway, so only a message proves the session is up
+      this.established = true;
+      this.reconnectAttempts = 0;
+      let msg: StreamDelta;
       try {
-        const msg = JSON.parse(data.toString());
-        this.handlers.onDelta(msg as StreamDelta);
+        msg = JSON.parse(data.toString());
       } catch {
-        // ignore malformed messages
+        return; // ignore malformed messages
       }
+      this.track(msg);
+      this.handlers.onDelta(msg);
     });
 
-    this.ws.on('close', (code, reason) => {
-      this.handlers.onClose(code, reason.toString());
+    ws.on('close', (code, reason) => {
+      if (ws !== this.ws) return;
+      this.ws = null;
+      const text = reason.toString();
+      if (this.closing || this.fatal || FATAL_CLOSE_CODES.has(code) || !this.established) {
+        this.handlers.onClose(code, text);
+        return;
+      }
+      this.scheduleReconnect(text || this.lastError || (code === 1006 ? 'connection dropped' : `code ${code}`));
     });
 
-    this.ws.on('error', (err) => {
-      this.handlers.onError(err);
+    ws.on('error', (err) => {
+      if (FATAL_HTTP_STATUS.test(err.message)) this.fatal = true;
+      this.lastError = err.message;
+      // While reconnecting, failed attempts are reported through onReconnecting instead
+      if (this.reconnectAttempts === 0 || this.fatal) this.handlers.onError(err);
     });
   }
 
+  private resumeUrl(): string {
+    if (!this.bootId || this.lastSeq === null) return this.url;
+    const url = new URL(this.url);
+    url.searchParams.set('since', String(this.lastSeq));
+    url.searchParams.set('boot_id', this.bootId);
+    return url.toString();
+  }
+
+  private track(msg: StreamDelta): void {
+    if (msg.type === 'history') {
+      // A different boot means the gateway restarted and its seqs started over
+      if (msg.boot_id && msg.boot_id !== this.bootId) {
+        this.bootId = msg.boot_id;
+        this.lastSeq = 0;
+      }
+      for (const e of msg.events || []) this.track(e);
+    } else if (typeof msg.seq === 'number' && (this.lastSeq === null || msg.seq > this.lastSeq)) {
+      this.lastSeq = msg.seq;
+    }
+  }
+
+  private scheduleReconnect(reason: string): void {
+    this.reconnectAttempts++;
+    const delay = Math.min(RECONNECT_BASE_MS * Math.pow(2, this.reconnectAttempts - 1), RECONNECT_MAX_MS);
+    this.handlers.onReconnecting?.(this.reconnectAttempts, delay, reason);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
   send(message: object): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
@@ -54,11 +121,12 @@ export class WSClient {
     this.send({ type: 'user_message', content: text });
   }
 
-  identify(role: 'human' | 'supervisor'): void {
+  identify(role: 'human' | 'observer' | 'supervisor'): void {
     this.send({ type: 'identify', role });
   }
 
   close(): void {
+    this.closing = true;
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
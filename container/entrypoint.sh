@@ -44,6 +44,9 @@ export OPENCLAW_GATEWAY_PASSWORD="$GATEWAY_PASSWORD"
 export OPENCLAW_GATEWAY_TOKEN=""
 export OPENCLAW_GATEWAY_PORT="18790"
 
+# Shared by the bridge gateway and the supervisor, so the gateway only takes usage reports from the real supervisor
+export SYNV2_SUPERVISOR_TOKEN="$(openssl rand -hex 32 2>/dev/null || head -c 32 /dev/urandom | xxd -p | tr -d '\n')"
+
 echo "Configuring OpenClaw..."
 openclaw onboard \
   --non-interactive \
@@ -4,17 +4,30 @@
 const http = require('http');
 const { WebSocketServer, WebSocket } = require('ws');
 const crypto = require('crypto');
+const fs = require('fs');
+const { pipeline } = require('stream/promises');
 
 const PORT = parseInt(process.env.GATEWAY_PORT || '18789');
 const OPENCLAW_PORT = parseInt(process.env.OPENCLAW_GATEWAY_PORT || '18790');
 const OPENCLAW_TOKEN = process.env.OPENCLAW_GATEWAY_TOKEN || '';
 const OPENCLAW_PASSWORD = process.env.OPENCLAW_GATEWAY_PASSWORD || '';
 const PROJECT_NAME = process.env.PROJECT_NAME || 'project';
+// Set by the entrypoint for this container's supervisor; any client can claim the supervisor role, only it has this
+const SUPERVISOR_TOKEN = process.env.SYNV2_SUPERVISOR_TOKEN || '';
 
 const SESSION_KEY = `main:webchat:synv2-${PROJECT_NAME}`;
-const EVENT_BUFFER_SIZE = 50;
+// Events kept in memory; older ones spill to EVENT_SPILL_FILE so a resume can still reach them
+const EVENT_BUFFER_SIZE = 500;
+// Recent events a fresh (non-resuming) client is sent as context
+const HISTORY_EVENTS = 50;
+const MAX_REPLAY_EVENTS = 5000;
+const EVENT_SPILL_FILE = '/workspace/.gateway-events.jsonl';
+const EVENT_SPILL_MAX_BYTES = 10 * 1024 * 1024;
+const EVENT_SPILL_KEEP_BYTES = 5 * 1024 * 1024;
 const RECONNECT_BASE_MS = 2000;
 const RECONNECT_MAX_MS = 30000;
+// Client roles that are announced to everyone when they come and go
+const ATTENDEE_ROLES = new Set(['human', 'observer']);
 
 // ── Shared state ────────────────────────────────────────────────
 let openclawWs = null;
@@ -24,20 +37,44 @@ let reconnectAttempts = 0;
 let reconnectTimer = null;
 let taskStatus = null; // Latest task status from supervisor
 
-// Event buffer — last N events for late-joining clients
-const eventBuffer = [];
+// Token usage since this gateway started; the control plane tells restarts apart by boot_id
+const BOOT_ID = crypto.randomUUID();
+const usageTotals = { input_tokens: 0, output_tokens: 0, cache_read_tokens: 0, cache_write_tokens: 0, turns: 0 };
+
+// Per-call usage records (agent turns and supervisor memory calls), read by the control plane via GET /usage?after=<seq>
+const USAGE_RECORD_LIMIT = 500;
+const usageRecords = [];
+let usageSeq = 0;
 
-// Connected clients: { ws, role: 'supervisor'|'human'|null }
+// Event buffer — every broadcast gets the next seq and the ID of the agent turn it belongs to,
+// so a reconnecting client can ask for just what it missed (?since=<seq>&boot_id=<BOOT_ID>)
+const eventBuffer = [];
+let eventSeq = 0;
+let turnSeq = 0;
+let currentTurnId = null; // Set while the agent works on a prompt, null between turns
+
+// Connected clients: { ws, role: 'supervisor'|'human'|'observer'|null, backlog, localSupervisor }
+// Humans pause the supervisor and may send messages; observers only watch.
+// backlog holds messages for a client whose history is still being read, null once it has been sent.
+// localSupervisor is set for the connection that identified with SUPERVISOR_TOKEN
 const clients = new Set();
 
-function getHumanCount() {
+function countRole(role) {
   let count = 0;
   for (const c of clients) {
-    if (c.role === 'human') count++;
+    if (c.role === role) count++;
   }
   return count;
 }
 
+function getHumanCount() {
+  return countRole('human');
+}
+
+function getObserverCount() {
+  return countRole('observer');
+}
+
 function isSupervisorConnected() {
   for (const c of clients) {
     if (c.role === 'supervisor') return true;
@@ -45,28 +82,188 @@ function isSupervisorConnected() {
   return false;
 }
 
+function isSupervisorToken(token) {
+  if (!SUPERVISOR_TOKEN || typeof token !== 'string') return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(SUPERVISOR_TOKEN);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
 // ── Broadcast to all connected clients ──────────────────────────
 function broadcast(msg) {
   const data = JSON.stringify(msg);
   for (const client of clients) {
-    if (client.ws.readyState === WebSocket.OPEN) {
+    if (client.backlog) {
+      client.backlog.push(data);
+    } else if (client.ws.readyState === WebSocket.OPEN) {
       client.ws.send(data);
     }
   }
 }
 
+// Messages for one client (history, the status on connect, errors) carry the latest seq without taking a new one,
+// so resuming from the seq of any message a client has seen skips exactly what it already has
+function broadcastClientChange() {
+  bufferAndBroadcast({
+    type: 'client_change',
+    humans: getHumanCount(),
+    observers: getObserverCount(),
+    supervisorConnected: isSupervisorConnected(),
+  });
+}
+
 function sendTo(client, msg) {
-  if (client.ws.readyState === WebSocket.OPEN) {
-    client.ws.send(JSON.stringify(msg));
+  const data = JSON.stringify({ ...msg, seq: eventSeq, turn_id: currentTurnId });
+  if (client.backlog) {
+    client.backlog.push(data);
+  } else if (client.ws.readyState === WebSocket.OPEN) {
+    client.ws.send(data);
   }
 }
 
 function bufferAndBroadcast(event) {
-  eventBuffer.push(event);
+  const stamped = { ...event, seq: ++eventSeq, turn_id: currentTurnId };
+  eventBuffer.push(stamped);
   if (eventBuffer.length > EVENT_BUFFER_SIZE) {
-    eventBuffer.shift();
+    spillEvent(eventBuffer.shift());
+  }
+  broadcast(stamped);
+}
+
+// The last event of a turn (done or error) still carries its ID; what follows is between turns
+function endTurn(event) {
+  bufferAndBroadcast(event);
+  currentTurnId = null;
+}
+
+// ── Event spill file ────────────────────────────────────────────
+// Seqs start over with each gateway, so the file only holds this boot's events. Lines are appended
+// through a stream, and each one's byte offset is kept in memory so a resume reads only what it missed
+let spillStream = null; // null while the file is being rotated; spilled lines wait in spillQueue meanwhile
+const spillQueue = [];
+const spillOffsets = []; // byte offset of each spilled event's line, in seq order
+let spillFirstSeq = 1; // seq of the event at spillOffsets[0]
+let spillBytes = 0; // file size once every queued line is written
+let spillRotating = false;
+let spillLastWrite = Promise.resolve();
+let spillTask = Promise.resolve(); // reads and rotations of the file, one at a time
+
+function withSpillFile(fn) {
+  const run = spillTask.then(fn);
+  spillTask = run.catch(() => {});
+  return run;
+}
+
+function openSpillStream() {
+  spillStream = fs.createWriteStream(EVENT_SPILL_FILE, { flags: 'a' });
+  spillStream.on('error', (err) => console.error(`Event spill write failed: ${err.message}`));
+}
+
+function resetSpillFile() {
+  try { fs.writeFileSync(EVENT_SPILL_FILE, ''); } catch {}
+  openSpillStream();
+}
+
+function writeSpillLine(line) {
+  const stream = spillStream;
+  spillLastWrite = new Promise((resolve) => stream.write(line, () => resolve()));
+}
+
+function spillEvent(event) {
+  const line = JSON.stringify(event) + '\n';
+  if (spillOffsets.length === 0) spillFirstSeq = event.seq;
+  spillOffsets.push(spillBytes);
+  spillBytes += Buffer.byteLength(line);
+  if (spillStream) writeSpillLine(line);
+  else spillQueue.push(line);
+  if (spillBytes > EVENT_SPILL_MAX_BYTES && !spillRotating) rotateSpillFile();
+}
+
+// Keep the newest EVENT_SPILL_KEEP_BYTES of whole lines: copy them to a new file and swap it in
+function rotateSpillFile() {
+  spillRotating = true;
+  const stream = spillStream;
+  spillStream = null;
+  withSpillFile(async () => {
+    await new Promise((resolve) => stream.end(resolve));
+    // Lines still queued aren't in the file yet; they go to the new one whatever happens
+    const written = spillOffsets.length - spillQueue.length;
+    let drop = 0;
+    while (drop < written && spillBytes - spillOffsets[drop] > EVENT_SPILL_KEEP_BYTES) drop++;
+    const tmp = `${EVENT_SPILL_FILE}.tmp`;
+    try {
+      await pipeline(fs.createReadStream(EVENT_SPILL_FILE, { start: drop < spillOffsets.length ? spillOffsets[drop] : spillBytes }), fs.createWriteStream(tmp));
+      await fs.promises.rename(tmp, EVENT_SPILL_FILE);
+    } catch (err) {
+      console.error(`Event spill rotation failed, dropping spilled events: ${err.message}`);
+      drop = written;
+      await fs.promises.writeFile(EVENT_SPILL_FILE, '').catch(() => {});
+    }
+    const cut = drop < spillOffsets.length ? spillOffsets[drop] : spillBytes;
+    spillOffsets.splice(0, drop);
+    for (let i = 0; i < spillOffsets.length; i++) spillOffsets[i] -= cut;
+    spillFirstSeq += drop;
+    spillBytes -= cut;
+
+    openSpillStream();
+    for (const line of spillQueue.splice(0)) writeSpillLine(line);
+    spillRotating = false;
+  });
+}
+
+// Spilled events with since < seq < before, oldest first; only the newest MAX_REPLAY_EVENTS of them are read
+function readSpilledEvents(since, before) {
+  return withSpillFile(async () => {
+    await spillLastWrite;
+    const end = Math.min(before - spillFirstSeq, spillOffsets.length);
+    const start = Math.max(since + 1 - spillFirstSeq, end - MAX_REPLAY_EVENTS, 0);
+    if (start >= end) return [];
+
+    const written = spillOffsets.length - spillQueue.length;
+    const lines = spillQueue.slice(Math.max(start - written, 0), end - written);
+    if (start < written) {
+      const from = spillOffsets[start];
+      const to = end < written ? spillOffsets[end] : (written < spillOffsets.length ? spillOffsets[written] : spillBytes);
+      const buf = Buffer.alloc(to - from);
+      const fh = await fs.promises.open(EVENT_SPILL_FILE, 'r');
+      try {
+        await fh.read(buf, 0, buf.length, from);
+      } finally {
+        await fh.close();
+      }
+      lines.unshift(...buf.toString('utf-8').split('\n'));
+    }
+
+    const events = [];
+    for (const line of lines) {
+      let event;
+      try { event = JSON.parse(line); } catch { continue; }
+      if (event.seq > since && event.seq < before) events.push(event);
+    }
+    return events;
+  }).catch(() => []);
+}
+
+// The history a connecting client gets: the most recent events, or only what it missed when resuming.
+// boot_id is optional but guards against a restarted gateway whose seqs have reached `since` again.
+// Everything up to the first await runs at once, so the history ends at the seq current when it was called
+async function historyFor(url) {
+  const since = parseInt(url.searchParams.get('since') || '', 10);
+  const bootId = url.searchParams.get('boot_id');
+  if ((bootId && bootId !== BOOT_ID) || !(since >= 0) || since > eventSeq) {
+    return { type: 'history', events: eventBuffer.slice(-HISTORY_EVENTS), boot_id: BOOT_ID };
+  }
+
+  let missed = eventBuffer.filter(e => e.seq > since);
+  const oldestBuffered = eventBuffer.length > 0 ? eventBuffer[0].seq : eventSeq + 1;
+  if (oldestBuffered > since + 1) missed = (await readSpilledEvents(since, oldestBuffered)).concat(missed);
+  // Events trimmed from the spill file or past the replay cap are gone; the client should say so
+  let truncated = (missed.length > 0 ? missed[0].seq : eventSeq + 1) > since + 1;
+  if (missed.length > MAX_REPLAY_EVENTS) {
+    missed = missed.slice(-MAX_REPLAY_EVENTS);
+    truncated = true;
   }
-  broadcast(event);
+  return { type: 'history', events: missed, boot_id: BOOT_ID, since, truncated };
 }
 
 // ── OpenClaw message extraction helpers ─────────────────────────
@@ -84,6 +281,58 @@ function extractText(message) {
   return null;
 }
 
+// Token usage of a finished turn, under Anthropic or OpenClaw field names
+function extractUsage(payload) {
+  const u = payload.usage || (payload.message && payload.message.usage);
+  if (!u || typeof u !== 'object') return null;
+  return {
+    input_tokens: u.input_tokens ?? u.inputTokens ?? u.input ?? 0,
+    output_tokens: u.output_tokens ?? u.outputTokens ?? u.output ?? 0,
+    cache_read_tokens: u.cache_read_input_tokens ?? u.cacheReadTokens ?? u.cacheRead ?? 0,
+    cache_write_tokens: u.cache_creation_input_tokens ?? u.cacheWriteTokens ?? u.cacheWrite ?? 0,
+  };
+}
+
+// Record one model call's usage, fold it into the totals and relay it to clients as a 'usage' delta
+function recordUsage(source, fields, usage) {
+  const record = {
+    seq: ++usageSeq,
+    at: new Date().toISOString(),
+    source,
+    purpose: fields.purpose || null,
+    model: fields.model || null,
+    task_id: fields.task_id ?? (taskStatus ? taskStatus.id : null),
+    turn: fields.turn ?? null,
+    input_tokens: Number(usage.input_tokens) || 0,
+    output_tokens: Number(usage.output_tokens) || 0,
+    cache_read_tokens: Number(usage.cache_read_tokens) || 0,
+    cache_write_tokens: Number(usage.cache_write_tokens) || 0,
+  };
+  usageRecords.push(record);
+  if (usageRecords.length > USAGE_RECORD_LIMIT) usageRecords.shift();
+
+  usageTotals.input_tokens += record.input_tokens;
+  usageTotals.output_tokens += record.output_tokens;
+  usageTotals.cache_read_tokens += record.cache_read_tokens;
+  usageTotals.cache_write_tokens += record.cache_write_tokens;
+
+  // The record's seq is the /usage cursor; the delta gets an event seq like everything else replayable
+  const { seq, ...delta } = record;
+  bufferAndBroadcast({ type: 'usage', ...delta });
+}
+
+function recordTurnUsage(payload) {
+  usageTotals.turns++;
+  const usage = extractUsage(payload);
+  if (!usage) return;
+  const message = payload.message || {};
+  recordUsage('agent', {
+    model: payload.model || message.model || process.env.AGENT_MODEL || null,
+    // The supervisor counts a turn once it is done, so the one finishing now is the next number
+    turn: taskStatus ? (taskStatus.turns_completed || 0) + 1 : null,
+  }, usage);
+}
+
 // ── Persistent OpenClaw connection ──────────────────────────────
 function connectToOpenClaw() {
   if (openclawWs && openclawWs.readyState === WebSocket.OPEN) return;
@@ -134,7 +383,8 @@ function connectToOpenClaw() {
           if (text) bufferAndBroadcast({ type: 'text_delta', text });
         } else if (p.state === 'final') {
           agentBusy = false;
-          bufferAndBroadcast({ type: 'done' });
+          recordTurnUsage(p);
+          endTurn({ type: 'done' });
         } else if (p.state === 'error') {
           agentBusy = false;
           const errorDetail = {
@@ -145,10 +395,10 @@ function connectToOpenClaw() {
             payload: p.errorMessage ? null : JSON.stringify(p).slice(0, 500),
           };
           console.error('OpenClaw chat error:', JSON.stringify(errorDetail));
-          bufferAndBroadcast(errorDetail);
+          endTurn(errorDetail);
         } else if (p.state === 'aborted') {
           agentBusy = false;
-          bufferAndBroadcast({ type: 'done' });
+          endTurn({ type: 'done' });
         }
       }
 
@@ -177,7 +427,7 @@ function connectToOpenClaw() {
         ocConnected = true;
         reconnectAttempts = 0;
         // Notify all clients that we're connected
-        broadcast({ type: 'status', agentBusy, humanCount: getHumanCount(), supervisorConnected: isSupervisorConnected(), ocConnected: true });
+        bufferAndBroadcast({ type: 'status', agentBusy, humanCount: getHumanCount(), observerCount: getObserverCount(), supervisorConnected: isSupervisorConnected(), ocConnected: true });
       } else if (msg.ok && msg.payload?.runId) {
         // chat.send acknowledged
         agentBusy = true;
@@ -191,7 +441,8 @@ function connectToOpenClaw() {
           payload: JSON.stringify(errObj).slice(0, 500),
         };
         console.error('OpenClaw response error:', JSON.stringify(errorDetail));
-        bufferAndBroadcast(errorDetail);
+        // Only chat.send is requested after the handshake, so the prompt never became a turn
+        endTurn(errorDetail);
       }
     }
   });
@@ -204,6 +455,7 @@ function connectToOpenClaw() {
     console.log(`OpenClaw WS closed (code: ${code})`);
     ocConnected = false;
     agentBusy = false;
+    currentTurnId = null;
     openclawWs = null;
     scheduleReconnect();
   });
@@ -237,6 +489,7 @@ function sendToAgent(text) {
     },
   }));
   agentBusy = true;
+  currentTurnId = `${BOOT_ID.slice(0, 8)}-${++turnSeq}`;
   return true;
 }
 
@@ -252,8 +505,10 @@ const server = http.createServer((req, res) => {
       agentBusy,
       clients: clients.size,
       humans: getHumanCount(),
+      observers: getObserverCount(),
       supervisorConnected: isSupervisorConnected(),
       task: taskStatus,
+      usage: { boot_id: BOOT_ID, seq: usageSeq, ...usageTotals },
       instance: {
         type: process.env.INSTANCE_TYPE || 'unknown',
         cpus: process.env.INSTANCE_CPUS || null,
@@ -262,6 +517,14 @@ const server = http.createServer((req, res) => {
         hostMemoryMb: process.env.HOST_MEMORY_MB || null,
       },
     }));
+  } else if (req.url.startsWith('/usage') && req.method === 'GET') {
+    const after = parseInt(new URL(req.url, 'http://localhost').searchParams.get('after') || '0') || 0;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      boot_id: BOOT_ID,
+      seq: usageSeq,
+      records: usageRecords.filter(r => r.seq > after),
+    }));
   } else if (req.url === '/send-message' && req.method === 'POST') {
     let body = '';
     req.on('data', chunk => { body += chunk; });
@@ -316,19 +579,30 @@ const server = http.createServer((req, res) => {
 // ── Client WebSocket server ─────────────────────────────────────
 const wss = new WebSocketServer({ server });
 
-wss.on('connection', (clientWs) => {
-  const client = { ws: clientWs, role: null };
+wss.on('connection', (clientWs, req) => {
+  const client = { ws: clientWs, role: null, backlog: null, localSupervisor: false };
   clients.add(client);
   console.log(`Client connected (${clients.size} total)`);
 
-  // Send buffered history so late-joiners see recent context
-  sendTo(client, { type: 'history', events: [...eventBuffer] });
+  // Send buffered history so late-joiners see recent context, or the missed part of it on resume.
+  // A resume may read the spill file; what is sent meanwhile waits in the backlog so it arrives after the history
+  const historySeq = eventSeq;
+  const historyTurnId = currentTurnId;
+  client.backlog = [];
+  historyFor(new URL(req.url || '/', `http://localhost:${PORT}`)).then((history) => {
+    const backlog = client.backlog;
+    client.backlog = null;
+    if (clientWs.readyState !== WebSocket.OPEN) return;
+    clientWs.send(JSON.stringify({ ...history, seq: historySeq, turn_id: historyTurnId }));
+    for (const data of backlog) clientWs.send(data);
+  });
 
   // Send current status
   sendTo(client, {
     type: 'status',
     agentBusy,
     humanCount: getHumanCount(),
+    observerCount: getObserverCount(),
     supervisorConnected: isSupervisorConnected(),
     ocConnected,
   });
@@ -345,15 +619,12 @@ wss.on('connection', (clientWs) => {
     if (msg.type === 'identify' && msg.role) {
       const oldRole = client.role;
       client.role = msg.role;
+      client.localSupervisor = msg.role === 'supervisor' && isSupervisorToken(msg.token);
       console.log(`Client identified as: ${msg.role}`);
 
-      // Broadcast human count change if a human connected
-      if (msg.role === 'human' || oldRole === 'human') {
-        broadcast({
-          type: 'client_change',
-          humans: getHumanCount(),
-          supervisorConnected: isSupervisorConnected(),
-        });
+      // Broadcast the new counts if a human or observer connected
+      if (ATTENDEE_ROLES.has(msg.role) || ATTENDEE_ROLES.has(oldRole)) {
+        broadcastClientChange();
       }
     }
 
@@ -363,12 +634,25 @@ wss.on('connection', (clientWs) => {
       taskStatus = msg.task || null;
       if (changed) {
         // Broadcast to all clients (including other humans)
-        broadcast({ type: 'task_status', task: taskStatus });
+        bufferAndBroadcast({ type: 'task_status', task: taskStatus });
       }
     }
 
+    else if (msg.type === 'usage' && client.localSupervisor && msg.usage) {
+      // Supervisor memory calls (Anthropic API response usage); it feeds task costs and budgets, so only from the real supervisor
+      const u = msg.usage;
+      recordUsage('supervisor', msg, {
+        input_tokens: u.input_tokens,
+        output_tokens: u.output_tokens,
+        cache_read_tokens: u.cache_read_input_tokens,
+        cache_write_tokens: u.cache_creation_input_tokens,
+      });
+    }
+
     else if (msg.type === 'user_message' && msg.content) {
-      if (ocConnected) {
+      if (client.role === 'observer') {
+        sendTo(client, { type: 'error', error: 'Watching only: attach without --watch to send messages' });
+      } else if (ocConnected) {
         sendToAgent(msg.content);
       } else {
         sendTo(client, { type: 'error', error: 'OpenClaw not connected yet, please wait' });
@@ -377,24 +661,18 @@ wss.on('connection', (clientWs) => {
   });
 
   clientWs.on('close', () => {
-    const wasHuman = client.role === 'human';
     clients.delete(client);
     console.log(`Client disconnected (${clients.size} remaining, was ${client.role || 'unidentified'})`);
 
-    // Broadcast human count change if a human disconnected
-    if (wasHuman) {
-      broadcast({
-        type: 'client_change',
-        humans: getHumanCount(),
-        supervisorConnected: isSupervisorConnected(),
-      });
+    // Broadcast the new counts if a human or observer disconnected
+    if (ATTENDEE_ROLES.has(client.role)) {
+      broadcastClientChange();
     }
   });
 });
 
 // ── Load task status from disk as fallback ─────────────────────
 try {
-  const fs = require('fs');
   const raw = fs.readFileSync('/workspace/.task.json', 'utf-8');
   const task = JSON.parse(raw);
   const unanswered = Array.isArray(task.questions) ? task.questions.filter(q => q.answer === null || q.answer === undefined) : [];
@@ -417,6 +695,8 @@ try {
 }
 
 // ── Startup ─────────────────────────────────────────────────────
+resetSpillFile();
+
 server.listen(PORT, () => {
   console.log(`Synv2 gateway listening on :${PORT}`);
   console.log(`OpenClaw gateway at :${OPENCLAW_PORT}`);
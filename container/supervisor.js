@@ -7,10 +7,13 @@ const { WebSocket } = require('ws');
 const fs = require('fs');
 const path = require('path');
 const { execSync } = require('child_process');
+const crypto = require('crypto');
 
 const BRIDGE_PORT = parseInt(process.env.GATEWAY_PORT || '18789');
 const PROJECT_NAME = process.env.PROJECT_NAME || 'project';
 const LOG_FILE = '/workspace/.supervisor.log';
+const EVENTS_FILE = '/workspace/.supervisor-events.jsonl';
+const TRANSCRIPT_FILE = '/workspace/.transcripts.jsonl';
 const TASK_FILE = '/workspace/.task.json';
 const ARCHIVE_DIR = '/workspace/.task-archive';
 
@@ -37,6 +40,8 @@ const LONG_MEMORY_FILE = '/workspace/LONG_TERM_MEMORY.md';
 const MEMORY_MODEL = process.env.MEMORY_MODEL || 'claude-3-5-haiku-latest';
 const MEMORY_TURNS_PER_CONSOLIDATION = 5;
 const MAX_TURN_SUMMARY_CHARS = 12_000;
+const TRANSCRIPT_MAX_TEXT_CHARS = 50_000;
+const TRANSCRIPT_MAX_TOOL_CHARS = 4_000;  // per tool input and per tool output
 
 // Thresholds for classifying turn productivity
 const IDLE_CHARS_THRESHOLD = 200;
@@ -73,6 +78,9 @@ let turnTextChars = 0;
 let turnToolCount = 0;
 let turnMsgCount = 0;
 let turnText = '';
+let turnPrompt = '';
+let turnPromptType = null;
+let turnTools = [];                  // { tool, input, output } for the transcript
 let firstPromptSent = false;
 let productiveTurnsSinceVerify = 0;
 let productiveTurnsSinceConsolidation = 0;
@@ -80,18 +88,25 @@ let currentTask = null;              // Loaded from .task.json
 let lastSeenAnswers = {};            // { questionId: answered_at|null } for detecting new answers
 let needsInputTimer = null;
 let memoryWork = Promise.resolve();
+let turnStartedAt = 0;
 
-function rotateLogIfNeeded() {
+// Structured events: ids are unique across supervisor restarts so the control plane can dedupe re-reads
+const EVENT_BOOT_ID = crypto.randomUUID().slice(0, 8);
+let eventSeq = 0;
+
+function rotateLogIfNeeded(file) {
   try {
-    const stats = fs.statSync(LOG_FILE);
+    const stats = fs.statSync(file);
     if (stats.size <= LOG_ROTATE_MAX_BYTES) return;
     const start = Math.max(0, stats.size - LOG_ROTATE_KEEP_BYTES);
     const bytesToRead = stats.size - start;
-    const fd = fs.openSync(LOG_FILE, 'r');
+    const fd = fs.openSync(file, 'r');
     const tail = Buffer.alloc(bytesToRead);
     fs.readSync(fd, tail, 0, bytesToRead, start);
     fs.closeSync(fd);
-    fs.writeFileSync(LOG_FILE, tail);
+    // Drop the partial first line so every remaining line is whole
+    const firstNewline = tail.indexOf(10);
+    fs.writeFileSync(file, firstNewline >= 0 ? tail.subarray(firstNewline + 1) : tail);
   } catch {}
 }
 
@@ -99,11 +114,54 @@ function log(msg) {
   const line = `[${new Date().toISOString()}] [${state}] ${msg}`;
   console.log(line);
   try {
-    rotateLogIfNeeded();
+    rotateLogIfNeeded(LOG_FILE);
     fs.appendFileSync(LOG_FILE, line + '\n');
   } catch {}
 }
 
+function clipForTranscript(text, maxChars) {
+  if (!text || text.length <= maxChars) return text || '';
+  return `${text.slice(0, maxChars)}\n… [${text.length - maxChars} more chars]`;
+}
+
+// One JSON line per turn in TRANSCRIPT_FILE, so what the agent did outlives the gateway's event buffer
+function writeTranscript(classification, result) {
+  const record = {
+    id: `${EVENT_BOOT_ID}-${turnCount}`,
+    turn: turnCount,
+    task_id: currentTask ? currentTask.id : null,
+    started_at: new Date(turnStartedAt || Date.now()).toISOString(),
+    ended_at: new Date().toISOString(),
+    prompt_type: turnPromptType,
+    prompt: turnPrompt,
+    text: clipForTranscript(turnText, TRANSCRIPT_MAX_TEXT_CHARS),
+    tools: turnTools,
+    classification,
+    result,
+  };
+  try {
+    rotateLogIfNeeded(TRANSCRIPT_FILE);
+    fs.appendFileSync(TRANSCRIPT_FILE, JSON.stringify(record) + '\n');
+  } catch {}
+}
+
+// One JSON line per event in EVENTS_FILE; the control plane ingests and indexes them
+function emitEvent(type, data = {}) {
+  const event = {
+    id: `${EVENT_BOOT_ID}-${++eventSeq}`,
+    ts: new Date().toISOString(),
+    type,
+    state,
+    task_id: currentTask ? currentTask.id : null,
+    turn: turnCount || null,
+    ...data,
+  };
+  try {
+    rotateLogIfNeeded(EVENTS_FILE);
+    fs.appendFileSync(EVENTS_FILE, JSON.stringify(event) + '\n');
+  } catch {}
+}
+
 function readFile(p) {
   try { return fs.readFileSync(p, 'utf-8'); } catch { return null; }
 }
@@ -129,7 +187,10 @@ function appendFile(p, value) {
 function setState(newState) {
   const old = state;
   state = newState;
-  if (old !== newState) log(`State: ${old} → ${newState}`);
+  if (old !== newState) {
+    log(`State: ${old} → ${newState}`);
+    emitEvent('state_change', { from: old, to: newState });
+  }
 }
 
 // ── Task file management ────────────────────────────────────────
@@ -218,6 +279,7 @@ function runVerification(task) {
     const value = parseFloat(output);
     if (isNaN(value)) {
       log(`Verification output not numeric: "${output}"`);
+      emitEvent('verification', { command: task.goal.verify_command, passed: false, value: null, output: output.slice(0, 500) });
       return { passed: false, output, value: null };
     }
 
@@ -225,9 +287,11 @@ function runVerification(task) {
     const direction = task.goal.direction || 'below';
     const passed = direction === 'below' ? value < target : value > target;
     log(`Verification: ${value} ${direction} ${target} → ${passed ? 'PASSED' : 'not yet'}`);
+    emitEvent('verification', { command: task.goal.verify_command, passed, value, target, direction });
     return { passed, output, value };
   } catch (e) {
     log(`Verification command failed: ${e.message}`);
+    emitEvent('verification', { command: task.goal.verify_command, passed: false, value: null, error: e.message.slice(0, 500) });
     return { passed: false, output: e.message, value: null };
   }
 }
@@ -313,6 +377,7 @@ function completeTask(task, reason, metricValue) {
   archiveMemory(task);
   broadcastTaskStatus(task);
   log(`Task COMPLETED: ${reason} (metric=${metricValue})`);
+  emitEvent('task_end', { status: 'completed', reason, metric: metricValue ?? null });
   setState(STATE.COMPLETED);
 }
 
@@ -325,6 +390,7 @@ function stopTask(task, reason) {
   archiveMemory(task);
   broadcastTaskStatus(task);
   log(`Task STOPPED: ${reason}`);
+  emitEvent('task_end', { status: 'stopped', reason });
   setState(STATE.COMPLETED);
 }
 
@@ -339,6 +405,7 @@ function errorStop(reason) {
     currentTask.completion_reason = `error_stopped: ${reason}`;
     saveTask(currentTask);
     archiveMemory(currentTask);
+    emitEvent('task_end', { status: 'stopped', reason: currentTask.completion_reason });
   }
 
   // Write status file for external monitoring
@@ -519,7 +586,20 @@ function parseFirstJsonObject(raw) {
   }
 }
 
-async function callHaiku(system, user, maxTokens = 500) {
+// Memory calls go straight to the API, not through OpenClaw, so the gateway only sees their usage if we report it
+function reportUsage(purpose, data) {
+  if (!connected || !ws || !data.usage) return;
+  ws.send(JSON.stringify({
+    type: 'usage',
+    purpose,
+    model: data.model || MEMORY_MODEL,
+    usage: data.usage,
+    task_id: currentTask ? currentTask.id : null,
+    turn: currentTask && currentTask.progress ? currentTask.progress.turns_completed : null,
+  }));
+}
+
+async function callHaiku(system, user, maxTokens = 500, purpose = 'memory') {
   if (!process.env.ANTHROPIC_API_KEY) {
     throw new Error('ANTHROPIC_API_KEY is not configured');
   }
@@ -546,6 +626,7 @@ async function callHaiku(system, user, maxTokens = 500) {
   }
 
   const data = await res.json();
+  reportUsage(purpose, data);
   const text = Array.isArray(data.content)
     ? data.content
       .filter((item) => item && item.type === 'text')
@@ -576,6 +657,7 @@ Turn output:
 ${clippedTurn || '(no text output)'}
 `,
       400,
+      'turn_summary',
     );
     bullets = normalizeBullets(response, 2, 5);
   } catch (err) {
@@ -626,6 +708,7 @@ SHORT_TERM_MEMORY.md:
 ${clipForModel(shortMem, 25_000)}
 `,
       900,
+      'memory_consolidation',
     );
     parsed = parseFirstJsonObject(response);
   } catch (err) {
@@ -940,6 +1023,7 @@ function sendPrompt() {
   turnToolCount = 0;
   turnMsgCount = 0;
   turnText = '';
+  turnTools = [];
 
   // Update task progress
   if (currentTask && currentTask.progress) {
@@ -980,6 +1064,15 @@ function sendPrompt() {
   }
 
   log(`=== Turn ${turnCount} === Sending ${promptType} prompt (${prompt.length} chars, empty=${consecutiveEmpty}, idle=${consecutiveIdle}${currentTask ? ', task=' + currentTask.status : ''})`);
+  turnStartedAt = Date.now();
+  turnPrompt = prompt;
+  turnPromptType = promptType;
+  emitEvent('turn_start', { prompt_type: promptType, prompt_chars: prompt.length });
+  // The idle-check prompt is the only one without the operator directives section
+  const directives = promptType === 'idle-check' ? [] : loadDirectives();
+  if (directives.length > 0) {
+    emitEvent('directives_applied', { count: directives.length, instructions: directives.map(d => d.instruction) });
+  }
   setState(STATE.PROMPTING);
 
   ws.send(JSON.stringify({ type: 'user_message', content: prompt }));
@@ -1008,6 +1101,15 @@ function onTurnEnd(result) {
   }
 
   const classification = result === 'timeout' ? 'productive' : (result === 'error' ? 'error' : classifyTurn());
+  emitEvent('turn_end', {
+    classification,
+    result,
+    duration_ms: turnStartedAt ? Date.now() - turnStartedAt : null,
+    messages: turnMsgCount,
+    text_chars: turnTextChars,
+    tools: turnToolCount,
+  });
+  writeTranscript(classification, result);
 
   // Supervisor-managed memory updates after productive turns
   queueMemoryWorkForTurn(classification);
@@ -1026,6 +1128,12 @@ function onTurnEnd(result) {
     const freshTask = loadTask() || currentTask;
     const unanswered = getUnansweredQuestions(freshTask);
     const blocking = unanswered.filter(q => q.priority === 'blocking');
+    // Questions the agent added during this turn aren't in the snapshot taken before it
+    for (const q of unanswered) {
+      if (!(q.id in lastSeenAnswers)) {
+        emitEvent('question', { question_id: q.id, priority: q.priority || 'question', text: q.text });
+      }
+    }
     snapshotAnswers(freshTask);
 
     if (blocking.length > 0 && (classification === 'idle' || classification === 'empty')) {
@@ -1136,6 +1244,9 @@ function startNeedsInputPoll() {
 
     if (newlyAnswered.length > 0 || blocking.length === 0) {
       log(`Exiting NEEDS_INPUT: ${newlyAnswered.length} new answer(s), ${blocking.length} blocking remaining`);
+      for (const q of newlyAnswered) {
+        emitEvent('question_answered', { question_id: q.id });
+      }
       stopNeedsInputPoll();
       currentTask = freshTask;
       consecutiveIdle = 0;
@@ -1267,7 +1378,7 @@ function connectToGateway() {
   ws.on('open', () => {
     connected = true;
     log('Connected to gateway');
-    ws.send(JSON.stringify({ type: 'identify', role: 'supervisor' }));
+    ws.send(JSON.stringify({ type: 'identify', role: 'supervisor', token: process.env.SYNV2_SUPERVISOR_TOKEN }));
 
     // Broadcast current task status on connect
     if (currentTask) broadcastTaskStatus(currentTask);
@@ -1280,7 +1391,7 @@ function connectToGateway() {
     if (msg.type === 'status') {
       agentBusy = msg.agentBusy || false;
       humanCount = msg.humanCount || 0;
-      log(`Status: agentBusy=${agentBusy}, humans=${humanCount}, ocConnected=${msg.ocConnected}`);
+      log(`Status: agentBusy=${agentBusy}, humans=${humanCount}, observers=${msg.observerCount || 0}, ocConnected=${msg.ocConnected}`);
 
       if (state === STATE.COMPLETED) {
         log('In COMPLETED state — not starting prompt loop');
@@ -1295,6 +1406,7 @@ function connectToGateway() {
     }
 
     else if (msg.type === 'client_change') {
+      // Observers (attach --watch) are counted separately and never pause the loop
       onHumanCountChange(msg.humans || 0);
     }
 
@@ -1350,8 +1462,17 @@ function connectToGateway() {
       turnToolCount++;
       turnMsgCount++;
     }
-    else if (msg.type === 'tool_use' || msg.type === 'tool_result') {
+    else if (msg.type === 'tool_use') {
+      turnMsgCount++;
+      turnTools.push({ tool: msg.tool, input: clipForTranscript(msg.input, TRANSCRIPT_MAX_TOOL_CHARS), output: null });
+    }
+    else if (msg.type === 'tool_result') {
       turnMsgCount++;
+      // Pair each result with the oldest call of that tool still waiting for one
+      const call = turnTools.find(t => t.tool === msg.tool && t.output === null);
+      const output = clipForTranscript(msg.output, TRANSCRIPT_MAX_TOOL_CHARS);
+      if (call) call.output = output;
+      else turnTools.push({ tool: msg.tool, input: null, output });
     }
 
     // Turn end signals
@@ -3,7 +3,7 @@
 
 const http = require('http');
 const { WebSocketServer, WebSocket } = require('ws');
-const { execSync, exec } = require('child_process');
+const { execSync, execFile, exec, spawn } = require('child_process');
 const fs = require('fs');
 const os = require('os');
 const crypto = require('crypto');
@@ -28,6 +28,8 @@ const NETWORK_NAME = 'synv2-net';
 const IMAGE_NAME = 'synv2-project';
 const GATEWAY_PORT = 18789;
 const SUPERVISOR_LOG_FILE = '/workspace/.supervisor.log';
+const DEFAULT_EXEC_TIMEOUT_MS = 30000;
+const DEFAULT_EXEC_OUTPUT_BYTES = 1024 * 1024;
 
 console.log(`Worker agent starting for project: ${PROJECT_NAME}`);
 console.log(`Port: ${PORT}`);
@@ -68,7 +70,8 @@ function isContainerRunning() {
   }
 }
 
-async function createContainer(env) {
+// With start=false the container is only created, so files can be copied into its volume before anything boots
+async function createContainer(env, start = true) {
   // Ensure network exists
   try { execSync(`docker network create ${NETWORK_NAME} 2>/dev/null`); } catch {}
 
@@ -94,7 +97,7 @@ async function createContainer(env) {
     ` applied_memory_mb=${limits.memoryMb}`
   );
 
-  const cmd = `docker run -d --name ${CONTAINER_NAME}` +
+  const cmd = `docker ${start ? 'run -d' : 'create'} --name ${CONTAINER_NAME}` +
     ` --network ${NETWORK_NAME}` +
     ` --restart unless-stopped` +
     ` --memory ${limits.memoryMb}m` +
@@ -104,8 +107,19 @@ async function createContainer(env) {
     ` ${IMAGE_NAME}`;
 
   execSync(cmd, { timeout: 60000 });
+  if (!start) return { ok: true, containerId: CONTAINER_NAME, started: false };
 
-  // Wait for gateway health
+  await waitForGatewayHealth();
+  return { ok: true, containerId: CONTAINER_NAME };
+}
+
+async function startContainer() {
+  execSync(`docker start ${CONTAINER_NAME}`, { timeout: 30000 });
+  await waitForGatewayHealth();
+  return { ok: true, containerId: CONTAINER_NAME };
+}
+
+async function waitForGatewayHealth() {
   const start = Date.now();
   while (Date.now() - start < 120000) {
     const ip = getContainerIp();
@@ -114,7 +128,7 @@ async function createContainer(env) {
         const res = await fetch(`http://${ip}:${GATEWAY_PORT}/health`, {
           signal: AbortSignal.timeout(2000),
         });
-        if (res.ok) return { ok: true, containerId: CONTAINER_NAME };
+        if (res.ok) return;
       } catch {}
     }
     await new Promise(r => setTimeout(r, 2000));
@@ -142,6 +156,195 @@ function execInContainer(cmd) {
   return execSync(`docker exec ${CONTAINER_NAME} ${cmd}`, { timeout: 30000 }).toString();
 }
 
+// ── Docker Engine API (interactive exec) ─────────────────────
+// `docker exec -t` refuses to run without a local terminal, so streaming exec
+// sessions talk to the daemon socket directly and hijack the connection.
+const DOCKER_SOCKET = '/var/run/docker.sock';
+
+function dockerApi(method, apiPath, body) {
+  return new Promise((resolve, reject) => {
+    const payload = body ? JSON.stringify(body) : '';
+    const req = http.request({
+      socketPath: DOCKER_SOCKET,
+      method,
+      path: apiPath,
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) },
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => {
+        if (res.statusCode >= 300) {
+          reject(new Error(`Docker ${method} ${apiPath} failed: ${res.statusCode} ${data.trim()}`));
+          return;
+        }
+        try {
+          resolve(data ? JSON.parse(data) : {});
+        } catch {
+          resolve({});
+        }
+      });
+    });
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+function dockerHijack(apiPath, body) {
+  return new Promise((resolve, reject) => {
+    const payload = JSON.stringify(body);
+    const req = http.request({
+      socketPath: DOCKER_SOCKET,
+      method: 'POST',
+      path: apiPath,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(payload),
+        'Connection': 'Upgrade',
+        'Upgrade': 'tcp',
+      },
+    });
+    req.on('upgrade', (_res, socket, head) => {
+      if (head && head.length) socket.unshift(head);
+      resolve(socket);
+    });
+    req.on('response', (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => reject(new Error(`Docker exec start failed: ${res.statusCode} ${data.trim()}`)));
+    });
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+// Split Docker's multiplexed stream (8-byte frame headers) into stdout/stderr chunks
+function demuxDockerStream(socket, onChunk) {
+  let buf = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    buf = Buffer.concat([buf, chunk]);
+    while (buf.length >= 8) {
+      const size = buf.readUInt32BE(4);
+      if (buf.length < 8 + size) break;
+      onChunk(buf[0] === 2 ? 'stderr' : 'stdout', buf.subarray(8, 8 + size));
+      buf = buf.subarray(8 + size);
+    }
+  });
+}
+
+async function getExecExitCode(execId) {
+  // The stream can close a moment before Docker records the exit code
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const info = await dockerApi('GET', `/exec/${execId}/json`);
+    if (!info.Running) return typeof info.ExitCode === 'number' ? info.ExitCode : null;
+    await new Promise(r => setTimeout(r, 100));
+  }
+  return null;
+}
+
+async function startExecSession(start, out) {
+  const tty = !!start.tty;
+  const { Id: execId } = await dockerApi('POST', `/containers/${CONTAINER_NAME}/exec`, {
+    Cmd: start.cmd,
+    AttachStdin: true,
+    AttachStdout: true,
+    AttachStderr: true,
+    Tty: tty,
+  });
+  const socket = await dockerHijack(`/exec/${execId}/start`, { Detach: false, Tty: tty });
+
+  const resize = (cols, rows) => {
+    const w = parseInt(cols, 10);
+    const h = parseInt(rows, 10);
+    if (!(w > 0 && h > 0)) return;
+    dockerApi('POST', `/exec/${execId}/resize?h=${h}&w=${w}`).catch(() => {});
+  };
+  if (tty && start.cols && start.rows) resize(start.cols, start.rows);
+
+  if (tty) socket.on('data', chunk => out.output('stdout', chunk));
+  else demuxDockerStream(socket, out.output);
+
+  let finished = false;
+  const finish = async () => {
+    if (finished) return;
+    finished = true;
+    try {
+      out.exit(await getExecExitCode(execId));
+    } catch (err) {
+      out.fail(`Failed to read exit code: ${err.message}`);
+    }
+  };
+  socket.on('end', finish);
+  socket.on('close', finish);
+  socket.on('error', err => out.fail(err.message));
+
+  return {
+    input(msg) {
+      if (msg.type === 'stdin' && typeof msg.data === 'string') socket.write(Buffer.from(msg.data, 'base64'));
+      else if (msg.type === 'stdin_close') socket.end();
+      else if (msg.type === 'resize' && tty) resize(msg.cols, msg.rows);
+    },
+    abort() {
+      finished = true;
+      socket.destroy();
+    },
+  };
+}
+
+// Run a command to completion with separate stdout/stderr, a hard timeout and capped output.
+// `timeout` inside the container kills the whole process group (TERM, then KILL 5s later) and exits 124.
+function runExec(cmd, timeoutMs, maxOutputBytes) {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const child = spawn('docker', ['exec', CONTAINER_NAME, 'timeout', '-k', '5s', `${timeoutMs / 1000}s`, ...cmd]);
+
+    const collect = () => ({ chunks: [], size: 0, truncated: false });
+    const streams = { stdout: collect(), stderr: collect() };
+    for (const name of ['stdout', 'stderr']) {
+      child[name].on('data', (chunk) => {
+        const s = streams[name];
+        const room = maxOutputBytes - s.size;
+        if (chunk.length > room) s.truncated = true;
+        if (room > 0) {
+          s.chunks.push(chunk.subarray(0, room));
+          s.size += Math.min(chunk.length, room);
+        }
+      });
+    }
+
+    // Backstop in case `docker exec` itself hangs past the in-container timeout
+    let killed = false;
+    const timer = setTimeout(() => {
+      killed = true;
+      child.kill('SIGKILL');
+    }, timeoutMs + 10000);
+
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      const durationMs = Date.now() - startedAt;
+      const exitCode = killed ? null : code;
+      resolve({
+        stdout: Buffer.concat(streams.stdout.chunks).toString('utf-8'),
+        stderr: Buffer.concat(streams.stderr.chunks).toString('utf-8'),
+        exit_code: exitCode,
+        duration_ms: durationMs,
+        truncated: streams.stdout.truncated || streams.stderr.truncated,
+        timed_out: killed || (exitCode === 124 && durationMs >= timeoutMs),
+      });
+    });
+  });
+}
+
+// Async so an archive request doesn't hold up /health and the exec streams while docker starts the exec
+function pathExistsInContainer(containerPath) {
+  return new Promise((resolve) => {
+    execFile('docker', ['exec', CONTAINER_NAME, 'test', '-e', containerPath], { timeout: 10000 }, (err) => resolve(!err));
+  });
+}
+
 function resolveContainerLimits(env) {
   const hostCpus = Math.max(1, os.cpus().length || 1);
   const hostMemoryMb = Math.max(1024, Math.floor(os.totalmem() / (1024 * 1024)));
@@ -213,7 +416,14 @@ const server = http.createServer(async (req, res) => {
     if (path === '/container/create' && method === 'POST') {
       const body = await parseBody(req);
       const env = body.env || {};
-      const result = await createContainer(env);
+      const result = await createContainer(env, body.start !== false);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    }
+
+    // POST /container/start — start a container created with start=false
+    else if (path === '/container/start' && method === 'POST') {
+      const result = await startContainer();
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify(result));
     }
@@ -259,6 +469,29 @@ const server = http.createServer(async (req, res) => {
       }
     }
 
+    // GET /container/usage — per-call token usage records from the gateway
+    else if (path === '/container/usage' && method === 'GET') {
+      const ip = getContainerIp();
+      if (!ip) {
+        res.writeHead(503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'container_not_running' }));
+        return;
+      }
+
+      try {
+        const after = url.searchParams.get('after') || '0';
+        const gRes = await fetch(`http://${ip}:${GATEWAY_PORT}/usage?after=${encodeURIComponent(after)}`, {
+          signal: AbortSignal.timeout(3000),
+        });
+        const usage = await gRes.json();
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(usage));
+      } catch (err) {
+        res.writeHead(503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'gateway_unreachable', message: err.message }));
+      }
+    }
+
     // POST /task — write .task.json to container volume
     else if (path === '/task' && method === 'POST') {
       const body = await parseBody(req);
@@ -291,16 +524,64 @@ const server = http.createServer(async (req, res) => {
     else if (path === '/exec' && method === 'POST') {
       const body = await parseBody(req);
       const cmd = body.cmd;
-      if (!cmd || !Array.isArray(cmd)) {
+      if (!cmd || !Array.isArray(cmd) || cmd.length === 0 || !cmd.every(arg => typeof arg === 'string')) {
         res.writeHead(400, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'cmd must be an array of strings' }));
         return;
       }
-      // Shell-escape each argument to prevent metacharacter interpretation
-      const escaped = cmd.map(arg => `'${arg.replace(/'/g, "'\\''")}'`).join(' ');
-      const output = execInContainer(escaped);
+      const timeoutMs = Number.isFinite(body.timeout) && body.timeout > 0 ? body.timeout : DEFAULT_EXEC_TIMEOUT_MS;
+      const maxOutputBytes = Number.isFinite(body.maxOutputBytes) && body.maxOutputBytes > 0 ? body.maxOutputBytes : DEFAULT_EXEC_OUTPUT_BYTES;
+      // Arguments go to docker as an argv array, so no shell escaping is needed
+      const result = await runExec(cmd, timeoutMs, maxOutputBytes);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    }
+
+    // GET /archive?path= — stream a tar of a path inside the container
+    else if (path === '/archive' && method === 'GET') {
+      const target = url.searchParams.get('path');
+      if (!target || !target.startsWith('/')) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'path must be absolute' }));
+        return;
+      }
+      if (!(await pathExistsInContainer(target))) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `No such file or directory: ${target}` }));
+        return;
+      }
+
+      const child = spawn('docker', ['cp', `${CONTAINER_NAME}:${target}`, '-']);
+      res.writeHead(200, { 'Content-Type': 'application/x-tar' });
+      child.stdout.pipe(res);
+      child.stderr.on('data', chunk => console.error(`[archive] ${chunk.toString().trim()}`));
+      // Headers are already sent, so a failed copy can only abort the stream
+      child.on('close', (code) => { if (code !== 0) res.destroy(); });
+      res.on('close', () => { if (!res.writableFinished) child.kill(); });
+    }
+
+    // PUT /archive?path= — extract an uploaded tar into a directory inside the container
+    else if (path === '/archive' && method === 'PUT') {
+      const target = url.searchParams.get('path');
+      if (!target || !target.startsWith('/')) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'path must be absolute' }));
+        return;
+      }
+
+      await new Promise((resolve, reject) => {
+        const child = spawn('docker', ['cp', '-', `${CONTAINER_NAME}:${target}`]);
+        let stderr = '';
+        child.stderr.on('data', chunk => stderr += chunk);
+        req.pipe(child.stdin);
+        child.on('error', reject);
+        child.on('close', (code) => {
+          if (code === 0) resolve();
+          else reject(new Error(stderr.trim() || `docker cp exited with code ${code}`));
+        });
+      });
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ output }));
+      res.end(JSON.stringify({ ok: true }));
     }
 
     // POST /supervisor/control — proxy supervisor control to container gateway
@@ -377,8 +658,21 @@ const server = http.createServer(async (req, res) => {
   }
 });
 
+// ── WebSocket routing ────────────────────────────────────────
+const wss = new WebSocketServer({ noServer: true });
+const execWss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+  const { pathname } = new URL(req.url || '', `http://localhost:${PORT}`);
+  const target = pathname === '/gateway' ? wss : pathname === '/exec' ? execWss : null;
+  if (!target) {
+    socket.destroy();
+    return;
+  }
+  target.handleUpgrade(req, socket, head, (ws) => target.emit('connection', ws, req));
+});
+
 // ── WebSocket proxy to container gateway ─────────────────────
-const wss = new WebSocketServer({ server, path: '/gateway' });
 
 wss.on('connection', (clientWs, req) => {
   // Verify auth via query param
@@ -395,8 +689,12 @@ wss.on('connection', (clientWs, req) => {
     return;
   }
 
-  // Proxy to container gateway
-  const upstreamWs = new WebSocket(`ws://${ip}:${GATEWAY_PORT}`);
+  // Proxy to container gateway, passing on a reconnecting client's resume cursor
+  const upstreamUrl = new URL(`ws://${ip}:${GATEWAY_PORT}`);
+  for (const key of ['since', 'boot_id']) {
+    if (url.searchParams.has(key)) upstreamUrl.searchParams.set(key, url.searchParams.get(key));
+  }
+  const upstreamWs = new WebSocket(upstreamUrl);
 
   upstreamWs.on('open', () => {
     clientWs.on('message', (data) => {
@@ -425,6 +723,81 @@ wss.on('connection', (clientWs, req) => {
   });
 });
 
+// ── WebSocket exec sessions ──────────────────────────────────
+// Same frame protocol as the control plane's /ws/projects/:name/exec, which relays here.
+execWss.on('connection', (clientWs, req) => {
+  const url = new URL(req.url || '', `http://localhost:${PORT}`);
+  const token = url.searchParams.get('token');
+  if (token !== WORKER_TOKEN) {
+    clientWs.close(4001, 'Unauthorized');
+    return;
+  }
+
+  if (!isContainerRunning()) {
+    clientWs.close(4004, 'Container not running');
+    return;
+  }
+
+  const send = (msg) => {
+    if (clientWs.readyState === WebSocket.OPEN) clientWs.send(JSON.stringify(msg));
+  };
+  const out = {
+    output: (stream, data) => send({ type: stream, data: data.toString('base64') }),
+    exit: (code) => {
+      send({ type: 'exit', code });
+      try { clientWs.close(1000); } catch {}
+    },
+    fail: (message) => {
+      send({ type: 'error', message });
+      try { clientWs.close(1011, message.slice(0, 123)); } catch {}
+    },
+  };
+
+  let session = null;
+  let starting = false;
+  const pending = [];
+
+  clientWs.on('message', async (data) => {
+    let msg;
+    try {
+      msg = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    if (session) {
+      session.input(msg);
+      return;
+    }
+    if (starting) {
+      pending.push(msg);
+      return;
+    }
+
+    if (msg.type !== 'start' || !Array.isArray(msg.cmd) || msg.cmd.length === 0) {
+      out.fail('Expected a start frame with a cmd array');
+      return;
+    }
+
+    starting = true;
+    try {
+      session = await startExecSession(msg, out);
+    } catch (err) {
+      out.fail(`Exec failed: ${err.message}`);
+      return;
+    }
+
+    if (clientWs.readyState !== WebSocket.OPEN) {
+      session.abort();
+      return;
+    }
+    for (const m of pending.splice(0)) session.input(m);
+  });
+
+  clientWs.on('close', () => { if (session) session.abort(); });
+  clientWs.on('error', () => { if (session) session.abort(); });
+});
+
 // ── Heartbeat to control plane ───────────────────────────────
 async function sendHeartbeat() {
   try {
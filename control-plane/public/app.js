@@ -0,0 +1,681 @@
+// Synv2 dashboard — a browser view over the control plane's /api routes and the chat/log WebSockets.
+// No build step: plain ES module, DOM built with h() so agent output is never parsed as HTML.
+
+const TOKEN_KEY = 'synv2.token';
+const REFRESH_MS = 15_000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const TOOL_OUTPUT_LINES = 15;
+const LOG_LINES = 200;
+const TABS = ['chat', 'task', 'directives', 'secrets', 'logs', 'memory'];
+
+const state = {
+  token: localStorage.getItem(TOKEN_KEY),
+  projects: [],
+  selected: null, // project name
+  tab: 'chat',
+  project: null, // GET /api/projects/:name
+  worker: null,
+  chat: null,
+  logStream: null,
+  refreshTimer: null,
+};
+
+const $ = (id) => document.getElementById(id);
+
+function h(tag, attrs = {}, ...children) {
+  const el = document.createElement(tag);
+  for (const [key, value] of Object.entries(attrs)) {
+    if (value === null || value === undefined || value === false) continue;
+    if (key.startsWith('on')) el.addEventListener(key.slice(2), value);
+    else if (key === 'class') el.className = value;
+    else el.setAttribute(key, value === true ? '' : value);
+  }
+  for (const child of children.flat()) {
+    if (child === null || child === undefined || child === false) continue;
+    el.append(child instanceof Node ? child : String(child));
+  }
+  return el;
+}
+
+function formatTime(iso) {
+  return iso ? new Date(iso).toLocaleString() : '-';
+}
+
+function wsUrl(path, params = {}) {
+  const url = new URL(path, window.location.href);
+  url.protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('token', state.token);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') url.searchParams.set(key, String(value));
+  }
+  return url.toString();
+}
+
+// ── API ──────────────────────────────────────────────────────────
+
+async function api(path, { method = 'GET', body } = {}) {
+  const res = await fetch(`/api${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${state.token}`,
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (res.status === 401) {
+    signOut(data.message || 'Token rejected');
+    throw new Error(data.message || 'unauthorized');
+  }
+  if (!res.ok) throw new Error(data.message || data.error || `HTTP ${res.status}`);
+  return data;
+}
+
+const projectPath = (name, suffix = '') => `/projects/${encodeURIComponent(name)}${suffix}`;
+
+function showError(err) {
+  $('app-error').textContent = err ? err.message || String(err) : '';
+}
+
+// ── Sign in ──────────────────────────────────────────────────────
+
+function signOut(message) {
+  localStorage.removeItem(TOKEN_KEY);
+  state.token = null;
+  closeStreams();
+  clearInterval(state.refreshTimer);
+  $('app').hidden = true;
+  $('login').hidden = false;
+  $('login-error').textContent = message || '';
+}
+
+$('login-form').addEventListener('submit', async (e) => {
+  e.preventDefault();
+  state.token = $('login-token').value.trim();
+  try {
+    await api('/projects');
+  } catch (err) {
+    $('login-error').textContent = err.message;
+    return;
+  }
+  localStorage.setItem(TOKEN_KEY, state.token);
+  $('login-token').value = '';
+  start();
+});
+
+$('logout').addEventListener('click', () => signOut());
+$('refresh').addEventListener('click', () => {
+  loadProjects();
+  if (state.selected) selectProject(state.selected, state.tab);
+});
+
+// ── Projects ─────────────────────────────────────────────────────
+
+async function loadProjects() {
+  try {
+    const { projects } = await api('/projects');
+    state.projects = projects;
+    showError(null);
+  } catch (err) {
+    showError(err);
+    return;
+  }
+
+  const list = $('project-list');
+  list.replaceChildren(...state.projects.map((p) => h('li',
+    { class: p.name === state.selected ? 'selected' : null, onclick: () => selectProject(p.name) },
+    h('span', {}, p.name),
+    h('span', { class: `status ${p.status}` }, p.status),
+  )));
+  if (state.projects.length === 0) list.append(h('li', { class: 'dim' }, 'No projects'));
+}
+
+async function selectProject(name, tab = 'chat') {
+  closeStreams();
+  state.selected = name;
+  state.tab = tab;
+  for (const li of $('project-list').children) li.classList.toggle('selected', li.firstChild?.textContent === name);
+
+  try {
+    const [project, { worker }] = await Promise.all([api(projectPath(name)), api(projectPath(name, '/worker'))]);
+    state.project = project;
+    state.worker = worker;
+    showError(null);
+  } catch (err) {
+    showError(err);
+    return;
+  }
+  renderProject();
+}
+
+function renderProject() {
+  const p = state.project;
+  const w = state.worker;
+  const facts = [
+    ['instance', p.instance_type || 'local'],
+    p.instance?.cpus ? ['cpus', p.instance.cpus] : null,
+    p.instance?.memoryMb ? ['memory', `${p.instance.memoryMb} MB`] : null,
+    w ? ['worker', `${w.instance_id} (${w.status})`] : null,
+    w?.private_ip ? ['ip', w.private_ip] : null,
+    w?.region ? ['region', w.availability_zone || w.region] : null,
+    w ? ['heartbeat', formatTime(w.last_heartbeat)] : null,
+    ['created', formatTime(p.created_at)],
+  ].filter(Boolean);
+
+  const tabs = h('div', { class: 'tabs' }, TABS.map((t) => h('button',
+    { type: 'button', class: t === state.tab ? 'active' : null, onclick: () => switchTab(t) },
+    t[0].toUpperCase() + t.slice(1),
+  )));
+
+  $('project').replaceChildren(
+    h('div', { class: 'project-head' },
+      h('h2', {}, p.name),
+      h('span', { class: `status ${p.status}` }, p.status),
+      p.task ? h('span', { class: 'dim' }, `task: ${p.task.name} [${p.task.status}]${p.task.blocked ? ' — BLOCKED' : ''}`) : null,
+    ),
+    h('div', { class: 'facts' }, facts.map(([label, value]) => h('span', {}, `${label} `, h('b', {}, value)))),
+    tabs,
+    h('div', { class: 'panel', id: 'panel' }),
+  );
+  switchTab(state.tab);
+}
+
+function switchTab(tab) {
+  // Every tab renders from scratch, the chat and log views with a new connection
+  closeStreams();
+  state.tab = tab;
+  for (const btn of document.querySelectorAll('.tabs button')) {
+    btn.classList.toggle('active', btn.textContent.toLowerCase() === tab);
+  }
+  // A fresh element, so a slow render for the previous tab lands in a detached one
+  const panel = h('div', { class: 'panel', id: 'panel' });
+  $('panel').replaceWith(panel);
+  const render = { chat: renderChat, task: renderTask, directives: renderDirectives, secrets: renderSecrets, logs: renderLogs, memory: renderMemory }[tab];
+  render(panel).catch((err) => panel.replaceChildren(h('p', { class: 'error' }, err.message)));
+}
+
+function closeStreams() {
+  closeChat();
+  closeLogStream();
+}
+
+// ── Chat ─────────────────────────────────────────────────────────
+// Joins the gateway as an observer, so the supervisor keeps working; "Take over" re-identifies as a
+// human, which pauses it and enables the input. Reconnects resume from the last event seq seen.
+
+async function renderChat(panel) {
+  if (state.project.status !== 'running') {
+    panel.append(h('p', { class: 'empty' }, `Project is ${state.project.status}. Start it to chat.`));
+    return;
+  }
+
+  const log = h('div', { class: 'chat-log' });
+  const presence = h('span', { class: 'dim' }, 'connecting…');
+  const takeOver = h('input', { type: 'checkbox' });
+  const input = h('textarea', { rows: 2, placeholder: 'Take over to send messages', disabled: true });
+  const send = h('button', { type: 'submit', disabled: true }, 'Send');
+
+  const chat = {
+    name: state.selected,
+    ws: null,
+    role: 'observer',
+    bootId: null,
+    lastSeq: null,
+    attempts: 0,
+    timer: null,
+    closed: false,
+    turn: null, // element the current agent turn is written into
+    text: null, // its current text run
+    log,
+    presence,
+  };
+  state.chat = chat;
+
+  takeOver.addEventListener('change', () => {
+    chat.role = takeOver.checked ? 'human' : 'observer';
+    input.disabled = send.disabled = !takeOver.checked;
+    input.placeholder = takeOver.checked ? 'Message the agent (Enter to send, Shift+Enter for a new line)' : 'Take over to send messages';
+    sendChat(chat, { type: 'identify', role: chat.role });
+  });
+
+  const form = h('form', { class: 'chat-input' }, input, send);
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    const text = input.value.trim();
+    if (!text) return;
+    if (!chat.ws || chat.ws.readyState !== WebSocket.OPEN) {
+      chatNote(chat, 'Not connected — message not sent.', 'error');
+      return;
+    }
+    sendChat(chat, { type: 'user_message', content: text });
+    endTurn(chat);
+    log.append(h('div', { class: 'user' }, `> ${text}`));
+    input.value = '';
+    scrollToEnd(log);
+  });
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      form.requestSubmit();
+    }
+  });
+
+  panel.append(
+    h('div', { class: 'toolbar' }, presence, h('label', { class: 'dim' }, takeOver, ' Take over (pauses the supervisor)')),
+    log,
+    form,
+  );
+  connectChat(chat);
+}
+
+function connectChat(chat) {
+  const resume = chat.bootId && chat.lastSeq !== null ? { since: chat.lastSeq, boot_id: chat.bootId } : {};
+  const ws = new WebSocket(wsUrl(`/ws/projects/${encodeURIComponent(chat.name)}/chat`, resume));
+  chat.ws = ws;
+  let established = false;
+
+  ws.addEventListener('open', () => sendChat(chat, { type: 'identify', role: chat.role }));
+  ws.addEventListener('message', (e) => {
+    established = true;
+    chat.attempts = 0;
+    let delta;
+    try { delta = JSON.parse(e.data); } catch { return; }
+    handleDelta(chat, delta);
+  });
+  ws.addEventListener('close', (e) => {
+    if (chat.closed || ws !== chat.ws) return;
+    chat.ws = null;
+    if (!established && chat.attempts === 0) {
+      // Refused outright: a token without access to the project, or the gateway is down
+      chatNote(chat, `Chat unavailable${e.reason ? `: ${e.reason}` : ' (check the token can access this project)'}`, 'error');
+      chat.presence.textContent = 'disconnected';
+      return;
+    }
+    chat.attempts++;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** (chat.attempts - 1), RECONNECT_MAX_MS);
+    chat.presence.textContent = `reconnecting in ${Math.round(delay / 1000)}s (attempt ${chat.attempts})…`;
+    chat.timer = setTimeout(() => connectChat(chat), delay);
+  });
+}
+
+function sendChat(chat, msg) {
+  if (chat.ws && chat.ws.readyState === WebSocket.OPEN) chat.ws.send(JSON.stringify(msg));
+}
+
+function closeChat() {
+  const chat = state.chat;
+  if (!chat) return;
+  chat.closed = true;
+  clearTimeout(chat.timer);
+  if (chat.ws) chat.ws.close(1000, 'client disconnect');
+  state.chat = null;
+}
+
+function scrollToEnd(el) {
+  el.scrollTop = el.scrollHeight;
+}
+
+function chatNote(chat, text, cls = 'note') {
+  endTurn(chat);
+  chat.log.append(h('div', { class: cls }, text));
+  scrollToEnd(chat.log);
+}
+
+function currentTurn(chat) {
+  if (!chat.turn) {
+    chat.turn = h('div', { class: 'turn' });
+    chat.log.append(chat.turn);
+  }
+  return chat.turn;
+}
+
+function endTurn(chat) {
+  chat.turn = null;
+  chat.text = null;
+}
+
+function clip(text, maxLines) {
+  const lines = text.split('\n');
+  return lines.length > maxLines ? `${lines.slice(0, maxLines).join('\n')}\n… (${lines.length - maxLines} more lines)` : text;
+}
+
+function handleDelta(chat, delta) {
+  if (typeof delta.seq === 'number' && delta.type !== 'history' && (chat.lastSeq === null || delta.seq > chat.lastSeq)) {
+    chat.lastSeq = delta.seq;
+  }
+
+  switch (delta.type) {
+    case 'history': {
+      const resumed = delta.since !== undefined;
+      if (!resumed) {
+        // A fresh connect, or a restarted gateway: start the view over with its recent events
+        chat.bootId = delta.boot_id || null;
+        chat.lastSeq = 0;
+        chat.log.replaceChildren();
+        endTurn(chat);
+      }
+      if (resumed) chatNote(chat, `── reconnected${delta.events.length ? `, ${delta.events.length} missed events` : ''}${delta.truncated ? '; older ones were lost' : ''} ──`);
+      const start = chat.log.childElementCount;
+      for (const event of delta.events || []) handleDelta(chat, event);
+      if (!resumed) {
+        for (const el of [...chat.log.children].slice(start)) el.classList.add('history');
+        if (delta.events?.length) chatNote(chat, '── live ──');
+      }
+      break;
+    }
+
+    case 'text_delta': {
+      const turn = currentTurn(chat);
+      if (!chat.text) {
+        chat.text = h('div', { class: 'text' });
+        turn.append(chat.text);
+      }
+      chat.text.append(delta.text || '');
+      break;
+    }
+
+    case 'tool_use': {
+      let display = delta.input || '';
+      try {
+        const parsed = JSON.parse(display);
+        display = parsed.command || parsed.path || display;
+      } catch {}
+      currentTurn(chat).append(h('div', { class: 'tool' }, `▸ ${delta.tool} `, h('span', { class: 'dim' }, display)));
+      chat.text = null;
+      break;
+    }
+
+    case 'tool_result':
+      if (delta.output) currentTurn(chat).append(h('pre', { class: 'tool-output' }, clip(delta.output, TOOL_OUTPUT_LINES)));
+      chat.text = null;
+      break;
+
+    case 'usage':
+      if (delta.source === 'agent') {
+        currentTurn(chat).append(h('div', { class: 'usage' },
+          `${delta.input_tokens || 0} in / ${delta.output_tokens || 0} out tokens${delta.model ? ` · ${delta.model}` : ''}`));
+      }
+      break;
+
+    case 'error':
+      chatNote(chat, `Error: ${delta.error}`, 'error');
+      break;
+
+    case 'done':
+      endTurn(chat);
+      break;
+
+    case 'status':
+    case 'client_change': {
+      const humans = delta.humanCount ?? delta.humans ?? 0;
+      const observers = delta.observerCount ?? delta.observers ?? 0;
+      const parts = [
+        `supervisor ${delta.supervisorConnected ? 'connected' : 'not connected'}`,
+        `${humans} human${humans === 1 ? '' : 's'}`,
+        `${observers} watching`,
+      ];
+      if (delta.type === 'status') parts.push(delta.agentBusy ? 'agent busy' : 'agent idle');
+      chat.presence.textContent = parts.join(' · ');
+      break;
+    }
+
+    case 'task_status':
+      if (delta.task && state.project) state.project.task = delta.task;
+      break;
+  }
+  scrollToEnd(chat.log);
+}
+
+// ── Task ─────────────────────────────────────────────────────────
+
+async function renderTask(panel) {
+  const name = state.selected;
+  const [project, { tasks }, { events }] = await Promise.all([
+    api(projectPath(name)),
+    api(projectPath(name, '/tasks')),
+    api(projectPath(name, '/events?type=verification&limit=200')).catch(() => ({ events: [] })),
+  ]);
+  const task = tasks.find((t) => t.id === project.task?.id) || tasks[0];
+  if (!task) {
+    panel.append(h('p', { class: 'empty' }, 'No task. Start one with: synv2 task start'));
+    return;
+  }
+
+  const progress = task.progress || {};
+  const goal = task.goal || {};
+  const usage = project.task_usage && project.task_usage.task_id === task.id ? project.task_usage : null;
+  panel.append(
+    h('div', { class: 'project-head' }, h('h2', {}, task.name), h('span', { class: `status ${task.status}` }, task.status)),
+    task.description ? h('p', {}, task.description) : null,
+    h('div', { class: 'facts' },
+      h('span', {}, 'turns ', h('b', {}, progress.turns_completed ?? 0)),
+      goal.target_value !== undefined ? h('span', {}, 'target ', h('b', {}, `${goal.direction || 'below'} ${goal.target_value}`)) : null,
+      progress.latest_metric !== undefined && progress.latest_metric !== null ? h('span', {}, 'metric ', h('b', {}, progress.latest_metric)) : null,
+      usage ? h('span', {}, 'tokens ', h('b', {}, `${usage.input_tokens} in / ${usage.output_tokens} out`)) : null,
+      usage ? h('span', {}, 'cost ', h('b', {}, `$${usage.cost_usd.toFixed(2)}`)) : null,
+      h('span', {}, 'started ', h('b', {}, formatTime(task.started_at))),
+      task.completion_reason ? h('span', {}, 'ended ', h('b', {}, task.completion_reason)) : null,
+    ),
+    goal.verify_command ? h('div', { class: 'dim' }, 'verify: ', h('code', {}, goal.verify_command)) : null,
+  );
+
+  // Verification events are newest first; only this task's numeric results are charted
+  const points = events.filter((e) => e.task_id === task.id && typeof e.value === 'number').reverse();
+  if (points.length > 0) {
+    panel.append(h('h3', {}, 'Metric'), metricChart(points, goal.target_value));
+  }
+
+  if (progress.summary) panel.append(h('h3', {}, 'Summary'), h('pre', {}, progress.summary));
+
+  const pending = task.questions.filter((q) => q.answer === null || q.answer === undefined);
+  const answered = task.questions.filter((q) => q.answer !== null && q.answer !== undefined);
+  panel.append(h('h3', {}, `Questions (${pending.length} pending)`));
+  if (task.questions.length === 0) panel.append(h('p', { class: 'dim' }, 'The agent has not asked anything.'));
+  panel.append(h('ul', { class: 'questions' },
+    pending.map((q) => h('li', {},
+      q.priority === 'blocking' ? h('span', { class: 'blocking' }, '[BLOCKING] ') : null,
+      q.text,
+      q.context ? h('div', { class: 'dim' }, q.context) : null,
+      answerForm(q),
+    )),
+    answered.map((q) => h('li', { class: 'dim' }, q.text, h('div', {}, `→ ${q.answer}`))),
+  ));
+}
+
+function answerForm(question) {
+  const input = h('input', { placeholder: 'Answer', required: true });
+  const form = h('form', {}, input, h('button', { type: 'submit' }, 'Answer'));
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    try {
+      await api(projectPath(state.selected, '/task/respond'), { method: 'POST', body: { question_id: question.id, answer: input.value } });
+      switchTab('task');
+    } catch (err) {
+      showError(err);
+    }
+  });
+  return form;
+}
+
+function metricChart(points, target) {
+  const width = 640;
+  const height = 160;
+  const pad = 28;
+  const values = points.map((p) => p.value);
+  if (typeof target === 'number') values.push(target);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const x = (i) => pad + (points.length === 1 ? 0 : (i / (points.length - 1)) * (width - 2 * pad));
+  const y = (v) => height - pad - ((v - min) / span) * (height - 2 * pad);
+
+  const svg = (tag, attrs) => {
+    const el = document.createElementNS('http://www.w3.org/2000/svg', tag);
+    for (const [k, v] of Object.entries(attrs)) el.setAttribute(k, v);
+    return el;
+  };
+  const chart = svg('svg', { class: 'metric-chart', width, height, viewBox: `0 0 ${width} ${height}` });
+  if (typeof target === 'number') {
+    chart.append(svg('line', { class: 'target', x1: pad, x2: width - pad, y1: y(target), y2: y(target) }));
+  }
+  chart.append(svg('polyline', { points: points.map((p, i) => `${x(i)},${y(p.value)}`).join(' ') }));
+  const label = (text, attrs) => {
+    const el = svg('text', attrs);
+    el.textContent = text;
+    return el;
+  };
+  chart.append(
+    label(String(max), { x: 4, y: pad - 8 }),
+    label(String(min), { x: 4, y: height - 8 }),
+    label(`latest ${points[points.length - 1].value}`, { x: width - pad - 90, y: pad - 8 }),
+  );
+  return chart;
+}
+
+// ── Directives ───────────────────────────────────────────────────
+
+async function renderDirectives(panel) {
+  const { directives } = await api(projectPath(state.selected, '/directives'));
+
+  const instruction = h('input', { placeholder: 'Instruction for the agent', required: true, style: 'flex: 1' });
+  const persistent = h('input', { type: 'checkbox', checked: true });
+  const form = h('form', { class: 'toolbar' }, instruction, h('label', { class: 'dim' }, persistent, ' persistent'), h('button', { type: 'submit' }, 'Add'));
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    try {
+      await api(projectPath(state.selected, '/directives'), { method: 'POST', body: { instruction: instruction.value, persistent: persistent.checked } });
+      switchTab('directives');
+    } catch (err) {
+      showError(err);
+    }
+  });
+
+  const remove = async (id) => {
+    try {
+      await api(projectPath(state.selected, `/directives/${encodeURIComponent(id)}`), { method: 'DELETE' });
+      switchTab('directives');
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  panel.append(form);
+  if (directives.length === 0) {
+    panel.append(h('p', { class: 'dim' }, 'No directives.'));
+    return;
+  }
+  panel.append(h('table', {},
+    h('tr', {}, h('th', {}, 'ID'), h('th', {}, 'Instruction'), h('th', {}, 'Persistent'), h('th', {}, 'Created'), h('th', {})),
+    directives.map((d) => h('tr', {},
+      h('td', { class: 'mono' }, d.id),
+      h('td', {}, d.instruction),
+      h('td', {}, d.persistent ? 'yes' : 'once'),
+      h('td', { class: 'dim' }, formatTime(d.created_at)),
+      h('td', {}, h('button', { type: 'button', onclick: () => remove(d.id) }, 'Remove')),
+    )),
+  ));
+}
+
+// ── Secrets ──────────────────────────────────────────────────────
+// Values never leave the control plane; the API lists keys only
+
+async function renderSecrets(panel) {
+  const { secrets } = await api(projectPath(state.selected, '/secrets'));
+  if (secrets.length === 0) {
+    panel.append(h('p', { class: 'dim' }, 'No secrets. Add them with: synv2 secrets set'));
+    return;
+  }
+  panel.append(h('table', {},
+    h('tr', {}, h('th', {}, 'Key'), h('th', {}, 'Created')),
+    secrets.map((s) => h('tr', {}, h('td', { class: 'mono' }, s.key), h('td', { class: 'dim' }, formatTime(s.created_at)))),
+  ));
+}
+
+// ── Logs ─────────────────────────────────────────────────────────
+
+async function renderLogs(panel) {
+  const grep = h('input', { placeholder: 'Filter', style: 'flex: 1' });
+  const follow = h('input', { type: 'checkbox' });
+  const view = h('pre', { class: 'log-view' });
+  const form = h('form', { class: 'toolbar' }, grep, h('label', { class: 'dim' }, follow, ' follow'), h('button', { type: 'submit' }, 'Show'));
+
+  const load = async () => {
+    closeLogStream();
+    const query = { lines: LOG_LINES, grep: grep.value || undefined, ignore_case: grep.value ? '1' : undefined };
+    if (follow.checked) {
+      view.textContent = '';
+      followLogs(view, query);
+      return;
+    }
+    try {
+      const params = new URLSearchParams(Object.entries(query).filter(([, v]) => v !== undefined));
+      const { logs } = await api(projectPath(state.selected, `/logs?${params}`));
+      view.textContent = logs || '(no log lines)';
+      scrollToEnd(view);
+    } catch (err) {
+      view.textContent = err.message;
+    }
+  };
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    load();
+  });
+  follow.addEventListener('change', load);
+
+  panel.append(form, view);
+  await load();
+}
+
+function followLogs(view, query) {
+  const ws = new WebSocket(wsUrl(`/ws/projects/${encodeURIComponent(state.selected)}/logs`, query));
+  state.logStream = ws;
+  ws.addEventListener('message', (e) => {
+    let frame;
+    try { frame = JSON.parse(e.data); } catch { return; }
+    const atEnd = view.scrollTop + view.clientHeight >= view.scrollHeight - 4;
+    if (frame.type === 'line') view.append(`${frame.text}\n`);
+    else if (frame.type === 'end') view.append('── log stream ended (container stopped) ──\n');
+    else if (frame.type === 'error') view.append(`── ${frame.message} ──\n`);
+    if (atEnd) scrollToEnd(view);
+  });
+  ws.addEventListener('close', () => {
+    if (state.logStream === ws) view.append('── disconnected ──\n');
+  });
+}
+
+function closeLogStream() {
+  const ws = state.logStream;
+  state.logStream = null;
+  if (ws) ws.close(1000);
+}
+
+// ── Memory ───────────────────────────────────────────────────────
+
+async function renderMemory(panel) {
+  const memory = await api(projectPath(state.selected, '/memory'));
+  const files = [
+    ['SHORT_TERM_MEMORY.md', memory.short_term],
+    ['LONG_TERM_MEMORY.md', memory.long_term],
+    ['plan.md', memory.plan],
+  ];
+  for (const [file, content] of files) {
+    panel.append(h('div', { class: 'memory-file' },
+      h('h3', { class: 'mono' }, file),
+      content ? h('pre', {}, content) : h('p', { class: 'dim' }, '(empty)'),
+    ));
+  }
+}
+
+// ── Startup ──────────────────────────────────────────────────────
+
+function start() {
+  $('login').hidden = true;
+  $('app').hidden = false;
+  loadProjects();
+  clearInterval(state.refreshTimer);
+  state.refreshTimer = setInterval(loadProjects, REFRESH_MS);
+}
+
+if (state.token) start();
+else signOut();
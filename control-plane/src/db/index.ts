@@ -1,7 +1,7 @@
 import Database from 'better-sqlite3';
 import { resolve } from 'path';
 import { migrate } from './schema.js';
-import type { ProjectRow, TokenRow, SecretRow, WorkerRow } from '../types.js';
+import type { ProjectRow, TokenRow, SecretRow, WorkerRow, TaskRow, TaskQuestionRow, AuditEventRow, SnapshotRow, OperationRow, WorkerUsageRow, TokenUsageRow, TurnUsageRow, SupervisorEventRow, IngestCursorRow, TranscriptRow } from '../types.js';
 
 const DB_PATH = process.env.DB_PATH || resolve(process.cwd(), 'synv2.db');
 
@@ -18,7 +18,7 @@ export function getDb(): Database.Database {
 }
 
 // Projects
-export function insertProject(row: Omit<ProjectRow, 'updated_at'>): void {
+export function insertProject(row: Omit<ProjectRow, 'updated_at' | 'idle_stop_minutes' | 'budget_usd' | 'budget_action' | 'budget_exceeded_at'>): void {
   const db = getDb();
   db.prepare(`
     INSERT INTO projects (name, status, container_id, anthropic_api_key_enc, mcp_servers, env_enc, created_at)
@@ -36,7 +36,7 @@ export function listProjects(): ProjectRow[] {
   return db.prepare('SELECT * FROM projects ORDER BY created_at DESC').all() as ProjectRow[];
 }
 
-export function updateProject(name: string, updates: Partial<Pick<ProjectRow, 'status' | 'container_id' | 'instance_type' | 'worker_instance_id'>>): void {
+export function updateProject(name: string, updates: Partial<Pick<ProjectRow, 'status' | 'container_id' | 'instance_type' | 'worker_instance_id' | 'anthropic_api_key_enc' | 'mcp_servers' | 'env_enc' | 'idle_stop_minutes' | 'budget_usd' | 'budget_action' | 'budget_exceeded_at'>>): void {
   const db = getDb();
   const sets: string[] = ["updated_at = datetime('now')"];
   const params: Record<string, any> = { name };
@@ -57,19 +57,62 @@ export function updateProject(name: string, updates: Partial<Pick<ProjectRow, 's
     sets.push('worker_instance_id = @worker_instance_id');
     params.worker_instance_id = updates.worker_instance_id;
   }
+  if (updates.anthropic_api_key_enc !== undefined) {
+    sets.push('anthropic_api_key_enc = @anthropic_api_key_enc');
+    params.anthropic_api_key_enc = updates.anthropic_api_key_enc;
+  }
+  if (updates.mcp_servers !== undefined) {
+    sets.push('mcp_servers = @mcp_servers');
+    params.mcp_servers = updates.mcp_servers;
+  }
+  if (updates.env_enc !== undefined) {
+    sets.push('env_enc = @env_enc');
+    params.env_enc = updates.env_enc;
+  }
+  if (updates.idle_stop_minutes !== undefined) {
+    sets.push('idle_stop_minutes = @idle_stop_minutes');
+    params.idle_stop_minutes = updates.idle_stop_minutes;
+  }
+  if (updates.budget_usd !== undefined) {
+    sets.push('budget_usd = @budget_usd');
+    params.budget_usd = updates.budget_usd;
+  }
+  if (updates.budget_action !== undefined) {
+    sets.push('budget_action = @budget_action');
+    params.budget_action = updates.budget_action;
+  }
+  if (updates.budget_exceeded_at !== undefined) {
+    sets.push('budget_exceeded_at = @budget_exceeded_at');
+    params.budget_exceeded_at = updates.budget_exceeded_at;
+  }
 
   db.prepare(`UPDATE projects SET ${sets.join(', ')} WHERE name = @name`).run(params);
 }
 
+/** Delete a project. Its tasks are archived rather than deleted, so a recreated project starts without a task. */
 export function deleteProject(name: string): void {
   const db = getDb();
-  db.prepare('DELETE FROM projects WHERE name = ?').run(name);
+  // ISO like the task's own timestamps, which the CLI and the dashboard parse
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE tasks SET archived_at = @now, updated_at = datetime('now'),
+        status = CASE status WHEN 'running' THEN 'stopped' ELSE status END,
+        completed_at = COALESCE(completed_at, @now),
+        completion_reason = COALESCE(completion_reason, 'project_destroyed')
+      WHERE project_name = @name AND archived_at IS NULL
+    `).run({ now, name });
+    db.prepare('DELETE FROM projects WHERE name = ?').run(name);
+  })();
 }
 
 // Tokens
 export function insertToken(row: TokenRow): void {
   const db = getDb();
-  db.prepare('INSERT INTO tokens (token_hash, label, created_at) VALUES (@token_hash, @label, @created_at)').run(row);
+  db.prepare(`
+    INSERT INTO tokens (token_hash, id, label, role, projects, expires_at, created_at)
+    VALUES (@token_hash, @id, @label, @role, @projects, @expires_at, @created_at)
+  `).run(row);
 }
 
 export function getToken(hash: string): TokenRow | undefined {
@@ -77,6 +120,21 @@ export function getToken(hash: string): TokenRow | undefined {
   return db.prepare('SELECT * FROM tokens WHERE token_hash = ?').get(hash) as TokenRow | undefined;
 }
 
+export function getTokenById(id: string): TokenRow | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM tokens WHERE id = ?').get(id) as TokenRow | undefined;
+}
+
+export function listTokens(): TokenRow[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM tokens ORDER BY created_at DESC').all() as TokenRow[];
+}
+
+export function deleteToken(id: string): void {
+  const db = getDb();
+  db.prepare('DELETE FROM tokens WHERE id = ?').run(id);
+}
+
 // Secrets
 export function insertSecret(row: SecretRow): void {
   const db = getDb();
@@ -100,8 +158,8 @@ export function deleteSecret(projectName: string, key: string): void {
 export function insertWorker(row: Omit<WorkerRow, 'last_heartbeat'>): void {
   const db = getDb();
   db.prepare(`
-    INSERT INTO workers (instance_id, project_name, instance_type, private_ip, public_ip, status, region, availability_zone, worker_token, created_at)
-    VALUES (@instance_id, @project_name, @instance_type, @private_ip, @public_ip, @status, @region, @availability_zone, @worker_token, @created_at)
+    INSERT INTO workers (instance_id, project_name, instance_type, private_ip, public_ip, status, region, availability_zone, worker_token, provider, agent_port, created_at)
+    VALUES (@instance_id, @project_name, @instance_type, @private_ip, @public_ip, @status, @region, @availability_zone, @worker_token, @provider, @agent_port, @created_at)
   `).run(row);
 }
 
@@ -159,3 +217,345 @@ export function deleteWorker(instanceId: string): void {
   const db = getDb();
   db.prepare('DELETE FROM workers WHERE instance_id = ?').run(instanceId);
 }
+
+// Tasks
+export function insertTask(row: Omit<TaskRow, 'archived_at' | 'updated_at'>): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO tasks (id, project_name, name, description, type, goal, limits, context, progress, status, started_at, completed_at, completion_reason)
+    VALUES (@id, @project_name, @name, @description, @type, @goal, @limits, @context, @progress, @status, @started_at, @completed_at, @completion_reason)
+  `).run(row);
+}
+
+export function getTask(id: string): TaskRow | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM tasks WHERE id = ?').get(id) as TaskRow | undefined;
+}
+
+export function getCurrentTask(projectName: string): TaskRow | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM tasks WHERE project_name = ? AND archived_at IS NULL ORDER BY started_at DESC, rowid DESC LIMIT 1').get(projectName) as TaskRow | undefined;
+}
+
+export function listTasks(projectName: string): TaskRow[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM tasks WHERE project_name = ? AND archived_at IS NULL ORDER BY started_at DESC, rowid DESC').all(projectName) as TaskRow[];
+}
+
+/** Tasks of destroyed projects that had this name, most recently destroyed first. */
+export function listArchivedTasks(projectName: string): TaskRow[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM tasks WHERE project_name = ? AND archived_at IS NOT NULL ORDER BY archived_at DESC, started_at DESC, rowid DESC').all(projectName) as TaskRow[];
+}
+
+export function updateTask(id: string, updates: Partial<Pick<TaskRow, 'status' | 'progress' | 'completed_at' | 'completion_reason'>>): void {
+  const db = getDb();
+  const sets: string[] = ["updated_at = datetime('now')"];
+  const params: Record<string, any> = { id };
+
+  if (updates.status !== undefined) {
+    sets.push('status = @status');
+    params.status = updates.status;
+  }
+  if (updates.progress !== undefined) {
+    sets.push('progress = @progress');
+    params.progress = updates.progress;
+  }
+  if (updates.completed_at !== undefined) {
+    sets.push('completed_at = @completed_at');
+    params.completed_at = updates.completed_at;
+  }
+  if (updates.completion_reason !== undefined) {
+    sets.push('completion_reason = @completion_reason');
+    params.completion_reason = updates.completion_reason;
+  }
+
+  db.prepare(`UPDATE tasks SET ${sets.join(', ')} WHERE id = @id`).run(params);
+}
+
+// Task questions
+export function upsertTaskQuestion(row: TaskQuestionRow): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO task_questions (task_id, id, text, context, priority, asked_at, answered_at, answer)
+    VALUES (@task_id, @id, @text, @context, @priority, @asked_at, @answered_at, @answer)
+    ON CONFLICT (task_id, id) DO UPDATE SET
+      text = excluded.text,
+      context = excluded.context,
+      priority = excluded.priority,
+      answered_at = COALESCE(task_questions.answered_at, excluded.answered_at),
+      answer = COALESCE(task_questions.answer, excluded.answer)
+  `).run(row);
+}
+
+export function getTaskQuestions(taskId: string): TaskQuestionRow[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM task_questions WHERE task_id = ? ORDER BY asked_at').all(taskId) as TaskQuestionRow[];
+}
+
+export function answerTaskQuestion(taskId: string, questionId: string, answer: string, answeredAt: string): void {
+  const db = getDb();
+  db.prepare('UPDATE task_questions SET answer = ?, answered_at = ? WHERE task_id = ? AND id = ?').run(answer, answeredAt, taskId, questionId);
+}
+
+// Audit events
+export function insertAuditEvent(row: Omit<AuditEventRow, 'id'>): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO audit_events (created_at, token_id, token_label, project_name, method, route, action, body, status, duration_ms)
+    VALUES (@created_at, @token_id, @token_label, @project_name, @method, @route, @action, @body, @status, @duration_ms)
+  `).run(row);
+}
+
+export function listAuditEvents(filters: { project?: string; action?: string; since?: string; until?: string; limit: number }): AuditEventRow[] {
+  const db = getDb();
+  const where: string[] = [];
+  const params: Record<string, any> = { limit: filters.limit };
+
+  if (filters.project !== undefined) {
+    where.push('project_name = @project');
+    params.project = filters.project;
+  }
+  if (filters.action !== undefined) {
+    where.push("action LIKE @action ESCAPE '\\'");
+    params.action = `%${filters.action.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  }
+  if (filters.since !== undefined) {
+    where.push('created_at >= @since');
+    params.since = filters.since;
+  }
+  if (filters.until !== undefined) {
+    where.push('created_at < @until');
+    params.until = filters.until;
+  }
+
+  const clause = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+  return db.prepare(`SELECT * FROM audit_events ${clause} ORDER BY id DESC LIMIT @limit`).all(params) as AuditEventRow[];
+}
+
+// Snapshots
+export function insertSnapshot(row: SnapshotRow): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO snapshots (id, project_name, label, size_bytes, created_at)
+    VALUES (@id, @project_name, @label, @size_bytes, @created_at)
+  `).run(row);
+}
+
+export function getSnapshot(projectName: string, id: string): SnapshotRow | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM snapshots WHERE project_name = ? AND id = ?').get(projectName, id) as SnapshotRow | undefined;
+}
+
+export function listSnapshots(projectName: string): SnapshotRow[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM snapshots WHERE project_name = ? ORDER BY created_at DESC').all(projectName) as SnapshotRow[];
+}
+
+export function deleteSnapshot(id: string): void {
+  const db = getDb();
+  db.prepare('DELETE FROM snapshots WHERE id = ?').run(id);
+}
+
+// Operations
+export function insertOperation(row: OperationRow): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO operations (id, type, project_name, status, params, steps, logs, error, created_at, updated_at, finished_at)
+    VALUES (@id, @type, @project_name, @status, @params, @steps, @logs, @error, @created_at, @updated_at, @finished_at)
+  `).run(row);
+}
+
+export function getOperation(id: string): OperationRow | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM operations WHERE id = ?').get(id) as OperationRow | undefined;
+}
+
+export function getActiveOperation(projectName: string): OperationRow | undefined {
+  const db = getDb();
+  return db.prepare("SELECT * FROM operations WHERE project_name = ? AND status = 'running' ORDER BY created_at DESC LIMIT 1").get(projectName) as OperationRow | undefined;
+}
+
+export function listRunningOperations(): OperationRow[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM operations WHERE status = 'running'").all() as OperationRow[];
+}
+
+export function updateOperation(id: string, updates: Partial<Pick<OperationRow, 'status' | 'steps' | 'logs' | 'error' | 'finished_at'>>): void {
+  const db = getDb();
+  const sets: string[] = ['updated_at = @updated_at'];
+  const params: Record<string, any> = { id, updated_at: new Date().toISOString() };
+
+  if (updates.status !== undefined) {
+    sets.push('status = @status');
+    params.status = updates.status;
+  }
+  if (updates.steps !== undefined) {
+    sets.push('steps = @steps');
+    params.steps = updates.steps;
+  }
+  if (updates.logs !== undefined) {
+    sets.push('logs = @logs');
+    params.logs = updates.logs;
+  }
+  if (updates.error !== undefined) {
+    sets.push('error = @error');
+    params.error = updates.error;
+  }
+  if (updates.finished_at !== undefined) {
+    sets.push('finished_at = @finished_at');
+    params.finished_at = updates.finished_at;
+  }
+
+  db.prepare(`UPDATE operations SET ${sets.join(', ')} WHERE id = @id`).run(params);
+}
+
+// Usage
+export function openWorkerUsage(row: Omit<WorkerUsageRow, 'id' | 'ended_at'>): void {
+  const db = getDb();
+  // At most one open interval per instance
+  const open = db.prepare('SELECT id FROM worker_usage WHERE instance_id = ? AND ended_at IS NULL').get(row.instance_id);
+  if (open) return;
+  db.prepare(`
+    INSERT INTO worker_usage (instance_id, project_name, instance_type, provider, started_at)
+    VALUES (@instance_id, @project_name, @instance_type, @provider, @started_at)
+  `).run(row);
+}
+
+export function closeWorkerUsage(instanceId: string, endedAt: string): void {
+  const db = getDb();
+  db.prepare('UPDATE worker_usage SET ended_at = ? WHERE instance_id = ? AND ended_at IS NULL').run(endedAt, instanceId);
+}
+
+export function listWorkerUsage(projectName: string): WorkerUsageRow[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM worker_usage WHERE project_name = ? ORDER BY started_at').all(projectName) as WorkerUsageRow[];
+}
+
+export function getTokenUsage(projectName: string): TokenUsageRow | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM token_usage WHERE project_name = ?').get(projectName) as TokenUsageRow | undefined;
+}
+
+export function upsertTokenUsage(row: TokenUsageRow): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO token_usage (project_name, input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, turns, last_report, updated_at)
+    VALUES (@project_name, @input_tokens, @output_tokens, @cache_read_tokens, @cache_write_tokens, @turns, @last_report, @updated_at)
+    ON CONFLICT(project_name) DO UPDATE SET
+      input_tokens = @input_tokens, output_tokens = @output_tokens,
+      cache_read_tokens = @cache_read_tokens, cache_write_tokens = @cache_write_tokens,
+      turns = @turns, last_report = @last_report, updated_at = @updated_at
+  `).run(row);
+}
+
+export function insertTurnUsage(row: Omit<TurnUsageRow, 'id'>): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO turn_usage (project_name, task_id, turn, source, purpose, model, input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, created_at)
+    VALUES (@project_name, @task_id, @turn, @source, @purpose, @model, @input_tokens, @output_tokens, @cache_read_tokens, @cache_write_tokens, @created_at)
+  `).run(row);
+}
+
+export function listTurnUsage(projectName: string, taskId: string): TurnUsageRow[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM turn_usage WHERE project_name = ? AND task_id = ? ORDER BY created_at, id').all(projectName, taskId) as TurnUsageRow[];
+}
+
+/** A project's recorded model calls summed per model. */
+export function sumTurnUsageByModel(projectName: string): Pick<TurnUsageRow, 'model' | 'input_tokens' | 'output_tokens' | 'cache_read_tokens' | 'cache_write_tokens'>[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT model, SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+      SUM(cache_read_tokens) AS cache_read_tokens, SUM(cache_write_tokens) AS cache_write_tokens
+    FROM turn_usage WHERE project_name = ? GROUP BY model
+  `).all(projectName) as Pick<TurnUsageRow, 'model' | 'input_tokens' | 'output_tokens' | 'cache_read_tokens' | 'cache_write_tokens'>[];
+}
+
+// Ingest cursors
+export function getIngestCursor(projectName: string, file: string): IngestCursorRow | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM ingest_cursors WHERE project_name = ? AND file = ?').get(projectName, file) as IngestCursorRow | undefined;
+}
+
+export function setIngestCursor(projectName: string, file: string, byteOffset: number, head: string | null): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO ingest_cursors (project_name, file, byte_offset, head, updated_at)
+    VALUES (?, ?, ?, ?, datetime('now'))
+    ON CONFLICT (project_name, file) DO UPDATE SET byte_offset = excluded.byte_offset, head = excluded.head, updated_at = excluded.updated_at
+  `).run(projectName, file, byteOffset, head);
+}
+
+// Supervisor events
+export function insertSupervisorEvents(rows: Omit<SupervisorEventRow, 'id'>[]): number {
+  const db = getDb();
+  // Re-reading a rotated event file from the start yields events already stored; the unique key drops them
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO supervisor_events (project_name, event_id, ts, type, state, task_id, turn, data)
+    VALUES (@project_name, @event_id, @ts, @type, @state, @task_id, @turn, @data)
+  `);
+  return db.transaction(() => rows.reduce((n, row) => n + insert.run(row).changes, 0))();
+}
+
+export function listSupervisorEvents(filters: { project: string; types?: string[]; since?: string; after?: number; limit: number }): SupervisorEventRow[] {
+  const db = getDb();
+  const where: string[] = ['project_name = @project'];
+  const params: Record<string, any> = { project: filters.project, limit: filters.limit };
+
+  if (filters.types !== undefined && filters.types.length > 0) {
+    where.push(`type IN (${filters.types.map((_, i) => `@type${i}`).join(', ')})`);
+    filters.types.forEach((t, i) => { params[`type${i}`] = t; });
+  }
+  if (filters.since !== undefined) {
+    where.push('ts >= @since');
+    params.since = filters.since;
+  }
+  if (filters.after !== undefined) {
+    where.push('id > @after');
+    params.after = filters.after;
+  }
+
+  return db.prepare(`SELECT * FROM supervisor_events WHERE ${where.join(' AND ')} ORDER BY id DESC LIMIT @limit`).all(params) as SupervisorEventRow[];
+}
+
+// Transcripts
+export function insertTranscripts(rows: Omit<TranscriptRow, 'id'>[]): number {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO transcripts (project_name, transcript_id, task_id, turn, started_at, ended_at, prompt_type, classification, result, tool_count, prompt, text, tools)
+    VALUES (@project_name, @transcript_id, @task_id, @turn, @started_at, @ended_at, @prompt_type, @classification, @result, @tool_count, @prompt, @text, @tools)
+  `);
+  return db.transaction(() => rows.reduce((n, row) => n + insert.run(row).changes, 0))();
+}
+
+export function listTranscripts(filters: { project: string; q?: string; turn?: number; taskId?: string; before?: number; limit: number }): TranscriptRow[] {
+  const db = getDb();
+  const where: string[] = ['project_name = @project'];
+  const params: Record<string, any> = { project: filters.project, limit: filters.limit };
+
+  if (filters.q !== undefined) {
+    // Case-insensitive substring match over everything the turn said and did
+    where.push("(prompt LIKE @q ESCAPE '\\' OR text LIKE @q ESCAPE '\\' OR tools LIKE @q ESCAPE '\\')");
+    params.q = `%${filters.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  }
+  if (filters.turn !== undefined) {
+    where.push('turn = @turn');
+    params.turn = filters.turn;
+  }
+  if (filters.taskId !== undefined) {
+    where.push('task_id = @taskId');
+    params.taskId = filters.taskId;
+  }
+  if (filters.before !== undefined) {
+    where.push('id < @before');
+    params.before = filters.before;
+  }
+
+  return db.prepare(`SELECT * FROM transcripts WHERE ${where.join(' AND ')} ORDER BY id DESC LIMIT @limit`).all(params) as TranscriptRow[];
+}
+
+export function getTranscript(projectName: string, id: number): TranscriptRow | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM transcripts WHERE project_name = ? AND id = ?').get(projectName, id) as TranscriptRow | undefined;
+}
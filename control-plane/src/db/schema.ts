@@ -1,5 +1,25 @@
 import type Database from 'better-sqlite3';
 
+function tasksTable(name: string): string {
+  return `CREATE TABLE IF NOT EXISTS ${name} (
+      id TEXT PRIMARY KEY,
+      project_name TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      type TEXT NOT NULL DEFAULT 'subjective',
+      goal TEXT NOT NULL DEFAULT '{}',
+      limits TEXT NOT NULL DEFAULT '{}',
+      context TEXT NOT NULL DEFAULT '{}',
+      progress TEXT NOT NULL DEFAULT '{}',
+      status TEXT NOT NULL DEFAULT 'running',
+      started_at TEXT NOT NULL,
+      completed_at TEXT,
+      completion_reason TEXT,
+      archived_at TEXT,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );`;
+}
+
 export function migrate(db: Database.Database): void {
   db.exec(`
     CREATE TABLE IF NOT EXISTS projects (
@@ -11,13 +31,21 @@ export function migrate(db: Database.Database): void {
       env_enc TEXT NOT NULL DEFAULT '{}',
       instance_type TEXT DEFAULT 't3.medium',
       worker_instance_id TEXT,
+      idle_stop_minutes INTEGER,
+      budget_usd REAL,
+      budget_action TEXT NOT NULL DEFAULT 'pause',
+      budget_exceeded_at TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
     CREATE TABLE IF NOT EXISTS tokens (
       token_hash TEXT PRIMARY KEY,
+      id TEXT,
       label TEXT NOT NULL DEFAULT '',
+      role TEXT NOT NULL DEFAULT 'admin',
+      projects TEXT,
+      expires_at TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
@@ -40,10 +68,172 @@ export function migrate(db: Database.Database): void {
       region TEXT NOT NULL,
       availability_zone TEXT,
       worker_token TEXT,
+      provider TEXT NOT NULL DEFAULT 'aws',
+      agent_port INTEGER,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       last_heartbeat TEXT,
       FOREIGN KEY (project_name) REFERENCES projects(name) ON DELETE CASCADE
     );
+
+    -- No FK to projects: task history outlives a destroyed project (archived_at marks it)
+    ${tasksTable('tasks')}
+
+    CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks(project_name, started_at);
+
+    CREATE TABLE IF NOT EXISTS task_questions (
+      task_id TEXT NOT NULL,
+      id TEXT NOT NULL,
+      text TEXT NOT NULL,
+      context TEXT,
+      priority TEXT NOT NULL DEFAULT 'question',
+      asked_at TEXT NOT NULL,
+      answered_at TEXT,
+      answer TEXT,
+      PRIMARY KEY (task_id, id),
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+
+    -- No foreign key to projects: the trail must outlive destroyed projects
+    CREATE TABLE IF NOT EXISTS audit_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TEXT NOT NULL,
+      token_id TEXT,
+      token_label TEXT,
+      project_name TEXT,
+      method TEXT NOT NULL,
+      route TEXT NOT NULL,
+      action TEXT NOT NULL,
+      body TEXT,
+      status INTEGER NOT NULL,
+      duration_ms INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_created ON audit_events(created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_project ON audit_events(project_name, created_at);
+
+    -- No FK to projects: snapshots outlive a destroyed project and can restore a recreated one
+    CREATE TABLE IF NOT EXISTS snapshots (
+      id TEXT PRIMARY KEY,
+      project_name TEXT NOT NULL,
+      label TEXT,
+      size_bytes INTEGER NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_snapshots_project ON snapshots(project_name, created_at);
+
+    -- Long-running project actions; no FK so the record of a failed operation survives the project
+    CREATE TABLE IF NOT EXISTS operations (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      project_name TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      params TEXT NOT NULL DEFAULT '{}',
+      steps TEXT NOT NULL DEFAULT '[]',
+      logs TEXT NOT NULL DEFAULT '[]',
+      error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      finished_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_operations_project ON operations(project_name, created_at);
+
+    -- Billable run time of worker instances: one row per launch/start, closed on stop/terminate
+    CREATE TABLE IF NOT EXISTS worker_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      instance_id TEXT NOT NULL,
+      project_name TEXT NOT NULL,
+      instance_type TEXT NOT NULL,
+      provider TEXT NOT NULL DEFAULT 'aws',
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      FOREIGN KEY (project_name) REFERENCES projects(name) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_worker_usage_project ON worker_usage(project_name, started_at);
+
+    -- Anthropic token totals, accumulated from the gateway's counters (which reset when it restarts)
+    CREATE TABLE IF NOT EXISTS token_usage (
+      project_name TEXT PRIMARY KEY,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+      turns INTEGER NOT NULL DEFAULT 0,
+      last_report TEXT NOT NULL DEFAULT '{}',
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (project_name) REFERENCES projects(name) ON DELETE CASCADE
+    );
+
+    -- One row per model call the gateway saw: agent turns and supervisor memory calls
+    CREATE TABLE IF NOT EXISTS turn_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_name TEXT NOT NULL,
+      task_id TEXT,
+      turn INTEGER,
+      source TEXT NOT NULL,
+      purpose TEXT,
+      model TEXT,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (project_name) REFERENCES projects(name) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_turn_usage_task ON turn_usage(project_name, task_id, created_at);
+
+    -- Structured supervisor events, ingested from each container's .supervisor-events.jsonl
+    CREATE TABLE IF NOT EXISTS supervisor_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_name TEXT NOT NULL,
+      event_id TEXT NOT NULL,
+      ts TEXT NOT NULL,
+      type TEXT NOT NULL,
+      state TEXT,
+      task_id TEXT,
+      turn INTEGER,
+      data TEXT NOT NULL DEFAULT '{}',
+      UNIQUE (project_name, event_id),
+      FOREIGN KEY (project_name) REFERENCES projects(name) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_supervisor_events_type ON supervisor_events(project_name, type, ts);
+
+    -- Read positions in each container's append-only JSONL files, so ingestion resumes where it stopped
+    CREATE TABLE IF NOT EXISTS ingest_cursors (
+      project_name TEXT NOT NULL,
+      file TEXT NOT NULL,
+      byte_offset INTEGER NOT NULL DEFAULT 0,
+      head TEXT,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (project_name, file),
+      FOREIGN KEY (project_name) REFERENCES projects(name) ON DELETE CASCADE
+    );
+
+    -- Per-turn transcripts, ingested from each container's .transcripts.jsonl
+    CREATE TABLE IF NOT EXISTS transcripts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_name TEXT NOT NULL,
+      transcript_id TEXT NOT NULL,
+      task_id TEXT,
+      turn INTEGER NOT NULL,
+      started_at TEXT NOT NULL,
+      ended_at TEXT NOT NULL,
+      prompt_type TEXT,
+      classification TEXT,
+      result TEXT,
+      tool_count INTEGER NOT NULL DEFAULT 0,
+      prompt TEXT NOT NULL DEFAULT '',
+      text TEXT NOT NULL DEFAULT '',
+      tools TEXT NOT NULL DEFAULT '[]',
+      UNIQUE (project_name, transcript_id),
+      FOREIGN KEY (project_name) REFERENCES projects(name) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_transcripts_turn ON transcripts(project_name, turn);
   `);
 
   // Add columns to existing projects table (safe to run multiple times)
@@ -56,4 +246,77 @@ export function migrate(db: Database.Database): void {
   if (!columnNames.has('worker_instance_id')) {
     db.exec('ALTER TABLE projects ADD COLUMN worker_instance_id TEXT');
   }
+  if (!columnNames.has('idle_stop_minutes')) {
+    db.exec('ALTER TABLE projects ADD COLUMN idle_stop_minutes INTEGER');
+  }
+  if (!columnNames.has('budget_usd')) {
+    db.exec('ALTER TABLE projects ADD COLUMN budget_usd REAL');
+    db.exec("ALTER TABLE projects ADD COLUMN budget_action TEXT NOT NULL DEFAULT 'pause'");
+    db.exec('ALTER TABLE projects ADD COLUMN budget_exceeded_at TEXT');
+  }
+
+  // Pluggable compute providers — existing workers are EC2 instances on the default port
+  const workerColumns = new Set((db.pragma('table_info(workers)') as { name: string }[]).map(c => c.name));
+
+  if (!workerColumns.has('provider')) {
+    db.exec("ALTER TABLE workers ADD COLUMN provider TEXT NOT NULL DEFAULT 'aws'");
+  }
+  if (!workerColumns.has('agent_port')) {
+    db.exec('ALTER TABLE workers ADD COLUMN agent_port INTEGER');
+  }
+
+  const taskColumns = new Set((db.pragma('table_info(tasks)') as { name: string }[]).map(c => c.name));
+  if (!taskColumns.has('archived_at')) {
+    db.exec('ALTER TABLE tasks ADD COLUMN archived_at TEXT');
+  }
+
+  // Tasks tables created with ON DELETE CASCADE lose their history on destroy: rebuild them without the FK.
+  // Foreign keys are off during the copy so dropping the old table leaves task_questions alone.
+  if ((db.pragma('foreign_key_list(tasks)') as unknown[]).length > 0) {
+    db.pragma('foreign_keys = OFF');
+    db.transaction(() => {
+      db.exec(`
+        ${tasksTable('tasks_new')}
+        INSERT INTO tasks_new (id, project_name, name, description, type, goal, limits, context, progress, status, started_at, completed_at, completion_reason, archived_at, updated_at)
+        SELECT id, project_name, name, description, type, goal, limits, context, progress, status, started_at, completed_at, completion_reason, archived_at, updated_at FROM tasks;
+        DROP TABLE tasks;
+        ALTER TABLE tasks_new RENAME TO tasks;
+        CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks(project_name, started_at);
+      `);
+    })();
+    db.pragma('foreign_keys = ON');
+  }
+
+  // Workers that were already running before usage tracking existed are billed from their launch
+  db.exec(`
+    INSERT INTO worker_usage (instance_id, project_name, instance_type, provider, started_at)
+    SELECT instance_id, project_name, instance_type, provider, created_at FROM workers w
+    WHERE status NOT IN ('stopped', 'terminated')
+      AND NOT EXISTS (SELECT 1 FROM worker_usage u WHERE u.instance_id = w.instance_id)
+  `);
+
+  const operationColumns = new Set((db.pragma('table_info(operations)') as { name: string }[]).map(c => c.name));
+  if (!operationColumns.has('logs')) {
+    db.exec("ALTER TABLE operations ADD COLUMN logs TEXT NOT NULL DEFAULT '[]'");
+  }
+
+  // Role-scoped tokens — tokens created before scoping existed stay full admins
+  const tokenColumns = new Set((db.pragma('table_info(tokens)') as { name: string }[]).map(c => c.name));
+
+  if (!tokenColumns.has('id')) {
+    db.exec('ALTER TABLE tokens ADD COLUMN id TEXT');
+  }
+  if (!tokenColumns.has('role')) {
+    db.exec("ALTER TABLE tokens ADD COLUMN role TEXT NOT NULL DEFAULT 'admin'");
+  }
+  if (!tokenColumns.has('projects')) {
+    db.exec('ALTER TABLE tokens ADD COLUMN projects TEXT');
+  }
+  if (!tokenColumns.has('expires_at')) {
+    db.exec('ALTER TABLE tokens ADD COLUMN expires_at TEXT');
+  }
+
+  // Tokens seeded outside the control plane (infra/user-data.sh) have no id yet
+  db.exec('UPDATE tokens SET id = substr(token_hash, 1, 12) WHERE id IS NULL');
+  db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_tokens_id ON tokens(id)');
 }
@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import * as db from '../db/index.js';
+import type { AuthContext } from './auth.js';
+
+const REDACTED = '[REDACTED]';
+const MAX_BODY_CHARS = 4096;
+
+// Field names whose values are credentials (secret values, API keys, tokens)
+const SENSITIVE_KEY = /(^value$|secret|token|password|api_?key)/i;
+
+/** Deep-copy a request body with every credential replaced. `env` maps are redacted wholesale. */
+export function redactBody(body: unknown): unknown {
+  if (Array.isArray(body)) return body.map(redactBody);
+  if (!body || typeof body !== 'object') return body;
+
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+    if (SENSITIVE_KEY.test(key)) {
+      out[key] = REDACTED;
+    } else if (key === 'env' && value && typeof value === 'object') {
+      out[key] = Object.fromEntries(Object.keys(value).map((k) => [k, REDACTED]));
+    } else {
+      out[key] = redactBody(value);
+    }
+  }
+  return out;
+}
+
+function serializeBody(body: unknown): string | null {
+  if (body === undefined || body === null) return null;
+  if (typeof body === 'object' && Object.keys(body).length === 0) return null;
+  const json = JSON.stringify(redactBody(body));
+  return json.length > MAX_BODY_CHARS ? json.slice(0, MAX_BODY_CHARS) + '…' : json;
+}
+
+export function recordAuditEvent(event: {
+  auth: AuthContext | null;
+  projectName: string | null;
+  method: string;
+  route: string;
+  action: string;
+  body?: unknown;
+  status: number;
+  startedAt: number;
+}): void {
+  try {
+    db.insertAuditEvent({
+      created_at: new Date(event.startedAt).toISOString(),
+      token_id: event.auth?.tokenId ?? null,
+      token_label: event.auth?.label ?? null,
+      project_name: event.projectName,
+      method: event.method,
+      route: event.route,
+      action: event.action,
+      body: serializeBody(event.body),
+      status: event.status,
+      duration_ms: Date.now() - event.startedAt,
+    });
+  } catch (err: any) {
+    // Never fail a request because the audit write failed
+    console.error(`Audit write failed: ${err.message}`);
+  }
+}
+
+/**
+ * Records every mutating /api request once the response is sent.
+ * Mounted before requireAuth so rejected attempts are recorded too.
+ */
+export function auditRequests(req: Request, res: Response, next: NextFunction): void {
+  if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') {
+    next();
+    return;
+  }
+
+  const startedAt = Date.now();
+  const route = req.originalUrl.split('?')[0];
+
+  res.on('finish', () => {
+    const match = route.match(/^\/api\/projects\/([^/]+)/);
+    const projectName = match
+      ? decodeURIComponent(match[1])
+      : route === '/api/projects' && typeof req.body?.name === 'string' ? req.body.name : null;
+
+    // req.route is only set when a handler matched; fall back to the concrete path
+    const pattern = req.route ? `${req.baseUrl}${req.route.path === '/' ? '' : req.route.path}` : route;
+
+    recordAuditEvent({
+      auth: (res.locals.auth as AuthContext | undefined) ?? null,
+      projectName,
+      method: req.method,
+      route,
+      action: `${req.method} ${pattern}`,
+      body: req.body,
+      status: res.statusCode,
+      startedAt,
+    });
+  });
+
+  next();
+}
+
+const router = Router();
+
+const AuditQuerySchema = z.object({
+  project: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+// GET /api/audit — Query the audit log (newest first)
+router.get('/', (req, res) => {
+  const parsed = AuditQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  const { project, action, since, until, limit } = parsed.data;
+  const events = db.listAuditEvents({
+    project,
+    action,
+    since: since ? new Date(since).toISOString() : undefined,
+    until: until ? new Date(until).toISOString() : undefined,
+    limit: limit ?? 100,
+  }).map((e) => ({ ...e, body: e.body ? safeParse(e.body) : null }));
+
+  res.json({ events });
+});
+
+function safeParse(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json; // truncated bodies are returned as text
+  }
+}
+
+export { router as auditRouter };
@@ -1,6 +1,79 @@
 import { createHash } from 'crypto';
 import type { Request, Response, NextFunction } from 'express';
 import { getToken } from '../db/index.js';
+import type { TokenRole, TokenRow } from '../types.js';
+
+export interface AuthContext {
+  tokenId: string;
+  label: string;
+  role: TokenRole;
+  projects: string[] | null; // null = all projects
+}
+
+// Routes an operator token may call besides reads: tasks, directives and agent messages
+const OPERATOR_ROUTES = [
+  /^\/projects\/[^/]+\/task(\/(stop|resume|respond))?$/,
+  /^\/projects\/[^/]+\/directives(\/[^/]+)?$/,
+  /^\/projects\/[^/]+\/message$/,
+];
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function resolveToken(token: string): { auth?: AuthContext; error?: string } {
+  const row = getToken(hashToken(token));
+  if (!row) return { error: 'Invalid token' };
+  if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) {
+    return { error: 'Token expired' };
+  }
+  return { auth: toAuthContext(row) };
+}
+
+function toAuthContext(row: TokenRow): AuthContext {
+  let projects: string[] | null = null;
+  if (row.projects) {
+    try {
+      const parsed = JSON.parse(row.projects);
+      projects = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      projects = []; // unreadable scope grants nothing rather than everything
+    }
+  }
+  return { tokenId: row.id, label: row.label, role: row.role || 'admin', projects };
+}
+
+/** Project name addressed by an /api-relative path, e.g. "/projects/foo/task" → "foo". */
+function projectFromPath(path: string): string | null {
+  const match = path.match(/^\/projects\/([^/]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+export function canAccessProject(auth: AuthContext, projectName: string): boolean {
+  return auth.projects === null || auth.projects.includes(projectName);
+}
+
+function isAllowed(auth: AuthContext, method: string, path: string): boolean {
+  const project = projectFromPath(path);
+  if (project && !canAccessProject(auth, project)) return false;
+
+  // Token management and the audit log are reserved for unscoped admins
+  if (path === '/tokens' || path.startsWith('/tokens/') || path === '/audit') {
+    return auth.role === 'admin' && auth.projects === null;
+  }
+
+  if (auth.role === 'admin') {
+    // Scoped admins can manage their projects but not create new ones (cloning included)
+    return auth.projects === null || !(method === 'POST' && (path === '/projects' || /^\/projects\/[^/]+\/clone$/.test(path)));
+  }
+  if (method === 'GET' || method === 'HEAD') return true;
+  if (auth.role === 'operator') return OPERATOR_ROUTES.some((re) => re.test(path));
+  return false;
+}
+
+export function getAuth(res: Response): AuthContext {
+  return res.locals.auth as AuthContext;
+}
 
 export function requireAuth(req: Request, res: Response, next: NextFunction): void {
   const header = req.headers.authorization;
@@ -9,20 +82,31 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
     return;
   }
 
-  const token = header.slice(7);
-  const hash = createHash('sha256').update(token).digest('hex');
-  const row = getToken(hash);
+  const { auth, error } = resolveToken(header.slice(7));
+  if (!auth) {
+    res.status(401).json({ error: 'unauthorized', message: error });
+    return;
+  }
+
+  // Set before the role check so rejected calls are attributed in the audit log
+  res.locals.auth = auth;
 
-  if (!row) {
-    res.status(401).json({ error: 'unauthorized', message: 'Invalid token' });
+  if (!isAllowed(auth, req.method, req.path)) {
+    res.status(403).json({ error: 'forbidden', message: `Token role "${auth.role}" cannot ${req.method} ${req.baseUrl}${req.path}` });
     return;
   }
 
   next();
 }
 
-// For WebSocket upgrade authentication (from query param)
-export function authenticateWsToken(token: string): boolean {
-  const hash = createHash('sha256').update(token).digest('hex');
-  return !!getToken(hash);
+const ROLE_RANK: Record<TokenRole, number> = { read: 0, operator: 1, admin: 2 };
+
+// For WebSocket upgrade authentication (from query param).
+// Exec needs admin; chat takes read tokens, which the proxy limits to watching as observers.
+export function authenticateWsToken(token: string, projectName: string | null, minRole: TokenRole): AuthContext | null {
+  const { auth } = resolveToken(token);
+  if (!auth) return null;
+  if (projectName && !canAccessProject(auth, projectName)) return null;
+  if (ROLE_RANK[auth.role] < ROLE_RANK[minRole]) return null;
+  return auth;
 }
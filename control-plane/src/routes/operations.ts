@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import * as db from '../db/index.js';
+import { toOperationResponse } from '../services/operations.js';
+import { getAuth, canAccessProject } from './auth.js';
+
+const router = Router();
+
+// GET /api/operations/:id — Status and per-step progress of a long-running operation
+router.get('/:id', (req, res) => {
+  const op = db.getOperation(req.params.id);
+  // Operations on projects the token can't see are indistinguishable from missing ones
+  if (!op || !canAccessProject(getAuth(res), op.project_name)) {
+    res.status(404).json({ error: 'not_found', message: 'Operation not found' });
+    return;
+  }
+  res.json(toOperationResponse(op));
+});
+
+export { router as operationsRouter };
@@ -1,24 +1,49 @@
 import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import { posix } from 'path';
+import { pipeline } from 'stream/promises';
 import { z } from 'zod';
 import * as db from '../db/index.js';
-import { encrypt } from '../services/secrets.js';
+import { encrypt, decrypt } from '../services/secrets.js';
 import {
-  createProjectContainer,
-  destroyProjectContainer,
-  restartProjectContainer,
   getContainerHealth,
   execInProjectContainer,
-  writeTaskFile,
+  resolveProjectStatus,
+  runInProjectContainer,
+  DEFAULT_EXEC_TIMEOUT_MS,
+  MAX_EXEC_TIMEOUT_MS,
+  getProjectArchive,
   getProjectMemory,
   getProjectLogs,
   sendMessageToAgent,
   controlSupervisor,
 } from '../services/container-manager.js';
 import { getContainerInfo, getContainerIp } from '../services/docker.js';
-import { provisionWorker, terminateWorker, resizeWorker, getWorkerUrl } from '../services/worker-provisioner.js';
+import { getWorkerUrl } from '../services/worker-provisioner.js';
+import { startCreate, startRestart, startDestroy, startStop, startStart, startResize } from '../services/project-operations.js';
+import { toOperationResponse } from '../services/operations.js';
+import { getPolicyResponse } from '../services/idle-policy.js';
+import { collectTokenUsage, getProjectUsage, getTaskUsage } from '../services/usage.js';
+import { getAuth, canAccessProject } from './auth.js';
+import { cloneProject } from '../services/clone.js';
+import { ingestSupervisorEvents, toEventResponse } from '../services/supervisor-events.js';
+import { ingestTranscripts, toTranscriptSummary, toTranscriptResponse } from '../services/transcripts.js';
+import { LogQuerySchema, createLogFilter, filterLogText, scanLines } from '../services/log-stream.js';
+import { createSnapshot, startRestore, removeSnapshot } from '../services/snapshots.js';
+import { resolveWorkspacePath, statProjectPath, readProjectFile, writeProjectFile, extractIntoProjectDir } from '../services/files.js';
+import { insertTaskFromFile, pushTaskToContainer, syncTaskFromContainer, getSyncedCurrentTask, toTaskFile } from '../services/tasks.js';
 
 const router = Router();
 
+/** Lifecycle actions are serialized per project: reply 409 while another operation is running. */
+function rejectIfBusy(res: Response, projectName: string): boolean {
+  const active = db.getActiveOperation(projectName);
+  if (!active) return false;
+  res.status(409).json({ error: 'operation_in_progress', message: `Operation ${active.id} (${active.type}) is still running`, operation_id: active.id });
+  return true;
+}
+
 const CreateProjectSchema = z.object({
   name: z.string().min(1).max(64).regex(/^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/, 'Name must be lowercase alphanumeric with dashes'),
   anthropicApiKey: z.string().min(1),
@@ -56,68 +81,73 @@ router.post('/', async (req, res) => {
     created_at: new Date().toISOString(),
   });
 
-  try {
-    // If instanceType is specified, provision a dedicated worker
-    if (instanceType) {
-      const instanceId = await provisionWorker(name, instanceType);
-
-      // Return immediately — worker provisioning happens in background
-      const project = db.getProject(name)!;
-      res.status(201).json({
-        name: project.name,
-        status: 'provisioning',
-        created_at: project.created_at,
-        instance_type: instanceType,
-        worker_instance_id: instanceId,
-        mcp_servers: JSON.parse(project.mcp_servers),
-      });
-      return;
-    }
+  // Runs in the background; poll GET /api/operations/:id for progress
+  const op = startCreate(name, instanceType);
+  const project = db.getProject(name)!;
+  res.status(202).json({
+    name: project.name,
+    status: instanceType ? 'provisioning' : project.status,
+    created_at: project.created_at,
+    instance_type: instanceType,
+    mcp_servers: JSON.parse(project.mcp_servers),
+    operation_id: op.id,
+    operation: toOperationResponse(op),
+  });
+});
 
-    // No instanceType — create container locally (legacy behavior)
-    await createProjectContainer(name);
-    const project = db.getProject(name)!;
-    res.status(201).json({
-      name: project.name,
-      status: project.status,
-      created_at: project.created_at,
-      container_id: project.container_id,
-      mcp_servers: JSON.parse(project.mcp_servers),
-    });
-  } catch (err: any) {
-    res.status(500).json({ error: 'container_error', message: err.message });
+const CloneProjectSchema = z.object({
+  name: CreateProjectSchema.shape.name,
+  instanceType: z.string().optional(),
+  resetTask: z.boolean().optional(),
+});
+
+// POST /api/projects/:name/clone — Copy a project (settings, secrets, workspace) under a new name
+router.post('/:name/clone', async (req, res) => {
+  const source = db.getProject(req.params.name);
+  if (!source) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const parsed = CloneProjectSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
   }
+
+  const { name, instanceType, resetTask } = parsed.data;
+  if (db.getProject(name)) {
+    res.status(409).json({ error: 'conflict', message: `Project "${name}" already exists` });
+    return;
+  }
+
+  const op = cloneProject(source, name, { instanceType, resetTask });
+  const project = db.getProject(name)!;
+  res.status(202).json({
+    name: project.name,
+    status: instanceType ? 'provisioning' : project.status,
+    created_at: project.created_at,
+    cloned_from: source.name,
+    instance_type: instanceType,
+    mcp_servers: JSON.parse(project.mcp_servers),
+    operation_id: op.id,
+    operation: toOperationResponse(op),
+  });
 });
 
 // GET /api/projects — List all projects
 router.get('/', async (_req, res) => {
-  const projects = db.listProjects();
+  const auth = getAuth(res);
+  const projects = db.listProjects().filter((p) => canAccessProject(auth, p.name));
   const result = await Promise.all(
     projects.map(async (p) => {
-      // Check worker status if this project has a worker
       const worker = db.getWorkerByProject(p.name);
-      if (worker) {
-        return {
-          name: p.name,
-          status: worker.status === 'ready' ? (p.status === 'running' ? 'running' : p.status) : worker.status,
-          created_at: p.created_at,
-          instance_type: p.instance_type,
-          worker_instance_id: worker.instance_id,
-          mcp_servers: JSON.parse(p.mcp_servers),
-        };
-      }
-
-      // Sync status with Docker for local containers
-      const container = await getContainerInfo(p.name);
-      const actualStatus = container ? container.status : p.status === 'creating' ? 'creating' : 'stopped';
-      if (actualStatus !== p.status) {
-        db.updateProject(p.name, { status: actualStatus });
-      }
       return {
         name: p.name,
-        status: actualStatus,
+        status: await resolveProjectStatus(p),
         created_at: p.created_at,
         instance_type: p.instance_type,
+        ...(worker ? { worker_instance_id: worker.instance_id } : {}),
         mcp_servers: JSON.parse(p.mcp_servers),
       };
     })
@@ -165,6 +195,9 @@ router.get('/:name', async (req, res) => {
     }
   }
 
+  // Bring the stored per-turn usage up to date before reporting it
+  if (health) await collectTokenUsage(project.name, health).catch(() => {});
+
   res.json({
     name: project.name,
     status,
@@ -174,32 +207,97 @@ router.get('/:name', async (req, res) => {
     worker_instance_id: project.worker_instance_id,
     mcp_servers: JSON.parse(project.mcp_servers),
     task,
+    task_usage: task?.id ? getTaskUsage(project.name, task.id) : null,
     instance: health?.instance || null,
   });
 });
 
-// DELETE /api/projects/:name — Destroy a project
-router.delete('/:name', async (req, res) => {
+const UpdateProjectSchema = z.object({
+  anthropicApiKey: z.string().min(1).optional(),
+  mcpServers: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  unsetEnv: z.array(z.string()).optional(),
+  restart: z.boolean().optional(),
+});
+
+// PATCH /api/projects/:name — Update API key, MCP servers or env (merged); `restart` applies it as a restart operation
+router.patch('/:name', async (req, res) => {
   const project = db.getProject(req.params.name);
   if (!project) {
     res.status(404).json({ error: 'not_found', message: 'Project not found' });
     return;
   }
 
-  try {
-    await destroyProjectContainer(project.name);
+  const parsed = UpdateProjectSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  const { anthropicApiKey, mcpServers, env, unsetEnv, restart } = parsed.data;
 
-    // Terminate worker if one exists
-    const worker = db.getWorkerByProject(project.name);
-    if (worker && worker.status !== 'terminated') {
-      await terminateWorker(worker.instance_id);
+  // Check before saving anything, so a rejected restart doesn't leave the update half-applied
+  if (restart) {
+    if (rejectIfBusy(res, project.name)) return;
+    if (db.getWorkerByProject(project.name)?.status === 'stopped') {
+      res.status(409).json({ error: 'project_stopped', message: `Project "${project.name}" is stopped. Start it with: synv2 start ${project.name}` });
+      return;
     }
+  }
 
-    db.deleteProject(project.name);
-    res.json({ ok: true });
-  } catch (err: any) {
-    res.status(500).json({ error: 'destroy_error', message: err.message });
+  const updates: Parameters<typeof db.updateProject>[1] = {};
+
+  if (anthropicApiKey) {
+    updates.anthropic_api_key_enc = encrypt(anthropicApiKey);
+  }
+  if (mcpServers) {
+    updates.mcp_servers = JSON.stringify(mcpServers);
+  }
+
+  let projectEnv: Record<string, string> = {};
+  try {
+    projectEnv = JSON.parse(decrypt(project.env_enc));
+  } catch {
+    // no extra env
+  }
+  if (env || unsetEnv) {
+    projectEnv = { ...projectEnv, ...env };
+    for (const key of unsetEnv || []) delete projectEnv[key];
+    updates.env_enc = encrypt(JSON.stringify(projectEnv));
+  }
+
+  db.updateProject(project.name, updates);
+
+  const updated = db.getProject(project.name)!;
+  const body = {
+    name: updated.name,
+    status: updated.status,
+    mcp_servers: JSON.parse(updated.mcp_servers),
+    env_keys: Object.keys(projectEnv).sort(),
+  };
+
+  if (!restart) {
+    res.json(body);
+    return;
   }
+
+  // Same background restart as POST /:name/restart; poll GET /api/operations/:id
+  const op = startRestart(project.name);
+  res.status(202).json({ ...body, operation_id: op.id, operation: toOperationResponse(op) });
+});
+
+// DELETE /api/projects/:name — Destroy a project
+router.delete('/:name', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  if (rejectIfBusy(res, project.name)) return;
+
+  const op = startDestroy(project.name);
+  res.status(202).json({ ok: true, operation_id: op.id, operation: toOperationResponse(op) });
 });
 
 // POST /api/projects/:name/restart — Restart a project container
@@ -210,12 +308,56 @@ router.post('/:name/restart', async (req, res) => {
     return;
   }
 
-  try {
-    await restartProjectContainer(project.name);
-    res.json({ ok: true, status: 'running' });
-  } catch (err: any) {
-    res.status(500).json({ error: 'restart_error', message: err.message });
+  if (rejectIfBusy(res, project.name)) return;
+  if (db.getWorkerByProject(project.name)?.status === 'stopped') {
+    res.status(409).json({ error: 'project_stopped', message: `Project "${project.name}" is stopped. Start it with: synv2 start ${project.name}` });
+    return;
+  }
+
+  const op = startRestart(project.name);
+  res.status(202).json({ ok: true, operation_id: op.id, operation: toOperationResponse(op) });
+});
+
+// POST /api/projects/:name/stop — Hibernate: stop the container and worker instance, keep the workspace
+router.post('/:name/stop', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  if (rejectIfBusy(res, project.name)) return;
+  const worker = db.getWorkerByProject(project.name);
+  if (project.status === 'stopped' && (!worker || worker.status === 'stopped')) {
+    res.status(409).json({ error: 'conflict', message: `Project "${project.name}" is already stopped` });
+    return;
+  }
+
+  const op = startStop(project.name);
+  res.status(202).json({ ok: true, operation_id: op.id, operation: toOperationResponse(op) });
+});
+
+// POST /api/projects/:name/start — Bring a stopped project back up; the supervisor resumes its task
+router.post('/:name/start', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  if (rejectIfBusy(res, project.name)) return;
+  if (project.status === 'running') {
+    res.status(409).json({ error: 'conflict', message: `Project "${project.name}" is already running` });
+    return;
   }
+  const worker = db.getWorkerByProject(project.name);
+  if (worker && worker.status !== 'stopped' && worker.status !== 'ready') {
+    res.status(409).json({ error: 'worker_unavailable', message: `Worker ${worker.instance_id} is ${worker.status}` });
+    return;
+  }
+
+  const op = startStart(project.name);
+  res.status(202).json({ ok: true, operation_id: op.id, operation: toOperationResponse(op) });
 });
 
 // POST /api/projects/:name/resize — Resize a project's worker instance
@@ -242,27 +384,83 @@ router.post('/:name/resize', async (req, res) => {
     return;
   }
 
-  try {
-    // Destroy container first (keeps workspace volume)
-    await destroyProjectContainer(project.name);
-    db.updateProject(project.name, { status: 'resizing' as any });
+  if (rejectIfBusy(res, project.name)) return;
 
-    // Resize the EC2 instance (stop → change type → start)
-    await resizeWorker(worker.instance_id, parsed.data.instanceType);
+  // Runs in the background; poll GET /api/operations/:id for progress
+  const op = startResize(worker, parsed.data.instanceType);
+  res.status(202).json({ ok: true, instanceType: parsed.data.instanceType, operation_id: op.id, operation: toOperationResponse(op) });
+});
 
-    // Recreate container on resized worker
-    await createProjectContainer(project.name);
+const PolicySchema = z.object({
+  idleStopMinutes: z.number().int().min(1).max(7 * 24 * 60).nullable().optional(),
+  budgetUsd: z.number().positive().nullable().optional(),
+  budgetAction: z.enum(['pause', 'stop']).optional(),
+});
 
-    res.json({ ok: true, instanceType: parsed.data.instanceType });
-  } catch (err: any) {
-    res.status(500).json({ error: 'resize_error', message: err.message });
+// GET /api/projects/:name/policy — Idle auto-stop and budget policy, and how long the project has been idle
+router.get('/:name/policy', (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
   }
+  res.json(getPolicyResponse(project));
+});
+
+// PUT /api/projects/:name/policy — Update the policy; omitted fields are left as they are
+router.put('/:name/policy', (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const parsed = PolicySchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  const { idleStopMinutes, budgetUsd, budgetAction } = parsed.data;
+  const hasWorker = !!db.getWorkerByProject(project.name);
+  if (idleStopMinutes != null && !hasWorker) {
+    res.status(400).json({ error: 'no_worker', message: 'Idle stop only applies to projects with a dedicated worker (--instance-type).' });
+    return;
+  }
+  if (budgetAction === 'stop' && !hasWorker) {
+    res.status(400).json({ error: 'no_worker', message: 'Budget action "stop" needs a dedicated worker; use "pause" for local projects.' });
+    return;
+  }
+
+  const updates: Parameters<typeof db.updateProject>[1] = {};
+  if (idleStopMinutes !== undefined) updates.idle_stop_minutes = idleStopMinutes;
+  if (budgetAction !== undefined) updates.budget_action = budgetAction;
+  if (budgetUsd !== undefined) {
+    updates.budget_usd = budgetUsd;
+    // A new budget is enforced afresh on the next reconcile pass
+    updates.budget_exceeded_at = null;
+  }
+  db.updateProject(project.name, updates);
+  res.json(getPolicyResponse(db.getProject(project.name)!));
+});
+
+// GET /api/projects/:name/usage — Instance-hours, token usage and their cost
+router.get('/:name/usage', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  // Best effort: fall back to what the last reconcile pass collected
+  await collectTokenUsage(project.name).catch(() => {});
+  res.json(getProjectUsage(project));
 });
 
 // POST /api/projects/:name/exec — Execute a command in the project container
 const ExecSchema = z.object({
   cmd: z.array(z.string()).min(1),
-  timeout: z.number().optional(),
+  timeout: z.number().int().min(1000, 'timeout is in milliseconds (min 1000)').max(MAX_EXEC_TIMEOUT_MS).optional(),
 });
 
 router.post('/:name/exec', async (req, res) => {
@@ -279,8 +477,8 @@ router.post('/:name/exec', async (req, res) => {
   }
 
   try {
-    const output = await execInProjectContainer(project.name, parsed.data.cmd);
-    res.json({ ok: true, output });
+    const result = await runInProjectContainer(project.name, parsed.data.cmd, parsed.data.timeout ?? DEFAULT_EXEC_TIMEOUT_MS);
+    res.json(result);
   } catch (err: any) {
     res.status(500).json({ error: 'exec_error', message: err.message });
   }
@@ -333,7 +531,7 @@ router.post('/:name/task', async (req, res) => {
 
   const taskDef = {
     version: 1,
-    id: `task_${Date.now()}`,
+    id: `task_${randomBytes(6).toString('hex')}`,
     name: parsed.data.name,
     description: parsed.data.description || '',
     type: parsed.data.type || 'subjective',
@@ -363,13 +561,55 @@ router.post('/:name/task', async (req, res) => {
   };
 
   try {
-    await writeTaskFile(project.name, taskDef);
-    res.status(201).json({ ok: true, task: taskDef });
+    // A new task replaces whatever was running before it
+    const previous = db.getCurrentTask(project.name);
+    if (previous && previous.status === 'running') {
+      db.updateTask(previous.id, {
+        status: 'stopped',
+        completed_at: taskDef.started_at,
+        completion_reason: 'replaced',
+      });
+    }
+
+    insertTaskFromFile(project.name, taskDef);
+    const task = await pushTaskToContainer(project.name, taskDef.id);
+    res.status(201).json({ ok: true, task });
   } catch (err: any) {
     res.status(500).json({ error: 'exec_error', message: err.message });
   }
 });
 
+const TasksQuerySchema = z.object({
+  archived: z.enum(['0', '1', 'true', 'false']).optional(),
+});
+
+// GET /api/projects/:name/tasks — List current and past tasks (?archived=1: those of destroyed projects of this name)
+router.get('/:name/tasks', async (req, res) => {
+  const parsed = TasksQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  // Archived tasks outlive their project, so they are served whether or not the name exists now
+  if (parsed.data.archived === '1' || parsed.data.archived === 'true') {
+    const tasks = db.listArchivedTasks(req.params.name).map((row) => ({ ...toTaskFile(row), archived_at: row.archived_at }));
+    res.json({ tasks });
+    return;
+  }
+
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  // Pick up progress from a running container; history is served from the database regardless
+  await syncTaskFromContainer(project.name);
+  const tasks = db.listTasks(project.name).map(toTaskFile);
+  res.json({ tasks });
+});
+
 // POST /api/projects/:name/task/resume — Resume a stopped/completed task
 router.post('/:name/task/resume', async (req, res) => {
   const project = db.getProject(req.params.name);
@@ -379,26 +619,14 @@ router.post('/:name/task/resume', async (req, res) => {
   }
 
   try {
-    let output: string;
-    try {
-      output = await execInProjectContainer(project.name, ['cat', '/workspace/.task.json']);
-    } catch {
-      res.status(404).json({ error: 'no_task', message: "No task file found. Use 'supervisor stop' to control the supervisor directly." });
-      return;
-    }
-
-    let task: any;
-    try {
-      task = JSON.parse(output);
-    } catch {
-      res.status(422).json({ error: 'invalid_task', message: 'Task file contains invalid JSON' });
+    const current = await getSyncedCurrentTask(project.name);
+    if (!current) {
+      res.status(404).json({ error: 'no_task', message: "No task found. Use 'supervisor stop' to control the supervisor directly." });
       return;
     }
 
-    task.status = 'running';
-    task.completed_at = null;
-    task.completion_reason = null;
-    await writeTaskFile(project.name, task);
+    db.updateTask(current.id, { status: 'running', completed_at: null, completion_reason: null });
+    const task = await pushTaskToContainer(project.name, current.id);
     res.json({ ok: true, task });
   } catch (err: any) {
     res.status(500).json({ error: 'exec_error', message: err.message });
@@ -414,26 +642,18 @@ router.post('/:name/task/stop', async (req, res) => {
   }
 
   try {
-    let output: string;
-    try {
-      output = await execInProjectContainer(project.name, ['cat', '/workspace/.task.json']);
-    } catch {
-      res.status(404).json({ error: 'no_task', message: "No task file found. Use 'supervisor stop' to control the supervisor directly." });
+    const current = await getSyncedCurrentTask(project.name);
+    if (!current) {
+      res.status(404).json({ error: 'no_task', message: "No task found. Use 'supervisor stop' to control the supervisor directly." });
       return;
     }
 
-    let task: any;
-    try {
-      task = JSON.parse(output);
-    } catch {
-      res.status(422).json({ error: 'invalid_task', message: 'Task file contains invalid JSON' });
-      return;
-    }
-
-    task.status = 'stopped';
-    task.completed_at = new Date().toISOString();
-    task.completion_reason = 'manual_stop';
-    await writeTaskFile(project.name, task);
+    db.updateTask(current.id, {
+      status: 'stopped',
+      completed_at: new Date().toISOString(),
+      completion_reason: 'manual_stop',
+    });
+    const task = await pushTaskToContainer(project.name, current.id);
     res.json({ ok: true, task });
   } catch (err: any) {
     res.status(500).json({ error: 'exec_error', message: err.message });
@@ -462,37 +682,20 @@ router.post('/:name/task/respond', async (req, res) => {
   }
 
   try {
-    let output: string;
-    try {
-      output = await execInProjectContainer(project.name, ['cat', '/workspace/.task.json']);
-    } catch {
-      res.status(404).json({ error: 'no_task', message: "No task file found. Use 'supervisor stop' to control the supervisor directly." });
-      return;
-    }
-
-    let task: any;
-    try {
-      task = JSON.parse(output);
-    } catch {
-      res.status(422).json({ error: 'invalid_task', message: 'Task file contains invalid JSON' });
+    const current = await getSyncedCurrentTask(project.name);
+    if (!current) {
+      res.status(404).json({ error: 'no_task', message: "No task found. Use 'supervisor stop' to control the supervisor directly." });
       return;
     }
 
-    if (!Array.isArray(task.questions)) {
-      res.status(404).json({ error: 'not_found', message: 'No questions in task' });
-      return;
-    }
-
-    const question = task.questions.find((q: any) => q.id === parsed.data.question_id);
+    const question = db.getTaskQuestions(current.id).find((q) => q.id === parsed.data.question_id);
     if (!question) {
       res.status(404).json({ error: 'not_found', message: `Question "${parsed.data.question_id}" not found` });
       return;
     }
 
-    question.answer = parsed.data.answer;
-    question.answered_at = new Date().toISOString();
-
-    await writeTaskFile(project.name, task);
+    db.answerTaskQuestion(current.id, question.id, parsed.data.answer, new Date().toISOString());
+    const task = await pushTaskToContainer(project.name, current.id);
     res.json({ ok: true, task });
   } catch (err: any) {
     res.status(500).json({ error: 'exec_error', message: err.message });
@@ -725,7 +928,8 @@ router.get('/:name/memory', async (req, res) => {
   }
 });
 
-// GET /api/projects/:name/logs — Tail supervisor logs
+// GET /api/projects/:name/logs — Tail supervisor logs, optionally filtered (?grep=&ignore_case=1&since=)
+// Follow with the /ws/projects/:name/logs stream
 router.get('/:name/logs', async (req, res) => {
   const project = db.getProject(req.params.name);
   if (!project) {
@@ -733,16 +937,116 @@ router.get('/:name/logs', async (req, res) => {
     return;
   }
 
-  const lines = parseInt(req.query.lines as string) || 100;
+  const parsed = LogQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  const filter = createLogFilter(parsed.data);
 
   try {
-    const logs = await getProjectLogs(project.name, lines);
+    const raw = await getProjectLogs(project.name, scanLines(parsed.data, filter));
+    const logs = filter.active ? filterLogText(raw, parsed.data, filter) : raw;
     res.json({ logs });
   } catch (err: any) {
     res.status(500).json({ error: 'exec_error', message: err.message });
   }
 });
 
+const EventsQuerySchema = z.object({
+  type: z.string().min(1).optional(), // comma-separated
+  since: z.string().datetime().optional(),
+  after: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+// GET /api/projects/:name/events — Structured supervisor events (newest first)
+router.get('/:name/events', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const parsed = EventsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  // Pick up anything written since the last reconcile pass; stored events are served either way
+  if (project.status === 'running') {
+    await ingestSupervisorEvents(project.name).catch(() => {});
+  }
+
+  const { type, since, after, limit } = parsed.data;
+  const events = db.listSupervisorEvents({
+    project: project.name,
+    types: type ? type.split(',').map((t) => t.trim()).filter(Boolean) : undefined,
+    since: since ? new Date(since).toISOString() : undefined,
+    after,
+    limit: limit ?? 100,
+  }).map(toEventResponse);
+
+  res.json({ events });
+});
+
+const TranscriptsQuerySchema = z.object({
+  q: z.string().min(1).max(500).optional(),
+  turn: z.coerce.number().int().min(1).optional(),
+  task_id: z.string().min(1).optional(),
+  before: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+// GET /api/projects/:name/transcripts — Per-turn transcript summaries (newest first), paged with `before`
+router.get('/:name/transcripts', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const parsed = TranscriptsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  if (project.status === 'running') {
+    await ingestTranscripts(project.name).catch(() => {});
+  }
+
+  const { q, turn, task_id, before, limit } = parsed.data;
+  const pageSize = limit ?? 20;
+  const rows = db.listTranscripts({ project: project.name, q, turn, taskId: task_id, before, limit: pageSize });
+
+  res.json({
+    transcripts: rows.map((row) => toTranscriptSummary(row, q)),
+    // Pass as `before` for the next (older) page
+    next_before: rows.length === pageSize ? rows[rows.length - 1].id : null,
+  });
+});
+
+// GET /api/projects/:name/transcripts/:seq — One full turn: prompt, agent text and tool calls
+router.get('/:name/transcripts/:seq', (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const seq = parseInt(req.params.seq, 10);
+  const row = Number.isInteger(seq) ? db.getTranscript(project.name, seq) : undefined;
+  if (!row) {
+    res.status(404).json({ error: 'not_found', message: `Transcript ${req.params.seq} not found` });
+    return;
+  }
+
+  res.json(toTranscriptResponse(row));
+});
+
 // Worker heartbeat endpoint
 router.post('/:name/heartbeat', (req, res) => {
   // Workers call this periodically — find worker by project name and update heartbeat
@@ -775,6 +1079,7 @@ router.get('/:name/worker', (req, res) => {
       instance_id: worker.instance_id,
       instance_type: worker.instance_type,
       status: worker.status,
+      provider: worker.provider,
       private_ip: worker.private_ip,
       region: worker.region,
       availability_zone: worker.availability_zone,
@@ -784,6 +1089,178 @@ router.get('/:name/worker', (req, res) => {
   });
 });
 
+// Workspace snapshots
+
+const CreateSnapshotSchema = z.object({
+  label: z.string().min(1).max(128).optional(),
+});
+
+// POST /api/projects/:name/snapshots — Tar the workspace into the snapshot store
+router.post('/:name/snapshots', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const parsed = CreateSnapshotSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  try {
+    const snapshot = await createSnapshot(project.name, parsed.data.label ?? null);
+    res.status(201).json(snapshot);
+  } catch (err: any) {
+    res.status(500).json({ error: 'snapshot_error', message: err.message });
+  }
+});
+
+// GET /api/projects/:name/snapshots — List snapshots (newest first)
+router.get('/:name/snapshots', (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  res.json({ snapshots: db.listSnapshots(project.name) });
+});
+
+// POST /api/projects/:name/snapshots/:id/restore — Replace the workspace with a snapshot (background operation)
+router.post('/:name/snapshots/:id/restore', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const snapshot = db.getSnapshot(project.name, req.params.id);
+  if (!snapshot) {
+    res.status(404).json({ error: 'not_found', message: `Snapshot "${req.params.id}" not found` });
+    return;
+  }
+
+  if (rejectIfBusy(res, project.name)) return;
+
+  try {
+    const op = startRestore(snapshot);
+    res.status(202).json({ ok: true, id: snapshot.id, operation_id: op.id, operation: toOperationResponse(op) });
+  } catch (err: any) {
+    res.status(500).json({ error: 'snapshot_error', message: err.message });
+  }
+});
+
+// DELETE /api/projects/:name/snapshots/:id — Delete a snapshot and its archive
+router.delete('/:name/snapshots/:id', (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const snapshot = db.getSnapshot(project.name, req.params.id);
+  if (!snapshot) {
+    res.status(404).json({ error: 'not_found', message: `Snapshot "${req.params.id}" not found` });
+    return;
+  }
+
+  removeSnapshot(snapshot);
+  res.json({ ok: true });
+});
+
+// Workspace files
+
+/** Resolve the ?path= query against /workspace, replying 400 if it is missing or escapes. */
+function workspacePathFromQuery(req: Request, res: Response): string | null {
+  const raw = typeof req.query.path === 'string' ? req.query.path : '';
+  const path = raw ? resolveWorkspacePath(raw) : null;
+  if (!path) {
+    res.status(400).json({ error: 'validation_error', message: 'path is required and must be inside /workspace' });
+  }
+  return path;
+}
+
+// GET /api/projects/:name/files?path= — Download a file, or a tar of a directory (HEAD reports the type only)
+router.get('/:name/files', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const path = workspacePathFromQuery(req, res);
+  if (!path) return;
+
+  try {
+    const type = await statProjectPath(project.name, path);
+    if (!type) {
+      res.status(404).json({ error: 'not_found', message: `No such file or directory: ${path}` });
+      return;
+    }
+    if (type !== 'file' && type !== 'directory') {
+      res.status(400).json({ error: 'unsupported_file_type', message: `${path} is a ${type === 'symlink' ? 'symbolic link' : 'special file'}` });
+      return;
+    }
+
+    res.setHeader('X-Synv2-File-Type', type);
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    const filename = encodeURIComponent(posix.basename(path) + (type === 'directory' ? '.tar' : ''));
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${filename}`);
+
+    if (type === 'directory') {
+      const archive = await getProjectArchive(project.name, path);
+      res.setHeader('Content-Type', 'application/x-tar');
+      await pipeline(archive, res);
+    } else {
+      const file = await readProjectFile(project.name, path);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Length', String(file.size));
+      await pipeline(file.stream, res);
+    }
+  } catch (err: any) {
+    // Once streaming has started the only way to signal failure is to abort
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.status(500).json({ error: 'file_error', message: err.message });
+  }
+});
+
+// PUT /api/projects/:name/files?path= — Upload a file (raw body), or extract a tar into a directory (Content-Type: application/x-tar)
+router.put('/:name/files', async (req, res) => {
+  const project = db.getProject(req.params.name);
+  if (!project) {
+    res.status(404).json({ error: 'not_found', message: 'Project not found' });
+    return;
+  }
+
+  const path = workspacePathFromQuery(req, res);
+  if (!path) return;
+
+  try {
+    if (req.is('application/x-tar')) {
+      await extractIntoProjectDir(project.name, path, req);
+    } else {
+      const length = parseInt(req.headers['content-length'] || '', 10);
+      if (!Number.isFinite(length)) {
+        res.status(411).json({ error: 'length_required', message: 'File uploads need a Content-Length header' });
+        return;
+      }
+      await writeProjectFile(project.name, path, req, length);
+    }
+    res.json({ ok: true, path });
+  } catch (err: any) {
+    res.status(500).json({ error: 'file_error', message: err.message });
+  }
+});
+
 // Secrets CRUD
 
 const SetSecretSchema = z.object({
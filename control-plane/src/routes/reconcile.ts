@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import * as db from '../db/index.js';
+import { getLastReconcileReport, runReconcile } from '../services/reconciler.js';
+import { getAuth, canAccessProject } from './auth.js';
+import type { AuthContext } from './auth.js';
+import type { ReconcileFinding, ReconcileReport } from '../types.js';
+
+const router = Router();
+
+// Scoped tokens only see their own projects; orphans (no project row) are for unscoped tokens
+function visibleReport(report: ReconcileReport, auth: AuthContext): ReconcileReport {
+  if (auth.projects === null) return report;
+  const known = new Set(db.listProjects().map((p) => p.name));
+  const visible = (f: ReconcileFinding) => known.has(f.project) && canAccessProject(auth, f.project);
+  return {
+    ...report,
+    findings: report.findings.filter(visible),
+    errors: [],
+    recent_actions: report.recent_actions.filter(visible),
+  };
+}
+
+// GET /api/reconcile — Findings of the most recent reconcile pass (runs one if none has yet)
+router.get('/', async (_req, res) => {
+  try {
+    const report = getLastReconcileReport() || await runReconcile();
+    res.json(visibleReport(report, getAuth(res)));
+  } catch (err: any) {
+    res.status(500).json({ error: 'reconcile_error', message: err.message });
+  }
+});
+
+// POST /api/reconcile — Run a pass now
+router.post('/', async (_req, res) => {
+  try {
+    const report = await runReconcile();
+    res.json(visibleReport(report, getAuth(res)));
+  } catch (err: any) {
+    res.status(500).json({ error: 'reconcile_error', message: err.message });
+  }
+});
+
+export { router as reconcileRouter };
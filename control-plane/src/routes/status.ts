@@ -2,13 +2,16 @@ import { Router } from 'express';
 import { execSync } from 'child_process';
 import * as db from '../db/index.js';
 import { getDockerStats } from '../services/docker.js';
+import { getProjectOverview } from '../services/overview.js';
+import { getAuth, canAccessProject } from './auth.js';
 
 const router = Router();
 const startTime = Date.now();
 
 router.get('/', async (_req, res) => {
   const dockerStats = await getDockerStats();
-  const projects = db.listProjects().map((p) => ({
+  const auth = getAuth(res);
+  const projects = db.listProjects().filter((p) => canAccessProject(auth, p.name)).map((p) => ({
     name: p.name,
     status: p.status,
     created_at: p.created_at,
@@ -46,4 +49,12 @@ router.get('/', async (_req, res) => {
   });
 });
 
+// GET /api/status/projects — Live overview of every project (synv2 top): status, supervisor, task, CPU and memory
+router.get('/projects', async (_req, res) => {
+  const auth = getAuth(res);
+  const projects = db.listProjects().filter((p) => canAccessProject(auth, p.name));
+  const overview = await Promise.all(projects.map(getProjectOverview));
+  res.json({ projects: overview, generated_at: new Date().toISOString() });
+});
+
 export { router as statusRouter };
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import * as db from '../db/index.js';
+import { getAuth, hashToken } from './auth.js';
+import type { TokenRow } from '../types.js';
+
+const router = Router();
+
+const CreateTokenSchema = z.object({
+  label: z.string().min(1).max(128),
+  role: z.enum(['read', 'operator', 'admin']),
+  projects: z.array(z.string().min(1)).min(1).optional(),
+  expiresAt: z.string().datetime().optional(),
+});
+
+function toResponse(row: TokenRow) {
+  return {
+    id: row.id,
+    label: row.label,
+    role: row.role,
+    projects: row.projects ? JSON.parse(row.projects) : null,
+    expires_at: row.expires_at,
+    expired: !!row.expires_at && new Date(row.expires_at).getTime() <= Date.now(),
+    created_at: row.created_at,
+  };
+}
+
+// POST /api/tokens — Create a token (plaintext is only returned once)
+router.post('/', (req, res) => {
+  const parsed = CreateTokenSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'validation_error', message: parsed.error.issues[0].message });
+    return;
+  }
+
+  const { label, role, projects, expiresAt } = parsed.data;
+
+  if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+    res.status(400).json({ error: 'validation_error', message: 'expiresAt must be in the future' });
+    return;
+  }
+
+  const token = randomBytes(32).toString('hex');
+  const row: TokenRow = {
+    token_hash: hashToken(token),
+    id: `tok_${randomBytes(6).toString('hex')}`,
+    label,
+    role,
+    projects: projects ? JSON.stringify(projects) : null,
+    expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+    created_at: new Date().toISOString(),
+  };
+  db.insertToken(row);
+
+  res.status(201).json({ ...toResponse(row), token });
+});
+
+// GET /api/tokens — List tokens (never includes the token itself)
+router.get('/', (_req, res) => {
+  res.json({ tokens: db.listTokens().map(toResponse) });
+});
+
+// DELETE /api/tokens/:id — Revoke a token
+router.delete('/:id', (req, res) => {
+  const row = db.getTokenById(req.params.id);
+  if (!row) {
+    res.status(404).json({ error: 'not_found', message: `Token "${req.params.id}" not found` });
+    return;
+  }
+
+  if (row.id === getAuth(res).tokenId) {
+    res.status(400).json({ error: 'self_revoke', message: 'Cannot revoke the token used for this request' });
+    return;
+  }
+
+  db.deleteToken(row.id);
+  res.json({ ok: true });
+});
+
+export { router as tokensRouter };
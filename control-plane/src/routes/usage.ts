@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import * as db from '../db/index.js';
+import { getProjectUsage } from '../services/usage.js';
+import { getAuth, canAccessProject } from './auth.js';
+
+const router = Router();
+
+// GET /api/usage — Cost of every project the token can see. Token counts are as of the last reconcile pass.
+router.get('/', (_req, res) => {
+  const auth = getAuth(res);
+  const projects = db.listProjects()
+    .filter((p) => canAccessProject(auth, p.name))
+    .map(getProjectUsage);
+
+  res.json({
+    projects,
+    total_cost_usd: Math.round(projects.reduce((sum, p) => sum + p.total_cost_usd, 0) * 10_000) / 10_000,
+  });
+});
+
+export { router as usageRouter };
@@ -1,10 +1,20 @@
 import express from 'express';
 import http from 'http';
+import { fileURLToPath } from 'url';
 import { WebSocketServer } from 'ws';
 import { requireAuth, authenticateWsToken } from './routes/auth.js';
 import { projectsRouter } from './routes/projects.js';
 import { statusRouter } from './routes/status.js';
+import { tokensRouter } from './routes/tokens.js';
+import { auditRequests, auditRouter } from './routes/audit.js';
+import { reconcileRouter } from './routes/reconcile.js';
+import { operationsRouter } from './routes/operations.js';
+import { usageRouter } from './routes/usage.js';
 import { handleUpgrade } from './services/openclaw-proxy.js';
+import { handleExecUpgrade } from './services/exec-stream.js';
+import { handleLogStreamUpgrade } from './services/log-stream.js';
+import { startReconciler } from './services/reconciler.js';
+import { failInterruptedOperations } from './services/operations.js';
 import { getDb, getWorkerByProject, updateWorker } from './db/index.js';
 
 const app = express();
@@ -13,6 +23,9 @@ app.use(express.json({ limit: '10mb' }));
 // Health check (no auth)
 app.get('/health', (_req, res) => res.json({ ok: true }));
 
+// Web dashboard: static files only, its data comes from the /api routes with the user's bearer token
+app.use(express.static(fileURLToPath(new URL('../public', import.meta.url))));
+
 // Worker heartbeat endpoint (authenticated by worker token, not admin token)
 app.post('/api/workers/:projectName/heartbeat', (req, res) => {
   const auth = req.headers.authorization;
@@ -30,14 +43,20 @@ app.post('/api/workers/:projectName/heartbeat', (req, res) => {
   res.json({ ok: true });
 });
 
-// All API routes require auth
+// Mutating API calls are audited (including rejected ones); all API routes require auth
+app.use('/api', auditRequests);
 app.use('/api', requireAuth);
 app.use('/api/projects', projectsRouter);
 app.use('/api/status', statusRouter);
+app.use('/api/tokens', tokensRouter);
+app.use('/api/audit', auditRouter);
+app.use('/api/reconcile', reconcileRouter);
+app.use('/api/operations', operationsRouter);
+app.use('/api/usage', usageRouter);
 
 const server = http.createServer(app);
 
-// WebSocket server for chat relay
+// WebSocket server for chat relay, exec and log streams
 const wss = new WebSocketServer({ noServer: true });
 
 server.on('upgrade', (req, socket: any, head) => {
@@ -45,20 +64,29 @@ server.on('upgrade', (req, socket: any, head) => {
 
   // Authenticate via query param
   const token = url.searchParams.get('token');
-  if (!token || !authenticateWsToken(token)) {
+  const projectMatch = url.pathname.match(/^\/ws\/projects\/([^/]+)\//);
+  const projectName = projectMatch ? decodeURIComponent(projectMatch[1]) : null;
+  const isExec = url.pathname.endsWith('/exec');
+  const isLogs = url.pathname.endsWith('/logs');
+  const auth = token ? authenticateWsToken(token, projectName, isExec ? 'admin' : 'read') : null;
+  if (!auth) {
     socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
     socket.destroy();
     return;
   }
 
-  handleUpgrade(wss, req, socket, head);
+  if (isExec) handleExecUpgrade(wss, req, socket, head, auth);
+  else if (isLogs) handleLogStreamUpgrade(wss, req, socket, head);
+  else handleUpgrade(wss, req, socket, head, auth);
 });
 
 const PORT = process.env.PORT || 4000;
 
 // Initialize database on startup
 getDb();
+failInterruptedOperations();
 
 server.listen(PORT, () => {
   console.log(`Control plane listening on :${PORT}`);
+  startReconciler();
 });
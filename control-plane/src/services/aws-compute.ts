@@ -0,0 +1,181 @@
+import { execFile } from 'child_process';
+import { readFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import type { ComputeProvider, InstanceAddress, LaunchSpec } from './compute-provider.js';
+
+const REGION = process.env.AWS_REGION || 'us-east-1';
+const execFileAsync = promisify(execFile);
+
+// Disk sizes by instance family (heuristic)
+function getDiskSizeGb(instanceType: string): number {
+  const family = instanceType.split('.')[0];
+  // GPU instances and large compute need more disk
+  if (['p3', 'p4', 'p5', 'g4', 'g5', 'g6'].includes(family)) return 200;
+  const size = instanceType.split('.')[1];
+  if (size?.includes('xlarge')) {
+    const multiplier = parseInt(size) || 1;
+    if (multiplier >= 24) return 500;
+    if (multiplier >= 12) return 200;
+    if (multiplier >= 4) return 100;
+  }
+  return 50;
+}
+
+function getSecurityGroupId(): string {
+  // The SG created during setup — should be stored in config or env
+  return process.env.SYNV2_SG_ID || '';
+}
+
+function getSubnetId(): string {
+  return process.env.SYNV2_SUBNET_ID || '';
+}
+
+function getIamInstanceProfile(): string {
+  return process.env.SYNV2_IAM_PROFILE || '';
+}
+
+function getKeyName(): string {
+  return process.env.SYNV2_KEY_NAME || '';
+}
+
+/**
+ * Run an `aws ec2` subcommand and return its trimmed stdout. Arguments are passed as an argv
+ * (no shell), and the call is async: waits on instance state take minutes and must not block
+ * the control plane from serving requests meanwhile.
+ */
+async function ec2(args: string[], timeoutMs: number): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('aws', ['ec2', ...args, '--region', REGION], { timeout: timeoutMs });
+    return stdout.trim();
+  } catch (err: any) {
+    if (err.killed) throw new Error(`aws ec2 ${args[0]} timed out after ${timeoutMs / 1000}s`);
+    throw new Error(err.stderr?.trim() || err.message);
+  }
+}
+
+async function findAmi(): Promise<string> {
+  try {
+    return await ec2([
+      'describe-images',
+      '--owners', 'amazon',
+      '--filters', 'Name=name,Values=al2023-ami-2023.*-x86_64', 'Name=state,Values=available',
+      '--query', 'sort_by(Images, &CreationDate)[-1].ImageId',
+      '--output', 'text',
+    ], 30_000);
+  } catch (err: any) {
+    throw new Error(`Failed to find AMI: ${err.message}`);
+  }
+}
+
+function generateUserData(spec: LaunchSpec): string {
+  // Resolve the worker-user-data.sh template
+  const __dirname = dirname(fileURLToPath(import.meta.url));
+  const templatePath = resolve(__dirname, '../../../infra/worker-user-data.sh');
+  let template: string;
+  try {
+    template = readFileSync(templatePath, 'utf-8');
+  } catch {
+    // Fallback: try from /opt/synv2
+    template = readFileSync('/opt/synv2/infra/worker-user-data.sh', 'utf-8');
+  }
+
+  return template
+    .replace(/__PROJECT_NAME__/g, spec.projectName)
+    .replace(/__CONTROL_PLANE_HOST__/g, spec.controlPlaneHost)
+    .replace(/__WORKER_TOKEN__/g, spec.workerToken)
+    .replace(/__WORKER_AGENT_PORT__/g, String(spec.agentPort));
+}
+
+async function describeAddress(instanceId: string): Promise<InstanceAddress> {
+  const descOutput = await ec2([
+    'describe-instances',
+    '--instance-ids', instanceId,
+    '--query', 'Reservations[0].Instances[0].[PrivateIpAddress,PublicIpAddress]',
+    '--output', 'text',
+  ], 15_000);
+
+  const [privateIp, publicIp] = descOutput.split('\t');
+  return {
+    privateIp: privateIp && privateIp !== 'None' ? privateIp : null,
+    publicIp: publicIp && publicIp !== 'None' ? publicIp : null,
+  };
+}
+
+/** EC2 workers, driven through the AWS CLI. The agent listens on the port baked into user data. */
+export const awsComputeProvider: ComputeProvider = {
+  name: 'aws',
+  region: REGION,
+
+  async launch(spec) {
+    const sgId = getSecurityGroupId();
+    if (!sgId) throw new Error('SYNV2_SG_ID not configured');
+
+    const subnetId = getSubnetId();
+    if (!subnetId) throw new Error('SYNV2_SUBNET_ID not configured');
+
+    const amiId = await findAmi();
+    const diskSize = getDiskSizeGb(spec.instanceType);
+    const userDataB64 = Buffer.from(generateUserData(spec)).toString('base64');
+
+    const iamProfile = getIamInstanceProfile();
+    const keyName = getKeyName();
+
+    const tags = [
+      { Key: 'Name', Value: `synv2-worker-${spec.projectName}` },
+      { Key: 'synv2', Value: 'worker' },
+      { Key: 'synv2-project', Value: spec.projectName },
+    ];
+    const args = [
+      'run-instances',
+      '--image-id', amiId,
+      '--instance-type', spec.instanceType,
+      '--subnet-id', subnetId,
+      '--security-group-ids', sgId,
+      '--user-data', userDataB64,
+      '--block-device-mappings', JSON.stringify([{ DeviceName: '/dev/xvda', Ebs: { VolumeSize: diskSize, VolumeType: 'gp3' } }]),
+      '--tag-specifications', JSON.stringify([{ ResourceType: 'instance', Tags: tags }]),
+      '--query', 'Instances[0].[InstanceId,Placement.AvailabilityZone]',
+      '--output', 'text',
+    ];
+
+    if (iamProfile) {
+      args.push('--iam-instance-profile', `Name=${iamProfile}`);
+    }
+    if (keyName) {
+      args.push('--key-name', keyName);
+    }
+
+    const output = await ec2(args, 60_000);
+    const [instanceId, az] = output.split('\t');
+
+    if (!instanceId || instanceId === 'None') {
+      throw new Error('Failed to launch EC2 instance');
+    }
+
+    return { instanceId, availabilityZone: az || null, agentPort: spec.agentPort };
+  },
+
+  async waitUntilRunning(instanceId) {
+    await ec2(['wait', 'instance-running', '--instance-ids', instanceId], 120_000);
+    return describeAddress(instanceId);
+  },
+
+  async stop(instanceId) {
+    await ec2(['stop-instances', '--instance-ids', instanceId], 30_000);
+    await ec2(['wait', 'instance-stopped', '--instance-ids', instanceId], 180_000);
+  },
+
+  async start(instanceId) {
+    await ec2(['start-instances', '--instance-ids', instanceId], 30_000);
+  },
+
+  async setInstanceType(instanceId, instanceType) {
+    await ec2(['modify-instance-attribute', '--instance-id', instanceId, '--instance-type', JSON.stringify({ Value: instanceType })], 15_000);
+  },
+
+  async terminate(instanceId) {
+    await ec2(['terminate-instances', '--instance-ids', instanceId], 30_000);
+  },
+};
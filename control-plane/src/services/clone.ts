@@ -0,0 +1,94 @@
+import { randomBytes } from 'crypto';
+import * as db from '../db/index.js';
+import { createProjectContainer, getProjectArchive, putProjectArchive, startProjectContainer } from './container-manager.js';
+import { provisionWorker, waitForWorkerReady } from './worker-provisioner.js';
+import { filterArchive } from './files.js';
+import { getSyncedCurrentTask, insertTaskFromFile, pushTaskToContainer, toTaskFile } from './tasks.js';
+import { appendLog, runStep, startOperation } from './operations.js';
+import type { OperationRow, ProjectRow } from '../types.js';
+
+// Runtime state of the source's supervisor and gateway; the clone starts its own
+const RUNTIME_FILES = ['.supervisor.log', '.supervisor-status.json', '.watchdog.log', '.task.json', '.supervisor-events.jsonl', '.transcripts.jsonl', '.gateway-events.jsonl'];
+// Dropped as well when the clone should start without the source's task history
+const MEMORY_FILES = ['SHORT_TERM_MEMORY.md', 'LONG_TERM_MEMORY.md', 'plan.md'];
+
+export interface CloneOptions {
+  instanceType?: string;
+  resetTask?: boolean;
+}
+
+/**
+ * Create `dstName` as a copy of `src`: project settings, secrets, directives and workspace.
+ * The source's current task is carried over under a new id unless `resetTask` is set.
+ * The project row and secrets are written immediately; the container (and worker, with an
+ * instance type) and the workspace copy are done by the returned background operation.
+ */
+export function cloneProject(src: ProjectRow, dstName: string, opts: CloneOptions = {}): OperationRow {
+  db.insertProject({
+    name: dstName,
+    status: 'creating',
+    container_id: null,
+    anthropic_api_key_enc: src.anthropic_api_key_enc,
+    mcp_servers: src.mcp_servers,
+    env_enc: src.env_enc,
+    instance_type: opts.instanceType || 't3.medium',
+    worker_instance_id: null,
+    created_at: new Date().toISOString(),
+  });
+
+  // The idle policy needs a worker to stop
+  if (opts.instanceType && src.idle_stop_minutes) {
+    db.updateProject(dstName, { idle_stop_minutes: src.idle_stop_minutes });
+  }
+
+  for (const secret of db.getSecrets(src.name)) {
+    db.insertSecret({ ...secret, project_name: dstName, created_at: new Date().toISOString() });
+  }
+
+  const { instanceType, resetTask = false } = opts;
+  const steps = [
+    ...(instanceType ? ['launching', 'waiting-for-worker'] : []),
+    'container-create',
+    'copy-workspace',
+    'container-start',
+    ...(resetTask ? [] : ['copy-task']),
+  ];
+  const params = { source: src.name, instance_type: instanceType ?? null, reset_task: resetTask };
+
+  return startOperation('clone', dstName, steps, params, async (opId) => {
+    try {
+      if (instanceType) {
+        const instanceId = await runStep(opId, 'launching', () => provisionWorker(dstName, instanceType));
+        appendLog(opId, `Launched ${instanceType} instance ${instanceId}`);
+        await runStep(opId, 'waiting-for-worker', () => waitForWorkerReady(instanceId));
+      }
+      // The workspace goes into the volume before the container starts, so the clone's
+      // supervisor and gateway boot on the copied files rather than an empty /workspace
+      await runStep(opId, 'container-create', () => createProjectContainer(dstName, { start: false }));
+      await runStep(opId, 'copy-workspace', () => copyWorkspace(src.name, dstName, resetTask));
+      await runStep(opId, 'container-start', () => startProjectContainer(dstName));
+      if (!resetTask) await runStep(opId, 'copy-task', () => copyTask(src.name, dstName));
+    } catch (err) {
+      db.updateProject(dstName, { status: 'error' });
+      throw err;
+    }
+  });
+}
+
+async function copyWorkspace(srcName: string, dstName: string, resetTask: boolean): Promise<void> {
+  const dropped = resetTask ? [...RUNTIME_FILES, ...MEMORY_FILES] : RUNTIME_FILES;
+  const archive = await getProjectArchive(srcName, '/workspace');
+
+  // Archive entries are rooted at "workspace/", so extract at the filesystem root
+  await putProjectArchive(dstName, '/', filterArchive(archive, new Set(dropped.map((f) => `workspace/${f}`))));
+}
+
+/** Carry the source's current task over to the clone under a new id. */
+async function copyTask(srcName: string, dstName: string): Promise<void> {
+  const task = await getSyncedCurrentTask(srcName);
+  if (!task) return;
+
+  const taskId = `task_${randomBytes(6).toString('hex')}`;
+  insertTaskFromFile(dstName, { ...toTaskFile(task), id: taskId });
+  await pushTaskToContainer(dstName, taskId);
+}
@@ -0,0 +1,60 @@
+import { awsComputeProvider } from './aws-compute.js';
+import { localComputeProvider } from './local-compute.js';
+
+export interface InstanceAddress {
+  privateIp: string | null;
+  publicIp: string | null;
+}
+
+export interface LaunchSpec {
+  projectName: string;
+  instanceType: string;
+  workerToken: string;
+  controlPlaneHost: string;
+  agentPort: number; // preferred; providers that share a host pick a free port instead
+}
+
+export interface LaunchedInstance {
+  instanceId: string;
+  availabilityZone: string | null;
+  agentPort: number; // where the worker agent will listen
+}
+
+/**
+ * Compute backend for dedicated workers. Each instance runs one worker agent
+ * (container/worker-agent.js) for one project; the provisioner drives the lifecycle
+ * and health checks, the provider only manages the machine (or process).
+ */
+export interface ComputeProvider {
+  readonly name: string;
+  readonly region: string;
+  /** Launch an instance that boots a worker agent; returns as soon as it has an id. */
+  launch(spec: LaunchSpec): Promise<LaunchedInstance>;
+  /** Resolve once the instance is running, with its addresses. */
+  waitUntilRunning(instanceId: string): Promise<InstanceAddress>;
+  /** Stop the instance and resolve once it is stopped. */
+  stop(instanceId: string): Promise<void>;
+  /** Start a stopped instance (use waitUntilRunning for its new address). */
+  start(instanceId: string): Promise<void>;
+  /** Change the size of a stopped instance. */
+  setInstanceType(instanceId: string, instanceType: string): Promise<void>;
+  terminate(instanceId: string): Promise<void>;
+}
+
+const PROVIDERS: Record<string, ComputeProvider> = {
+  aws: awsComputeProvider,
+  local: localComputeProvider,
+};
+
+/** The provider new workers launch on (COMPUTE_PROVIDER, default aws). */
+export function getDefaultProviderName(): string {
+  return process.env.COMPUTE_PROVIDER || 'aws';
+}
+
+export function getComputeProvider(name = getDefaultProviderName()): ComputeProvider {
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown compute provider "${name}" (expected one of: ${Object.keys(PROVIDERS).join(', ')})`);
+  }
+  return provider;
+}
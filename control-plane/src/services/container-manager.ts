@@ -1,14 +1,20 @@
+import { Readable } from 'stream';
 import * as dockerService from './docker.js';
 import { decrypt } from './secrets.js';
 import { getProject, updateProject, getSecrets, getWorkerByProject } from '../db/index.js';
 import { getInstanceMetadata } from './instance-metadata.js';
-import { getWorkerUrl } from './worker-provisioner.js';
+import { getWorkerUrl, getWorkerWsUrl } from './worker-provisioner.js';
+import type { ExecResult, ProjectRow } from '../types.js';
 
 const GATEWAY_PORT = 18789;
 const HEALTH_TIMEOUT_MS = 120_000;
 const HEALTH_INTERVAL_MS = 2_000;
 const DEFAULT_MEMORY_MB = parseInt(process.env.CONTAINER_MEMORY_MB || '230000');
 const DEFAULT_CPUS = parseInt(process.env.CONTAINER_CPUS || '30');
+export const DEFAULT_EXEC_TIMEOUT_MS = 30_000;
+export const MAX_EXEC_TIMEOUT_MS = 600_000;
+const MAX_EXEC_OUTPUT_BYTES = 1024 * 1024; // per stream
+const ARCHIVE_TIMEOUT_MS = 30 * 60_000;
 
 function inferInstanceLimits(instanceType: string | null): { cpus: number; memoryMb: number } | null {
   if (!instanceType) return null;
@@ -96,9 +102,12 @@ export async function buildContainerEnv(projectName: string): Promise<Record<str
 /**
  * Create a project container — either locally or on a worker.
  * If a ready worker exists for this project, delegates to the worker.
+ * With `start: false` the container is created but not started (the project stays "creating"):
+ * files can be put into its workspace before the supervisor boots, then `startProjectContainer` runs it.
  */
-export async function createProjectContainer(projectName: string): Promise<string> {
+export async function createProjectContainer(projectName: string, opts: { start?: boolean } = {}): Promise<string> {
   const env = await buildContainerEnv(projectName);
+  const start = opts.start !== false;
 
   // Worker mode: delegate to remote worker
   const workerUrl = getWorkerUrl(projectName);
@@ -111,7 +120,7 @@ export async function createProjectContainer(projectName: string): Promise<strin
           'Authorization': `Bearer ${worker.worker_token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ env }),
+        body: JSON.stringify({ env, start }),
         signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
       });
 
@@ -120,7 +129,7 @@ export async function createProjectContainer(projectName: string): Promise<strin
         throw new Error(err.error || `Worker returned ${res.status}`);
       }
 
-      updateProject(projectName, { status: 'running' });
+      if (start) updateProject(projectName, { status: 'running' });
       return worker.instance_id;
     } catch (err: any) {
       updateProject(projectName, { status: 'error' });
@@ -134,8 +143,14 @@ export async function createProjectContainer(projectName: string): Promise<strin
     env,
     memoryMb: parseInt(env.INSTANCE_MEMORY_MB) || DEFAULT_MEMORY_MB,
     cpus: parseInt(env.INSTANCE_CPUS) || DEFAULT_CPUS,
+    start,
   });
 
+  if (!start) {
+    updateProject(projectName, { container_id: containerId });
+    return containerId;
+  }
+
   updateProject(projectName, { container_id: containerId, status: 'running' });
 
   try {
@@ -148,6 +163,39 @@ export async function createProjectContainer(projectName: string): Promise<strin
   return containerId;
 }
 
+/** Start a container made with `createProjectContainer(name, { start: false })` and wait for its gateway. */
+export async function startProjectContainer(projectName: string): Promise<void> {
+  const workerUrl = getWorkerUrl(projectName);
+
+  if (workerUrl) {
+    const worker = getWorkerByProject(projectName)!;
+    const res = await fetch(`${workerUrl}/container/start`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${worker.worker_token}` },
+      signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+    });
+
+    if (!res.ok) {
+      updateProject(projectName, { status: 'error' });
+      const err = await res.json().catch(() => ({ error: 'unknown' })) as any;
+      throw new Error(err.error || `Worker returned ${res.status}`);
+    }
+
+    updateProject(projectName, { status: 'running' });
+    return;
+  }
+
+  await dockerService.startContainer(projectName);
+  updateProject(projectName, { status: 'running' });
+
+  try {
+    await waitForGateway(projectName);
+  } catch (err) {
+    updateProject(projectName, { status: 'error' });
+    throw err;
+  }
+}
+
 async function waitForGateway(projectName: string): Promise<void> {
   const start = Date.now();
 
@@ -205,7 +253,7 @@ export async function restartProjectContainer(projectName: string): Promise<void
   await createProjectContainer(projectName);
 }
 
-export async function destroyProjectContainer(projectName: string): Promise<void> {
+export async function destroyProjectContainer(projectName: string, removeVolume = true): Promise<void> {
   const workerUrl = getWorkerUrl(projectName);
 
   if (workerUrl) {
@@ -216,23 +264,21 @@ export async function destroyProjectContainer(projectName: string): Promise<void
         'Authorization': `Bearer ${worker.worker_token}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ removeVolume: true }),
+      body: JSON.stringify({ removeVolume }),
       signal: AbortSignal.timeout(30_000),
     }).catch(() => {});
     return;
   }
 
-  await dockerService.removeContainer(projectName);
+  await dockerService.removeContainer(projectName, removeVolume);
 }
 
 export async function getGatewayUrl(projectName: string): Promise<string | null> {
   // Worker mode: proxy through worker agent's WS endpoint
-  const worker = getWorkerByProject(projectName);
-  if (worker && worker.status === 'ready') {
-    const ip = worker.private_ip || worker.public_ip;
-    if (ip) {
-      return `ws://${ip}:18800/gateway?token=${worker.worker_token}`;
-    }
+  const workerWsUrl = getWorkerWsUrl(projectName);
+  if (workerWsUrl) {
+    const worker = getWorkerByProject(projectName)!;
+    return `${workerWsUrl}/gateway?token=${worker.worker_token}`;
   }
 
   // Local mode: direct to container
@@ -242,10 +288,10 @@ export async function getGatewayUrl(projectName: string): Promise<string | null>
 }
 
 /**
- * Execute a command inside the project container.
+ * Run a command inside the project container with a hard timeout.
  * Routes through worker if one exists.
  */
-export async function execInProjectContainer(projectName: string, cmd: string[]): Promise<string> {
+export async function runInProjectContainer(projectName: string, cmd: string[], timeoutMs = DEFAULT_EXEC_TIMEOUT_MS): Promise<ExecResult> {
   const workerUrl = getWorkerUrl(projectName);
 
   if (workerUrl) {
@@ -256,8 +302,9 @@ export async function execInProjectContainer(projectName: string, cmd: string[])
         'Authorization': `Bearer ${worker.worker_token}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ cmd }),
-      signal: AbortSignal.timeout(30_000),
+      body: JSON.stringify({ cmd, timeout: timeoutMs, maxOutputBytes: MAX_EXEC_OUTPUT_BYTES }),
+      // The worker enforces the timeout itself; leave room for it to report back
+      signal: AbortSignal.timeout(timeoutMs + 15_000),
     });
 
     if (!res.ok) {
@@ -265,13 +312,83 @@ export async function execInProjectContainer(projectName: string, cmd: string[])
       throw new Error(err.error || `Worker exec failed: ${res.status}`);
     }
 
-    const result = await res.json() as any;
-    return result.output || '';
+    return await res.json() as ExecResult;
+  }
+
+  return dockerService.runExec(projectName, cmd, { timeoutMs, maxOutputBytes: MAX_EXEC_OUTPUT_BYTES });
+}
+
+/**
+ * Execute a command inside the project container.
+ * Routes through worker if one exists.
+ */
+export async function execInProjectContainer(projectName: string, cmd: string[]): Promise<string> {
+  if (getWorkerUrl(projectName)) {
+    const result = await runInProjectContainer(projectName, cmd);
+    if (result.exit_code !== 0) {
+      throw new Error(result.stderr.trim() || `Command exited with code ${result.exit_code}`);
+    }
+    return result.stdout;
   }
 
   return dockerService.execInContainer(projectName, cmd);
 }
 
+/**
+ * Tar stream of a path inside the project container.
+ * Routes through worker if one exists.
+ */
+export async function getProjectArchive(projectName: string, path: string): Promise<Readable> {
+  const workerUrl = getWorkerUrl(projectName);
+
+  if (workerUrl) {
+    const worker = getWorkerByProject(projectName)!;
+    const res = await fetch(`${workerUrl}/archive?path=${encodeURIComponent(path)}`, {
+      headers: { 'Authorization': `Bearer ${worker.worker_token}` },
+      signal: AbortSignal.timeout(ARCHIVE_TIMEOUT_MS),
+    });
+
+    if (!res.ok || !res.body) {
+      const err = await res.json().catch(() => ({ error: 'unknown' })) as any;
+      throw new Error(err.error || `Worker archive failed: ${res.status}`);
+    }
+
+    return Readable.fromWeb(res.body as any);
+  }
+
+  return dockerService.getArchive(projectName, path);
+}
+
+/**
+ * Extract a tar stream into a directory inside the project container.
+ * Routes through worker if one exists.
+ */
+export async function putProjectArchive(projectName: string, path: string, tar: Readable): Promise<void> {
+  const workerUrl = getWorkerUrl(projectName);
+
+  if (workerUrl) {
+    const worker = getWorkerByProject(projectName)!;
+    const res = await fetch(`${workerUrl}/archive?path=${encodeURIComponent(path)}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${worker.worker_token}`,
+        'Content-Type': 'application/x-tar',
+      },
+      body: Readable.toWeb(tar) as any,
+      duplex: 'half',
+      signal: AbortSignal.timeout(ARCHIVE_TIMEOUT_MS),
+    } as RequestInit);
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: 'unknown' })) as any;
+      throw new Error(err.error || `Worker archive upload failed: ${res.status}`);
+    }
+    return;
+  }
+
+  await dockerService.putArchive(projectName, path, tar);
+}
+
 /**
  * Write the .task.json file to the project container.
  * Uses the worker's dedicated /task endpoint for worker projects (avoids shell quoting issues with /exec).
@@ -303,6 +420,21 @@ export async function writeTaskFile(projectName: string, taskDef: Record<string,
   await dockerService.execInContainer(projectName, ['bash', '-c', `cat > /workspace/.task.json << 'TASKEOF'\n${json}\nTASKEOF`]);
 }
 
+/** A project's status: its worker's until that is ready, else its container's (local rows are synced to Docker). */
+export async function resolveProjectStatus(project: ProjectRow): Promise<string> {
+  const worker = getWorkerByProject(project.name);
+  if (worker) {
+    return worker.status === 'ready' ? (project.status === 'running' ? 'running' : project.status) : worker.status;
+  }
+
+  const container = await dockerService.getContainerInfo(project.name);
+  const actualStatus = container ? container.status : project.status === 'creating' || project.status === 'destroying' ? project.status : 'stopped';
+  if (actualStatus !== project.status) {
+    updateProject(project.name, { status: actualStatus });
+  }
+  return actualStatus;
+}
+
 /**
  * Get container health info — routes through worker if one exists.
  */
@@ -333,6 +465,36 @@ export async function getContainerHealth(projectName: string): Promise<any | nul
   return null;
 }
 
+/**
+ * Get the gateway's per-call usage records newer than `after` (its seq counter).
+ */
+export async function getGatewayUsage(projectName: string, after: number): Promise<any | null> {
+  const workerUrl = getWorkerUrl(projectName);
+
+  if (workerUrl) {
+    const worker = getWorkerByProject(projectName)!;
+    try {
+      const res = await fetch(`${workerUrl}/container/usage?after=${after}`, {
+        headers: { 'Authorization': `Bearer ${worker.worker_token}` },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (res.ok) return await res.json();
+    } catch {}
+    return null;
+  }
+
+  // Local mode
+  const ip = await dockerService.getContainerIp(projectName);
+  if (!ip) return null;
+  try {
+    const res = await fetch(`http://${ip}:${GATEWAY_PORT}/usage?after=${after}`, {
+      signal: AbortSignal.timeout(3000),
+    });
+    if (res.ok) return await res.json();
+  } catch {}
+  return null;
+}
+
 /**
  * Control the supervisor process (pause/resume/stop/restart).
  * Routes through worker if one exists, otherwise calls gateway HTTP endpoint directly.
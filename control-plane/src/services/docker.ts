@@ -1,4 +1,7 @@
 import Dockerode from 'dockerode';
+import { Writable } from 'stream';
+import type { Duplex, Readable } from 'stream';
+import type { ExecResult } from '../types.js';
 
 const docker = new Dockerode({ socketPath: '/var/run/docker.sock' });
 
@@ -25,6 +28,7 @@ export async function createContainer(opts: {
   env: Record<string, string>;
   memoryMb?: number;
   cpus?: number;
+  start?: boolean; // false: only create it, e.g. to copy files into the volume first
 }): Promise<string> {
   await ensureNetwork();
 
@@ -57,10 +61,14 @@ export async function createContainer(opts: {
     // volume already exists
   }
 
-  await container.start();
+  if (opts.start !== false) await container.start();
   return container.id;
 }
 
+export async function startContainer(name: string): Promise<void> {
+  await docker.getContainer(`synv2-${name}`).start();
+}
+
 export async function removeContainer(name: string, removeVolume = true): Promise<void> {
   const containerName = `synv2-${name}`;
   try {
@@ -159,4 +167,120 @@ export async function execInContainer(name: string, cmd: string[]): Promise<stri
   });
 }
 
+// `timeout` exits 124 when it had to stop the command (TERM, then KILL 5s later)
+const TIMEOUT_EXIT_CODE = 124;
+// Backstop in case the exec stream outlives the in-container timeout
+const TIMEOUT_GRACE_MS = 10_000;
+
+/** Collects a stream up to `maxBytes`, then keeps draining and drops the rest. */
+function createOutputCollector(maxBytes: number) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+  const writable = new Writable({
+    write(chunk: Buffer, _enc, cb) {
+      const room = maxBytes - size;
+      if (chunk.length > room) truncated = true;
+      if (room > 0) {
+        const kept = chunk.subarray(0, room);
+        chunks.push(kept);
+        size += kept.length;
+      }
+      cb();
+    },
+  });
+  return {
+    writable,
+    text: () => Buffer.concat(chunks).toString('utf-8'),
+    truncated: () => truncated,
+  };
+}
+
+/** Wait for Docker to record the exec's exit code (the stream can close a moment before it does). */
+export async function waitForExecExit(exec: Dockerode.Exec): Promise<number | null> {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const info = await exec.inspect();
+    if (!info.Running) return info.ExitCode;
+    await new Promise((r) => setTimeout(r, 100));
+  }
+  return null;
+}
+
+/**
+ * Run a command to completion with separate stdout/stderr.
+ * The command is wrapped in coreutils `timeout` so the whole process group is killed inside the container.
+ */
+export async function runExec(name: string, cmd: string[], opts: { timeoutMs: number; maxOutputBytes: number }): Promise<ExecResult> {
+  const container = docker.getContainer(`synv2-${name}`);
+  const exec = await container.exec({
+    Cmd: ['timeout', '-k', '5s', `${opts.timeoutMs / 1000}s`, ...cmd],
+    AttachStdout: true,
+    AttachStderr: true,
+  });
+
+  const startedAt = Date.now();
+  const stream = await exec.start({ hijack: true, stdin: false });
+  const stdout = createOutputCollector(opts.maxOutputBytes);
+  const stderr = createOutputCollector(opts.maxOutputBytes);
+  docker.modem.demuxStream(stream, stdout.writable, stderr.writable);
+
+  const streamTimedOut = await new Promise<boolean>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      stream.destroy();
+      resolve(true);
+    }, opts.timeoutMs + TIMEOUT_GRACE_MS);
+    stream.on('end', () => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+    stream.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+
+  const exitCode = streamTimedOut ? null : await waitForExecExit(exec);
+  const durationMs = Date.now() - startedAt;
+  return {
+    stdout: stdout.text(),
+    stderr: stderr.text(),
+    exit_code: exitCode,
+    duration_ms: durationMs,
+    truncated: stdout.truncated() || stderr.truncated(),
+    timed_out: streamTimedOut || (exitCode === TIMEOUT_EXIT_CODE && durationMs >= opts.timeoutMs),
+  };
+}
+
+/**
+ * Start an attached exec session with stdin open.
+ * Without a TTY the returned stream is multiplexed; split it with `docker.modem.demuxStream`.
+ */
+export async function startExecSession(
+  name: string,
+  opts: { cmd: string[]; tty: boolean },
+): Promise<{ exec: Dockerode.Exec; stream: Duplex }> {
+  const container = docker.getContainer(`synv2-${name}`);
+  const exec = await container.exec({
+    Cmd: opts.cmd,
+    AttachStdin: true,
+    AttachStdout: true,
+    AttachStderr: true,
+    Tty: opts.tty,
+  });
+  const stream = await exec.start({ hijack: true, stdin: true, Tty: opts.tty });
+  return { exec, stream };
+}
+
+/** Tar stream of a path inside the container (entries are prefixed with the path's basename). */
+export async function getArchive(name: string, path: string): Promise<Readable> {
+  const container = docker.getContainer(`synv2-${name}`);
+  return await container.getArchive({ path }) as Readable;
+}
+
+/** Extract a tar stream into a directory inside the container. */
+export async function putArchive(name: string, path: string, tar: Readable): Promise<void> {
+  const container = docker.getContainer(`synv2-${name}`);
+  await container.putArchive(tar, { path });
+}
+
 export { docker, NETWORK_NAME, IMAGE_NAME };
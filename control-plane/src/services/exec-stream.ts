@@ -0,0 +1,247 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import type { IncomingMessage } from 'http';
+import type { Socket } from 'net';
+import { Writable } from 'stream';
+import { z } from 'zod';
+import * as dockerService from './docker.js';
+import { getWorkerByProject } from '../db/index.js';
+import { getWorkerWsUrl } from './worker-provisioner.js';
+import { recordAuditEvent } from '../routes/audit.js';
+import type { AuthContext } from '../routes/auth.js';
+
+// Exec stream protocol (JSON text frames, binary payloads base64-encoded):
+//   client → server: start (first frame), stdin, stdin_close, resize
+//   server → client: stdout, stderr, then exactly one exit or error before the socket closes
+
+const StartSchema = z.object({
+  type: z.literal('start'),
+  cmd: z.array(z.string()).min(1),
+  tty: z.boolean().optional(),
+  cols: z.number().int().positive().optional(),
+  rows: z.number().int().positive().optional(),
+});
+
+const InputSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('stdin'), data: z.string() }),
+  z.object({ type: z.literal('stdin_close') }),
+  z.object({ type: z.literal('resize'), cols: z.number().int().positive(), rows: z.number().int().positive() }),
+]);
+
+export type ExecStart = z.infer<typeof StartSchema>;
+type ExecInput = z.infer<typeof InputSchema>;
+
+export interface ExecOutput {
+  output(stream: 'stdout' | 'stderr', data: Buffer): void;
+  exit(code: number | null): void;
+  fail(message: string): void;
+}
+
+export interface ExecSession {
+  input(msg: ExecInput): void;
+  abort(): void;
+}
+
+export function handleExecUpgrade(wss: WebSocketServer, req: IncomingMessage, socket: Socket, head: Buffer, auth: AuthContext): void {
+  const url = new URL(req.url || '', `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/ws\/projects\/([^/]+)\/exec$/);
+  if (!match) {
+    socket.destroy();
+    return;
+  }
+
+  const projectName = decodeURIComponent(match[1]);
+
+  wss.handleUpgrade(req, socket, head, (clientWs) => {
+    let start: ExecStart | null = null;
+    let exitCode: number | null = null;
+
+    // One audit event per exec session, written when the client goes away
+    const startedAt = Date.now();
+    clientWs.on('close', (code) => {
+      recordAuditEvent({
+        auth,
+        projectName,
+        method: 'WS',
+        route: url.pathname,
+        action: 'WS /ws/projects/:name/exec',
+        body: start ? { cmd: start.cmd, tty: !!start.tty, exit_code: exitCode } : undefined,
+        status: code,
+        startedAt,
+      });
+    });
+
+    const send = (msg: object) => {
+      if (clientWs.readyState === WebSocket.OPEN) clientWs.send(JSON.stringify(msg));
+    };
+
+    const out: ExecOutput = {
+      output: (stream, data) => send({ type: stream, data: data.toString('base64') }),
+      exit: (code) => {
+        exitCode = code;
+        send({ type: 'exit', code });
+        try { clientWs.close(1000); } catch {}
+      },
+      fail: (message) => {
+        send({ type: 'error', message });
+        try { clientWs.close(1011, message.slice(0, 123)); } catch {}
+      },
+    };
+
+    let session: ExecSession | null = null;
+    const pending: ExecInput[] = [];
+
+    clientWs.on('message', async (data) => {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(data.toString());
+      } catch {
+        return; // ignore malformed frames
+      }
+
+      if (!start) {
+        const parsed = StartSchema.safeParse(raw);
+        if (!parsed.success) {
+          out.fail(`Expected a start frame: ${parsed.error.issues[0].message}`);
+          return;
+        }
+        start = parsed.data;
+
+        try {
+          session = await openSession(projectName, start, out);
+        } catch (err: any) {
+          out.fail(`Exec failed: ${err.message}`);
+          return;
+        }
+
+        // Client may have hung up while the exec was being created
+        if (clientWs.readyState !== WebSocket.OPEN) {
+          session.abort();
+          return;
+        }
+        for (const msg of pending.splice(0)) session.input(msg);
+        return;
+      }
+
+      const parsed = InputSchema.safeParse(raw);
+      if (!parsed.success) return;
+      if (session) session.input(parsed.data);
+      else pending.push(parsed.data);
+    });
+
+    clientWs.on('close', () => session?.abort());
+    clientWs.on('error', () => session?.abort());
+  });
+}
+
+/** Routes through the worker agent if one exists, otherwise execs in the local container. */
+export async function openSession(projectName: string, start: ExecStart, out: ExecOutput): Promise<ExecSession> {
+  const workerWsUrl = getWorkerWsUrl(projectName);
+  if (workerWsUrl) {
+    const worker = getWorkerByProject(projectName)!;
+    return openWorkerSession(`${workerWsUrl}/exec?token=${worker.worker_token}`, start, out);
+  }
+  return openLocalSession(projectName, start, out);
+}
+
+async function openLocalSession(projectName: string, start: ExecStart, out: ExecOutput): Promise<ExecSession> {
+  const tty = !!start.tty;
+  const { exec, stream } = await dockerService.startExecSession(projectName, { cmd: start.cmd, tty });
+
+  const resize = (cols: number, rows: number) => {
+    exec.resize({ h: rows, w: cols }).catch(() => {});
+  };
+  if (tty && start.cols && start.rows) resize(start.cols, start.rows);
+
+  if (tty) {
+    stream.on('data', (chunk: Buffer) => out.output('stdout', chunk));
+  } else {
+    const forward = (name: 'stdout' | 'stderr') => new Writable({
+      write(chunk: Buffer, _enc, cb) {
+        out.output(name, chunk);
+        cb();
+      },
+    });
+    dockerService.docker.modem.demuxStream(stream, forward('stdout'), forward('stderr'));
+  }
+
+  let finished = false;
+  const finish = async () => {
+    if (finished) return;
+    finished = true;
+    try {
+      out.exit(await dockerService.waitForExecExit(exec));
+    } catch (err: any) {
+      out.fail(`Failed to read exit code: ${err.message}`);
+    }
+  };
+  stream.on('end', finish);
+  stream.on('close', finish);
+  stream.on('error', (err) => out.fail(err.message));
+
+  return {
+    input(msg) {
+      if (msg.type === 'stdin') stream.write(Buffer.from(msg.data, 'base64'));
+      else if (msg.type === 'stdin_close') stream.end();
+      else if (msg.type === 'resize' && tty) resize(msg.cols, msg.rows);
+    },
+    abort() {
+      finished = true;
+      stream.destroy();
+    },
+  };
+}
+
+/** The worker agent speaks the same protocol; frames are validated here and relayed. */
+function openWorkerSession(url: string, start: ExecStart, out: ExecOutput): Promise<ExecSession> {
+  return new Promise((resolve, reject) => {
+    const upstreamWs = new WebSocket(url);
+    let opened = false;
+    let done = false;
+
+    // Before open, failures reject the pending session; after open they end the client stream
+    const fail = (message: string) => {
+      if (done) return;
+      done = true;
+      if (opened) out.fail(message);
+      else reject(new Error(message));
+    };
+
+    upstreamWs.on('open', () => {
+      opened = true;
+      upstreamWs.send(JSON.stringify(start));
+      resolve({
+        input(msg) {
+          if (upstreamWs.readyState === WebSocket.OPEN) upstreamWs.send(JSON.stringify(msg));
+        },
+        abort() {
+          done = true;
+          try { upstreamWs.close(); } catch {}
+        },
+      });
+    });
+
+    upstreamWs.on('message', (data) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (msg.type === 'stdout' || msg.type === 'stderr') {
+        out.output(msg.type, Buffer.from(String(msg.data), 'base64'));
+      } else if (msg.type === 'exit') {
+        done = true;
+        out.exit(typeof msg.code === 'number' ? msg.code : null);
+      } else if (msg.type === 'error') {
+        done = true;
+        out.fail(String(msg.message));
+      }
+    });
+
+    upstreamWs.on('error', (err) => fail(`Upstream error: ${err.message}`));
+
+    upstreamWs.on('close', (code, reason) => {
+      fail(`Worker closed exec stream (${code}${reason.length ? `: ${reason}` : ''})`);
+    });
+  });
+}
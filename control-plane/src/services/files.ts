@@ -0,0 +1,101 @@
+import { posix } from 'path';
+import type { Readable } from 'stream';
+import tar from 'tar-stream';
+import { getProjectArchive, putProjectArchive, runInProjectContainer } from './container-manager.js';
+
+const WORKSPACE = '/workspace';
+
+export type WorkspaceFileType = 'file' | 'directory' | 'symlink' | 'other';
+
+/** Resolve a path against /workspace; null if it escapes the workspace. */
+export function resolveWorkspacePath(path: string): string | null {
+  const resolved = posix.resolve(WORKSPACE, path);
+  return resolved === WORKSPACE || resolved.startsWith(`${WORKSPACE}/`) ? resolved : null;
+}
+
+/** Type of a path inside the project container, or null if it does not exist. Symlinks are not followed. */
+export async function statProjectPath(projectName: string, path: string): Promise<WorkspaceFileType | null> {
+  const result = await runInProjectContainer(projectName, ['stat', '-c', '%F', path]);
+  if (result.exit_code !== 0) return null;
+
+  const kind = result.stdout.trim();
+  if (kind === 'regular file' || kind === 'regular empty file') return 'file';
+  if (kind === 'directory') return 'directory';
+  if (kind === 'symbolic link') return 'symlink';
+  return 'other';
+}
+
+async function ensureDir(projectName: string, dir: string): Promise<void> {
+  const result = await runInProjectContainer(projectName, ['mkdir', '-p', dir]);
+  if (result.exit_code !== 0) {
+    throw new Error(result.stderr.trim() || `Failed to create ${dir}`);
+  }
+}
+
+/** Stream a single file's contents out of the container (unwrapped from the archive). */
+export async function readProjectFile(projectName: string, path: string): Promise<{ size: number; stream: Readable }> {
+  const archive = await getProjectArchive(projectName, path);
+  const extract = tar.extract();
+
+  return new Promise((resolve, reject) => {
+    let found = false;
+    extract.on('entry', (header, stream, next) => {
+      stream.on('end', next);
+      if (!found && header.type === 'file') {
+        found = true;
+        resolve({ size: header.size ?? 0, stream });
+      } else {
+        stream.resume();
+      }
+    });
+    extract.on('finish', () => {
+      if (!found) reject(new Error(`No file entry in archive for ${path}`));
+    });
+    extract.on('error', reject);
+    archive.on('error', (err) => extract.destroy(err));
+    archive.pipe(extract);
+  });
+}
+
+/** Write a stream of known length to a file path, creating parent directories. */
+export async function writeProjectFile(projectName: string, path: string, body: Readable, size: number): Promise<void> {
+  const dir = posix.dirname(path);
+  await ensureDir(projectName, dir);
+
+  const pack = tar.pack();
+  const entry = pack.entry({ name: posix.basename(path), size, mode: 0o644, mtime: new Date() }, (err) => {
+    if (err) pack.destroy(err);
+    else pack.finalize();
+  });
+  body.on('error', (err) => pack.destroy(err));
+  body.pipe(entry);
+
+  await putProjectArchive(projectName, dir, pack);
+}
+
+/** Extract a tar stream into a directory, creating it if needed. */
+export async function extractIntoProjectDir(projectName: string, dir: string, archive: Readable): Promise<void> {
+  await ensureDir(projectName, dir);
+  await putProjectArchive(projectName, dir, archive);
+}
+
+/** Re-pack a tar stream without the entries whose names are in `drop` (e.g. "workspace/.task.json"). */
+export function filterArchive(archive: Readable, drop: Set<string>): Readable {
+  const extract = tar.extract();
+  const pack = tar.pack();
+
+  extract.on('entry', (header, stream, next) => {
+    if (drop.has(header.name.replace(/\/$/, ''))) {
+      stream.on('end', next);
+      stream.resume();
+      return;
+    }
+    stream.pipe(pack.entry(header, next));
+  });
+  extract.on('finish', () => pack.finalize());
+  extract.on('error', (err) => pack.destroy(err));
+  archive.on('error', (err) => extract.destroy(err));
+  archive.pipe(extract);
+
+  return pack;
+}
@@ -0,0 +1,62 @@
+import { getContainerHealth } from './container-manager.js';
+import { startStop } from './project-operations.js';
+import type { ProjectRow, ReconcileFinding } from '../types.js';
+
+// Task statuses the supervisor settles in once it stops prompting (COMPLETED / ERROR_STOPPED)
+const FINISHED_TASK_STATUSES = new Set(['completed', 'stopped']);
+
+// When each project was first seen idle. In memory: a control plane restart starts the clock over.
+const idleSince = new Map<string, number>();
+
+export function getIdleSince(projectName: string): string | null {
+  const since = idleSince.get(projectName);
+  return since ? new Date(since).toISOString() : null;
+}
+
+/**
+ * Evaluate a worker project's idle-stop policy (called from each reconcile pass).
+ * Idle means the gateway reports a finished task and no human attached; once that has
+ * held for `idle_stop_minutes` the project is stopped like `synv2 stop` would.
+ */
+export async function checkIdlePolicy(project: ProjectRow, instanceId: string): Promise<ReconcileFinding | null> {
+  if (!project.idle_stop_minutes || project.status !== 'running') {
+    idleSince.delete(project.name);
+    return null;
+  }
+
+  // An unreachable gateway is not evidence of idleness
+  const health = await getContainerHealth(project.name);
+  const taskStatus: string | undefined = health?.task?.status;
+  if (!health || !taskStatus || !FINISHED_TASK_STATUSES.has(taskStatus) || health.humans > 0) {
+    idleSince.delete(project.name);
+    return null;
+  }
+
+  const now = Date.now();
+  const since = idleSince.get(project.name) ?? now;
+  idleSince.set(project.name, since);
+  if (now - since < project.idle_stop_minutes * 60_000) return null;
+
+  idleSince.delete(project.name);
+  const op = startStop(project.name);
+  console.log(`Idle policy: stopping ${project.name} (task ${taskStatus}, idle since ${new Date(since).toISOString()})`);
+  return {
+    kind: 'idle_stop',
+    project: project.name,
+    instance_id: instanceId,
+    detail: `Task ${taskStatus} and no human attached for ${Math.round((now - since) / 60_000)} min; operation ${op.id}`,
+    action: 'stopped',
+  };
+}
+
+/** A project's automatic stop/pause rules: idle stop and budget. */
+export function getPolicyResponse(project: ProjectRow) {
+  return {
+    project: project.name,
+    idle_stop_minutes: project.idle_stop_minutes,
+    idle_since: getIdleSince(project.name),
+    budget_usd: project.budget_usd,
+    budget_action: project.budget_action,
+    budget_exceeded_at: project.budget_exceeded_at,
+  };
+}
@@ -0,0 +1,117 @@
+import * as db from '../db/index.js';
+import { runInProjectContainer } from './container-manager.js';
+
+// Bytes read per exec: their base64 stays under the exec output cap
+const CHUNK_BYTES = 512 * 1024;
+// Chunks per call, so a large backlog is caught up over a few calls rather than one long one
+const MAX_CHUNKS = 32;
+// A line longer than this is skipped rather than buffered; well above what the supervisor writes per line
+const MAX_LINE_BYTES = 8 * 1024 * 1024;
+
+// Prints the file's size, a checksum of its first line, then up to $3 bytes from offset $2 as base64; nothing if there is no file
+const READ_SCRIPT = '[ -f "$1" ] || exit 0; wc -c < "$1"; head -n 1 "$1" | cksum; tail -c +"$(($2 + 1))" "$1" | head -c "$3" | base64 -w 0';
+// Length in bytes of the line starting at offset $2, newline included
+const LINE_LENGTH_SCRIPT = 'tail -c +"$(($2 + 1))" "$1" | head -n 1 | wc -c';
+
+interface Chunk {
+  size: number;
+  head: string;
+  data: Buffer;
+}
+
+/**
+ * Run one of the scripts above on the file and return its stdout. Throws if it failed, timed out, was cut off
+ * or wrote anything to stderr, so a bad read never reaches the framing or moves the cursor.
+ */
+async function runScript(projectName: string, script: string, args: string[]): Promise<string> {
+  const result = await runInProjectContainer(projectName, ['sh', '-c', script, 'sh', ...args]);
+  if (result.timed_out) throw new Error('read timed out');
+  if (result.truncated) throw new Error('read output was truncated');
+  if (result.exit_code !== 0 || result.stderr.trim()) {
+    throw new Error(result.stderr.trim() || `read exited with code ${result.exit_code}`);
+  }
+  return result.stdout;
+}
+
+async function readChunk(projectName: string, file: string, offset: number): Promise<Chunk | null> {
+  const out = await runScript(projectName, READ_SCRIPT, [file, String(offset), String(CHUNK_BYTES)]);
+  const sizeEnd = out.indexOf('\n');
+  const headEnd = out.indexOf('\n', sizeEnd + 1);
+  if (sizeEnd < 0 || headEnd < 0) return null;
+  return {
+    size: parseInt(out.slice(0, sizeEnd), 10),
+    head: out.slice(sizeEnd + 1, headEnd).trim(),
+    data: Buffer.from(out.slice(headEnd + 1), 'base64'),
+  };
+}
+
+// Reads in progress, so a reconcile pass and an API request don't both read and advance the same cursor
+const reading = new Map<string, Promise<number>>();
+
+/**
+ * Pass the lines appended to a JSONL file in the project's workspace since the last call to `store`,
+ * which saves them and returns how many were new. The read position is kept per project and file, so
+ * lines written while the control plane wasn't reading are still picked up. When the supervisor rotates
+ * the file (dropping its oldest lines) its first line changes and reading starts over from the top,
+ * so `store` must skip lines it has already saved. Returns the number of new rows.
+ */
+export function ingestJsonLines(projectName: string, file: string, store: (lines: string[]) => number): Promise<number> {
+  const key = `${projectName}:${file}`;
+  const inFlight = reading.get(key);
+  if (inFlight) return inFlight;
+
+  const run = (async () => {
+    const cursor = db.getIngestCursor(projectName, file);
+    let offset = cursor?.byte_offset ?? 0;
+    let head = cursor?.head ?? null;
+    let stored = 0;
+
+    // Bytes read past `offset` that don't end in a newline yet: a line longer than one chunk, read over several
+    let pending: Buffer = Buffer.alloc(0);
+
+    for (let i = 0; i < MAX_CHUNKS; i++) {
+      const chunk = await readChunk(projectName, file, offset + pending.length);
+      if (!chunk) break;
+
+      if (offset > 0 && (chunk.head !== head || chunk.size < offset + pending.length)) {
+        offset = 0;
+        head = chunk.head;
+        pending = Buffer.alloc(0);
+        continue;
+      }
+      head = chunk.head;
+
+      const full = chunk.data.length >= CHUNK_BYTES;
+      const data = pending.length > 0 ? Buffer.concat([pending, chunk.data]) : chunk.data;
+      const end = data.lastIndexOf(0x0a);
+      if (end < 0) {
+        if (!full) break; // caught up, apart from a line still being written
+        if (data.length < MAX_LINE_BYTES) {
+          pending = data;
+          continue;
+        }
+        const length = parseInt(await runScript(projectName, LINE_LENGTH_SCRIPT, [file, String(offset)]), 10);
+        console.warn(`Skipping a ${length}-byte line in ${file} of ${projectName}`);
+        offset += length || data.length;
+        pending = Buffer.alloc(0);
+        db.setIngestCursor(projectName, file, offset, head);
+        continue;
+      }
+
+      const text = data.subarray(0, end + 1).toString('utf-8');
+      stored += store(text.split('\n').filter((line) => line.length > 0));
+      offset += end + 1;
+      pending = data.subarray(end + 1);
+      db.setIngestCursor(projectName, file, offset, head);
+      if (!full) break;
+    }
+
+    if (head !== (cursor?.head ?? null) || offset !== (cursor?.byte_offset ?? 0)) {
+      db.setIngestCursor(projectName, file, offset, head);
+    }
+    return stored;
+  })().finally(() => reading.delete(key));
+
+  reading.set(key, run);
+  return run;
+}
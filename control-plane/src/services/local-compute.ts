@@ -0,0 +1,142 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import { existsSync, mkdirSync, openSync, closeSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import net from 'net';
+import { resolve, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import type { ComputeProvider } from './compute-provider.js';
+
+// "Instances" are worker-agent processes on this host, each on its own port and managing
+// containers through the local Docker daemon. State lives on disk so workers survive
+// a control-plane restart.
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const STATE_DIR = process.env.LOCAL_WORKER_DIR || resolve(process.cwd(), 'local-workers');
+const AGENT_SCRIPT = process.env.LOCAL_WORKER_AGENT || resolve(__dirname, '../../../container/worker-agent.js');
+// The agent needs `ws`; reuse the control plane's install
+const AGENT_NODE_PATH = resolve(__dirname, '../../node_modules');
+const STOP_TIMEOUT_MS = 10_000;
+
+interface LocalInstance {
+  instanceId: string;
+  projectName: string;
+  instanceType: string;
+  port: number;
+  pid: number | null;
+}
+
+function stateFile(instanceId: string): string {
+  return join(STATE_DIR, `${instanceId}.json`);
+}
+
+function configFile(instanceId: string): string {
+  return join(STATE_DIR, `${instanceId}.config.json`);
+}
+
+function readInstance(instanceId: string): LocalInstance {
+  if (!existsSync(stateFile(instanceId))) throw new Error(`Local worker ${instanceId} not found`);
+  return JSON.parse(readFileSync(stateFile(instanceId), 'utf-8'));
+}
+
+function writeInstance(instance: LocalInstance): void {
+  writeFileSync(stateFile(instance.instanceId), JSON.stringify(instance, null, 2));
+}
+
+function isAlive(pid: number | null): boolean {
+  if (!pid) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolvePort, reject) => {
+    const srv = net.createServer();
+    srv.on('error', reject);
+    srv.listen(0, '127.0.0.1', () => {
+      const { port } = srv.address() as net.AddressInfo;
+      srv.close(() => resolvePort(port));
+    });
+  });
+}
+
+function spawnAgent(instance: LocalInstance): number {
+  const log = openSync(join(STATE_DIR, `${instance.instanceId}.log`), 'a');
+  const child = spawn(process.execPath, [AGENT_SCRIPT], {
+    env: { ...process.env, WORKER_CONFIG: configFile(instance.instanceId), NODE_PATH: AGENT_NODE_PATH },
+    detached: true,
+    stdio: ['ignore', log, log],
+  });
+  closeSync(log);
+  child.unref();
+  if (!child.pid) throw new Error(`Failed to start worker agent ${AGENT_SCRIPT}`);
+  return child.pid;
+}
+
+async function killAgent(pid: number | null): Promise<void> {
+  if (!isAlive(pid)) return;
+  process.kill(pid!, 'SIGTERM');
+  const start = Date.now();
+  while (isAlive(pid) && Date.now() - start < STOP_TIMEOUT_MS) {
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  if (isAlive(pid)) process.kill(pid!, 'SIGKILL');
+}
+
+/** Worker agents as local processes, for running the worker lifecycle without EC2. */
+export const localComputeProvider: ComputeProvider = {
+  name: 'local',
+  region: 'local',
+
+  async launch(spec) {
+    if (!existsSync(AGENT_SCRIPT)) throw new Error(`Worker agent not found at ${AGENT_SCRIPT}`);
+    mkdirSync(STATE_DIR, { recursive: true });
+
+    const instanceId = `local-${crypto.randomBytes(6).toString('hex')}`;
+    const port = await findFreePort();
+    writeFileSync(configFile(instanceId), JSON.stringify({
+      projectName: spec.projectName,
+      controlPlaneHost: spec.controlPlaneHost,
+      workerToken: spec.workerToken,
+      port,
+    }, null, 2));
+
+    const instance: LocalInstance = { instanceId, projectName: spec.projectName, instanceType: spec.instanceType, port, pid: null };
+    instance.pid = spawnAgent(instance);
+    writeInstance(instance);
+
+    return { instanceId, availabilityZone: null, agentPort: port };
+  },
+
+  async waitUntilRunning(instanceId) {
+    const instance = readInstance(instanceId);
+    if (!isAlive(instance.pid)) throw new Error(`Local worker ${instanceId} is not running (see ${STATE_DIR}/${instanceId}.log)`);
+    return { privateIp: '127.0.0.1', publicIp: null };
+  },
+
+  async stop(instanceId) {
+    const instance = readInstance(instanceId);
+    await killAgent(instance.pid);
+    writeInstance({ ...instance, pid: null });
+  },
+
+  async start(instanceId) {
+    const instance = readInstance(instanceId);
+    if (isAlive(instance.pid)) return;
+    writeInstance({ ...instance, pid: spawnAgent(instance) });
+  },
+
+  async setInstanceType(instanceId, instanceType) {
+    // Size is only recorded; a local process has no instance type to change
+    writeInstance({ ...readInstance(instanceId), instanceType });
+  },
+
+  async terminate(instanceId) {
+    if (!existsSync(stateFile(instanceId))) return;
+    await killAgent(readInstance(instanceId).pid);
+    rmSync(stateFile(instanceId), { force: true });
+    rmSync(configFile(instanceId), { force: true });
+  },
+};
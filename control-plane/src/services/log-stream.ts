@@ -0,0 +1,187 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import type { IncomingMessage } from 'http';
+import type { Socket } from 'net';
+import { z } from 'zod';
+import { openSession } from './exec-stream.js';
+import type { ExecSession } from './exec-stream.js';
+
+// Log stream protocol (JSON text frames, server → client only):
+//   line { text } for each matching line — the backlog first, then live { } once, then new lines as written;
+//   end { } if the tail exits (container stopped) or error { message }, before the socket closes
+
+export const SUPERVISOR_LOG_FILE = '/workspace/.supervisor.log';
+
+// How far back a filtered request looks for its last N matches
+export const MAX_SCAN_LINES = 10_000;
+
+export const LogQuerySchema = z.object({
+  lines: z.coerce.number().int().min(0).max(MAX_SCAN_LINES).optional(),
+  grep: z.string().min(1).max(500).optional(),
+  ignore_case: z.enum(['0', '1', 'true', 'false']).optional(),
+  since: z.string().datetime().optional(),
+});
+
+export type LogQuery = z.infer<typeof LogQuerySchema>;
+
+// Supervisor log lines start with "[<ISO timestamp>] [<STATE>] "
+const TIMESTAMP_RE = /^\[(\d{4}-\d{2}-\d{2}T[^\]]+)\]/;
+// What tail -F's notices about the log file start with ("tail: <file>: file truncated", "tail: '<file>' has appeared; ...")
+const TAIL_NOTICE_PREFIX = `tail: ${SUPERVISOR_LOG_FILE}: `;
+const TAIL_NOTICE_PREFIX_QUOTED = `tail: '${SUPERVISOR_LOG_FILE}' `;
+
+export interface LogFilter {
+  /** Whether to show this line; lines without a timestamp follow the line before them. */
+  (line: string): boolean;
+  active: boolean;
+}
+
+/**
+ * Build the grep/since filter for a query. grep is plain text, not a regular expression: any token that
+ * can read logs can set it, and a pathological pattern would stall the event loop on every line.
+ */
+export function createLogFilter(query: LogQuery): LogFilter {
+  const ignoreCase = query.ignore_case === '1' || query.ignore_case === 'true';
+  const text = query.grep ? (ignoreCase ? query.grep.toLowerCase() : query.grep) : null;
+  const since = query.since ? new Date(query.since).toISOString() : null;
+  let afterSince = !since;
+
+  const filter = ((line: string) => {
+    if (since) {
+      const ts = line.match(TIMESTAMP_RE)?.[1];
+      if (ts) afterSince = ts >= since;
+      if (!afterSince) return false;
+    }
+    return !text || (ignoreCase ? line.toLowerCase() : line).includes(text);
+  }) as LogFilter;
+  filter.active = !!(text || since);
+  return filter;
+}
+
+/** Lines to read from the end of the file: just N, or a wider window when filtering. */
+export function scanLines(query: LogQuery, filter: LogFilter): number {
+  const wanted = query.lines ?? 100;
+  return filter.active ? MAX_SCAN_LINES : wanted;
+}
+
+/** The last `lines` lines of `text` that pass the filter. */
+export function filterLogText(text: string, query: LogQuery, filter: LogFilter): string {
+  const wanted = query.lines ?? 100;
+  const matched = text.split('\n').filter((line) => line !== '' && filter(line));
+  return matched.slice(Math.max(0, matched.length - wanted)).join('\n');
+}
+
+export function handleLogStreamUpgrade(wss: WebSocketServer, req: IncomingMessage, socket: Socket, head: Buffer): void {
+  const url = new URL(req.url || '', `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/ws\/projects\/([^/]+)\/logs$/);
+  if (!match) {
+    socket.destroy();
+    return;
+  }
+
+  const projectName = decodeURIComponent(match[1]);
+  const parsed = LogQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+  wss.handleUpgrade(req, socket, head, async (clientWs) => {
+    const send = (msg: object) => {
+      if (clientWs.readyState === WebSocket.OPEN) clientWs.send(JSON.stringify(msg));
+    };
+    const fail = (message: string) => {
+      send({ type: 'error', message });
+      try { clientWs.close(1011, message.slice(0, 123)); } catch {}
+    };
+
+    if (!parsed.success) {
+      fail(parsed.error.issues[0].message);
+      return;
+    }
+
+    const filter = createLogFilter(parsed.data);
+
+    // The backlog and the live tail run in one exec, split by a marker line, so nothing falls between them.
+    // Docker doesn't kill an exec when its stream closes, only ends its stdin, so the tail is stopped on stdin EOF.
+    const marker = `--synv2-live-${Date.now()}--`;
+    const cmd = [
+      'sh', '-c', 'tail -n "$1" "$0"; echo "$2"; tail -n 0 -F "$0" 2>&1 & cat >/dev/null; kill $! 2>/dev/null',
+      SUPERVISOR_LOG_FILE, String(scanLines(parsed.data, filter)), marker,
+    ];
+
+    let live = false;
+    let backlog: string[] = [];
+    let partial = '';
+    // The supervisor rotates by rewriting the file, and tail -F then prints it again from the top after a
+    // "file truncated" notice (its stderr comes in line with the output). Those lines up to the last one
+    // seen are skipped; lines are counted per timestamp since several are often logged in the same millisecond
+    let lastTs = '';
+    let seenAtLastTs = 0;
+    let replay: { atLastTs: number } | null = null;
+    let skipping = false; // whether the current timestamped line, and so its continuation lines, is skipped
+
+    const isReplayed = (line: string): boolean => {
+      const ts = line.match(TIMESTAMP_RE)?.[1];
+      if (!ts) return skipping;
+      if (replay) {
+        if (ts < lastTs || (ts === lastTs && replay.atLastTs < seenAtLastTs)) {
+          if (ts === lastTs) replay.atLastTs++;
+          return (skipping = true);
+        }
+        replay = null;
+      }
+      if (ts === lastTs) {
+        seenAtLastTs++;
+      } else if (ts > lastTs) {
+        lastTs = ts;
+        seenAtLastTs = 1;
+      }
+      return (skipping = false);
+    };
+
+    const onLine = (line: string) => {
+      if (!live) {
+        if (line === marker) {
+          live = true;
+          const wanted = parsed.data.lines ?? 100;
+          const matched = backlog.filter((l) => filter(l));
+          for (const text of matched.slice(Math.max(0, matched.length - wanted))) send({ type: 'line', text });
+          backlog = [];
+          send({ type: 'live' });
+        } else {
+          isReplayed(line);
+          backlog.push(line);
+        }
+        return;
+      }
+      if (line.startsWith(TAIL_NOTICE_PREFIX) || line.startsWith(TAIL_NOTICE_PREFIX_QUOTED)) {
+        if (line.endsWith('file truncated') || line.endsWith('following new file')) replay = { atLastTs: 0 };
+        return;
+      }
+      if (!isReplayed(line) && filter(line)) send({ type: 'line', text: line });
+    };
+
+    let session: ExecSession;
+    try {
+      session = await openSession(projectName, { type: 'start', cmd }, {
+        output: (stream, data) => {
+          if (stream !== 'stdout') return;
+          const lines = (partial + data.toString('utf-8')).split('\n');
+          partial = lines.pop() ?? '';
+          for (const line of lines) onLine(line);
+        },
+        exit: () => {
+          send({ type: 'end' });
+          try { clientWs.close(1000); } catch {}
+        },
+        fail,
+      });
+    } catch (err: any) {
+      fail(`Log stream failed: ${err.message}`);
+      return;
+    }
+
+    if (clientWs.readyState !== WebSocket.OPEN) {
+      session.abort();
+      return;
+    }
+    clientWs.on('close', () => session.abort());
+    clientWs.on('error', () => session.abort());
+  });
+}
@@ -2,8 +2,27 @@ import WebSocket, { WebSocketServer } from 'ws';
 import type { IncomingMessage } from 'http';
 import type { Socket } from 'net';
 import { getGatewayUrl } from './container-manager.js';
+import { recordAuditEvent } from '../routes/audit.js';
+import type { AuthContext } from '../routes/auth.js';
 
-export function handleUpgrade(wss: WebSocketServer, req: IncomingMessage, socket: Socket, head: Buffer): void {
+// Query parameters passed through to the gateway: a resume cursor (since=<seq>, optionally with boot_id)
+const RESUME_PARAMS = ['since', 'boot_id'];
+
+/**
+ * What a read-only client may send upstream: only an identify, and always as an observer, so it can
+ * watch without pausing the supervisor or messaging the agent. Returns null to drop the message.
+ */
+function readOnlyMessage(data: WebSocket.RawData, clientWs: WebSocket): string | null {
+  let msg: any;
+  try { msg = JSON.parse(data.toString()); } catch { return null; }
+  if (msg?.type === 'identify') return JSON.stringify({ type: 'identify', role: 'observer' });
+  if (msg?.type === 'user_message' && clientWs.readyState === WebSocket.OPEN) {
+    clientWs.send(JSON.stringify({ type: 'error', error: 'Read-only token: watching only, an operator token is needed to send messages' }));
+  }
+  return null;
+}
+
+export function handleUpgrade(wss: WebSocketServer, req: IncomingMessage, socket: Socket, head: Buffer, auth: AuthContext): void {
   const url = new URL(req.url || '', `http://${req.headers.host}`);
   const match = url.pathname.match(/^\/ws\/projects\/([^/]+)\/chat$/);
   if (!match) {
@@ -14,24 +33,45 @@ export function handleUpgrade(wss: WebSocketServer, req: IncomingMessage, socket
   const projectName = decodeURIComponent(match[1]);
 
   wss.handleUpgrade(req, socket, head, (clientWs) => {
-    relay(clientWs, projectName);
+    // One audit event per chat session, written when the client goes away
+    const startedAt = Date.now();
+    clientWs.on('close', (code) => {
+      recordAuditEvent({
+        auth,
+        projectName,
+        method: 'WS',
+        route: url.pathname,
+        action: 'WS /ws/projects/:name/chat',
+        status: code,
+        startedAt,
+      });
+    });
+
+    relay(clientWs, projectName, url.searchParams, auth.role === 'read');
   });
 }
 
-async function relay(clientWs: WebSocket, projectName: string): Promise<void> {
+async function relay(clientWs: WebSocket, projectName: string, params: URLSearchParams, readOnly: boolean): Promise<void> {
   const gatewayUrl = await getGatewayUrl(projectName);
   if (!gatewayUrl) {
     clientWs.close(4004, `Project "${projectName}" gateway not available`);
     return;
   }
 
-  const upstreamWs = new WebSocket(gatewayUrl);
+  const upstreamUrl = new URL(gatewayUrl);
+  for (const key of RESUME_PARAMS) {
+    const value = params.get(key);
+    if (value !== null) upstreamUrl.searchParams.set(key, value);
+  }
+
+  const upstreamWs = new WebSocket(upstreamUrl);
 
   upstreamWs.on('open', () => {
     // Relay: client → upstream
     clientWs.on('message', (data) => {
-      if (upstreamWs.readyState === WebSocket.OPEN) {
-        upstreamWs.send(data);
+      const out = readOnly ? readOnlyMessage(data, clientWs) : data;
+      if (out !== null && upstreamWs.readyState === WebSocket.OPEN) {
+        upstreamWs.send(out);
       }
     });
 
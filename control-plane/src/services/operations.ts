@@ -0,0 +1,127 @@
+import { randomBytes } from 'crypto';
+import * as db from '../db/index.js';
+import type { OperationLogEntry, OperationRow, OperationStatus, OperationStep } from '../types.js';
+
+const MAX_LOG_ENTRIES = 200;
+
+/** Record a new running operation with its planned steps (all pending). */
+export function createOperation(type: string, projectName: string, stepNames: string[], params: Record<string, unknown> = {}): OperationRow {
+  const now = new Date().toISOString();
+  const steps: OperationStep[] = stepNames.map((name) => ({ name, status: 'pending', started_at: null, finished_at: null }));
+  const row: OperationRow = {
+    id: `op_${randomBytes(6).toString('hex')}`,
+    type,
+    project_name: projectName,
+    status: 'running',
+    params: JSON.stringify(params),
+    steps: JSON.stringify(steps),
+    logs: JSON.stringify([{ at: now, message: `${type} started` }]),
+    error: null,
+    created_at: now,
+    updated_at: now,
+    finished_at: null,
+  };
+  db.insertOperation(row);
+  return row;
+}
+
+/**
+ * Create an operation and run it in the background. It succeeds when `run` resolves
+ * (unless `run` already finished it, e.g. as rolled back) and fails with the error it throws.
+ */
+export function startOperation(
+  type: string,
+  projectName: string,
+  stepNames: string[],
+  params: Record<string, unknown>,
+  run: (operationId: string) => Promise<void>,
+): OperationRow {
+  const op = createOperation(type, projectName, stepNames, params);
+
+  run(op.id).then(
+    () => {
+      if (db.getOperation(op.id)?.status === 'running') finishOperation(op.id, 'succeeded');
+    },
+    (err: any) => {
+      console.error(`Operation ${op.id} (${type} ${projectName}) failed: ${err.message}`);
+      if (db.getOperation(op.id)?.status === 'running') finishOperation(op.id, 'failed', err.message);
+    },
+  );
+  return op;
+}
+
+export function appendLog(operationId: string, message: string): void {
+  const row = db.getOperation(operationId);
+  if (!row) return;
+  const logs: OperationLogEntry[] = JSON.parse(row.logs);
+  logs.push({ at: new Date().toISOString(), message });
+  db.updateOperation(operationId, { logs: JSON.stringify(logs.slice(-MAX_LOG_ENTRIES)) });
+}
+
+function updateStep(operationId: string, name: string, update: Partial<OperationStep>): void {
+  const row = db.getOperation(operationId);
+  if (!row) return;
+  const steps: OperationStep[] = JSON.parse(row.steps);
+  let step = steps.find((s) => s.name === name);
+  if (!step) {
+    // Unplanned steps (e.g. rollback) are appended as they start
+    step = { name, status: 'pending', started_at: null, finished_at: null };
+    steps.push(step);
+  }
+  Object.assign(step, update);
+  db.updateOperation(operationId, { steps: JSON.stringify(steps) });
+}
+
+/** Run one step, recording when it starts and how it ends. Errors are rethrown. */
+export async function runStep<T>(operationId: string, name: string, fn: () => Promise<T>): Promise<T> {
+  updateStep(operationId, name, { status: 'running', started_at: new Date().toISOString() });
+  appendLog(operationId, `${name}: started`);
+  try {
+    const result = await fn();
+    updateStep(operationId, name, { status: 'done', finished_at: new Date().toISOString() });
+    appendLog(operationId, `${name}: done`);
+    return result;
+  } catch (err: any) {
+    updateStep(operationId, name, { status: 'failed', finished_at: new Date().toISOString(), error: err.message });
+    appendLog(operationId, `${name}: failed — ${err.message}`);
+    throw err;
+  }
+}
+
+export function finishOperation(operationId: string, status: Exclude<OperationStatus, 'running'>, error?: string): void {
+  appendLog(operationId, error ? `${status}: ${error}` : status);
+  db.updateOperation(operationId, { status, error: error ?? null, finished_at: new Date().toISOString() });
+}
+
+/**
+ * Operations run inside the control-plane process, so any still "running" at startup
+ * were cut off by a restart. Fail them (and their projects) so they don't block new ones.
+ */
+export function failInterruptedOperations(): void {
+  for (const op of db.listRunningOperations()) {
+    const steps: OperationStep[] = JSON.parse(op.steps);
+    for (const step of steps) {
+      if (step.status === 'running') step.status = 'failed';
+    }
+    db.updateOperation(op.id, { steps: JSON.stringify(steps) });
+    finishOperation(op.id, 'failed', 'Interrupted by a control plane restart');
+    if (db.getProject(op.project_name)) db.updateProject(op.project_name, { status: 'error' });
+    console.warn(`Operation ${op.id} (${op.type} ${op.project_name}) was interrupted by a restart`);
+  }
+}
+
+export function toOperationResponse(row: OperationRow) {
+  return {
+    id: row.id,
+    type: row.type,
+    project: row.project_name,
+    status: row.status,
+    params: JSON.parse(row.params),
+    steps: JSON.parse(row.steps) as OperationStep[],
+    logs: JSON.parse(row.logs) as OperationLogEntry[],
+    error: row.error,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    finished_at: row.finished_at,
+  };
+}
@@ -0,0 +1,93 @@
+import * as db from '../db/index.js';
+import { getContainerHealth, execInProjectContainer, resolveProjectStatus } from './container-manager.js';
+import { ingestSupervisorEvents } from './supervisor-events.js';
+import type { ProjectRow } from '../types.js';
+
+/** Sum of the %CPU column of `ps aux`; above 100 when several cores are busy. */
+function parseCpuPercent(ps: string): number | null {
+  const lines = ps.trim().split('\n');
+  if (lines.length < 2) return null;
+  let total = 0;
+  for (const line of lines.slice(1)) {
+    const cpu = parseFloat(line.trim().split(/\s+/)[2]);
+    if (!isNaN(cpu)) total += cpu;
+  }
+  return Math.round(total * 10) / 10;
+}
+
+/** Used and total MB from the "Mem:" row of `free -m`. */
+function parseMemory(free: string): { used_mb: number; total_mb: number } | null {
+  const row = free.split('\n').find((line) => line.startsWith('Mem:'));
+  if (!row) return null;
+  const [total, used] = row.trim().split(/\s+/).slice(1, 3).map((n) => parseInt(n, 10));
+  if (isNaN(total) || isNaN(used)) return null;
+  return { used_mb: used, total_mb: total };
+}
+
+/** The supervisor's state as of its latest event: the new state for a state_change, else the one it was in. */
+function latestSupervisorState(projectName: string): string | null {
+  const [latest] = db.listSupervisorEvents({ project: projectName, limit: 1 });
+  if (!latest) return null;
+  if (latest.type === 'state_change') {
+    const to = JSON.parse(latest.data).to;
+    if (typeof to === 'string') return to;
+  }
+  return latest.state;
+}
+
+/**
+ * Everything a live dashboard shows for one project, gathered in one go: status, the gateway's view
+ * (supervisor, agent, attached clients, task) and the container's CPU and memory as `/processes` reports them.
+ */
+export async function getProjectOverview(project: ProjectRow) {
+  const status = await resolveProjectStatus(project);
+  const worker = db.getWorkerByProject(project.name);
+  const base = {
+    name: project.name,
+    status,
+    instance_type: project.instance_type,
+    worker_instance_id: worker?.instance_id ?? null,
+  };
+
+  if (status !== 'running') {
+    return { ...base, reachable: false, supervisor: null, agent_busy: null, humans: 0, observers: 0, task: null, resources: null };
+  }
+
+  const [health, ps, free] = await Promise.all([
+    getContainerHealth(project.name),
+    execInProjectContainer(project.name, ['ps', 'aux', '--sort=-pcpu']).catch(() => ''),
+    execInProjectContainer(project.name, ['free', '-m']).catch(() => ''),
+    ingestSupervisorEvents(project.name).catch(() => 0),
+  ]);
+
+  const cpu = parseCpuPercent(ps);
+  const memory = parseMemory(free);
+  const task = health?.task ?? null;
+
+  return {
+    ...base,
+    reachable: !!health,
+    supervisor: {
+      connected: !!health?.supervisorConnected,
+      state: latestSupervisorState(project.name),
+    },
+    agent_busy: health ? !!health.agentBusy : null,
+    humans: health?.humans ?? 0,
+    observers: health?.observers ?? 0,
+    task: task && {
+      id: task.id,
+      name: task.name,
+      status: task.status,
+      turns_completed: task.turns_completed ?? 0,
+      latest_metric: task.latest_metric ?? null,
+      blocked: !!task.blocked,
+      questions: Array.isArray(task.questions) ? task.questions : [],
+    },
+    resources: cpu === null && !memory ? null : {
+      cpu_percent: cpu,
+      cpus: health?.instance?.cpus ? Number(health.instance.cpus) : null,
+      memory_used_mb: memory?.used_mb ?? null,
+      memory_total_mb: memory?.total_mb ?? null,
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+
+export interface TokenPrices {
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write: number;
+}
+
+export interface PriceTable {
+  instances: Record<string, number>; // USD per hour
+  tokens: TokenPrices; // USD per million tokens, for models not matched in `models`
+  models: Record<string, TokenPrices>; // keyed by a fragment of the model id; the longest match wins
+}
+
+// On-demand Linux prices in us-east-1
+const DEFAULT_INSTANCE_PRICES: Record<string, number> = {
+  't3.medium': 0.0416,
+  't3.large': 0.0832,
+  't3.xlarge': 0.1664,
+  't3.2xlarge': 0.3328,
+  'm7i.large': 0.1008,
+  'm7i.xlarge': 0.2016,
+  'm7i.2xlarge': 0.4032,
+  'm7i.4xlarge': 0.8064,
+  'm7i.8xlarge': 1.6128,
+  'c7i.large': 0.0893,
+  'c7i.xlarge': 0.1785,
+  'c7i.2xlarge': 0.357,
+  'c7i.4xlarge': 0.714,
+  'c7i.8xlarge': 1.428,
+  'c7i.12xlarge': 2.142,
+  'c7i.16xlarge': 2.856,
+  'r7i.large': 0.1323,
+  'r7i.xlarge': 0.2646,
+  'r7i.2xlarge': 0.5292,
+  'r7i.4xlarge': 1.0584,
+};
+
+// Claude Sonnet list prices
+const DEFAULT_TOKEN_PRICES: TokenPrices = {
+  input: 3,
+  output: 15,
+  cache_read: 0.3,
+  cache_write: 3.75,
+};
+
+const LEGACY_OPUS_PRICES: TokenPrices = { input: 15, output: 75, cache_read: 1.5, cache_write: 18.75 };
+
+// Claude list prices by model family. Bare families carry the current rate, so newer ids price right
+// without an entry; older models priced differently are keyed by the fragments of their ids
+const DEFAULT_MODEL_PRICES: Record<string, TokenPrices> = {
+  'opus': { input: 5, output: 25, cache_read: 0.5, cache_write: 6.25 },
+  'opus-4-1': LEGACY_OPUS_PRICES,
+  'opus-4-0': LEGACY_OPUS_PRICES,
+  'opus-4-20250514': LEGACY_OPUS_PRICES,
+  '3-opus': LEGACY_OPUS_PRICES,
+  'sonnet': DEFAULT_TOKEN_PRICES,
+  'haiku': { input: 1, output: 5, cache_read: 0.1, cache_write: 1.25 },
+  '3-5-haiku': { input: 0.8, output: 4, cache_read: 0.08, cache_write: 1 },
+  '3-haiku': { input: 0.25, output: 1.25, cache_read: 0.03, cache_write: 0.3 },
+};
+
+let cached: PriceTable | null = null;
+
+/**
+ * Built-in prices, overridden by the JSON file at PRICE_TABLE_PATH if set:
+ * `{ "instances": { "c7i.12xlarge": 1.9 }, "tokens": { "input": 3, "output": 15 }, "models": { "haiku": { "input": 1, "output": 5 } } }`.
+ * Read once per process.
+ */
+export function getPriceTable(): PriceTable {
+  if (cached) return cached;
+
+  let overrides: Partial<{ instances: Record<string, number>; tokens: Partial<TokenPrices>; models: Record<string, Partial<TokenPrices>> }> = {};
+  const path = process.env.PRICE_TABLE_PATH;
+  if (path) {
+    try {
+      overrides = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (err: any) {
+      console.error(`Ignoring price table ${path}: ${err.message}`);
+    }
+  }
+
+  const tokens = { ...DEFAULT_TOKEN_PRICES, ...overrides.tokens };
+  const models = { ...DEFAULT_MODEL_PRICES };
+  for (const [key, prices] of Object.entries(overrides.models || {})) {
+    models[key] = { ...(models[key] || tokens), ...prices };
+  }
+
+  cached = {
+    instances: { ...DEFAULT_INSTANCE_PRICES, ...overrides.instances },
+    tokens,
+    models,
+  };
+  return cached;
+}
+
+/** Per-million-token prices for a model id (e.g. "claude-3-5-haiku-latest"); the default rate if none matches. */
+export function tokenPricesFor(model: string | null): TokenPrices {
+  const table = getPriceTable();
+  if (!model) return table.tokens;
+
+  let match: string | null = null;
+  for (const key of Object.keys(table.models)) {
+    if (model.includes(key) && (!match || key.length > match.length)) match = key;
+  }
+  return match ? table.models[match] : table.tokens;
+}
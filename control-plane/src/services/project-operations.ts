@@ -0,0 +1,158 @@
+import * as db from '../db/index.js';
+import { createProjectContainer, destroyProjectContainer, restartProjectContainer } from './container-manager.js';
+import {
+  provisionWorker,
+  waitForWorkerReady,
+  terminateWorker,
+  stopWorker,
+  setWorkerInstanceType,
+  startWorker,
+  waitForWorkerHealthy,
+  getWorkerUrl,
+} from './worker-provisioner.js';
+import { appendLog, finishOperation, runStep, startOperation } from './operations.js';
+import { syncTaskFromContainer } from './tasks.js';
+import type { OperationRow, WorkerRow } from '../types.js';
+
+// Project lifecycle actions as background operations (poll GET /api/operations/:id)
+
+/** Create the container for a project row that was just inserted, launching its worker first if it has one. */
+export function startCreate(projectName: string, instanceType?: string): OperationRow {
+  const steps = instanceType ? ['launching', 'waiting-for-worker', 'container-create'] : ['container-create'];
+
+  return startOperation('create', projectName, steps, { instance_type: instanceType ?? null }, async (opId) => {
+    try {
+      if (instanceType) {
+        const instanceId = await runStep(opId, 'launching', () => provisionWorker(projectName, instanceType));
+        appendLog(opId, `Launched ${instanceType} instance ${instanceId}`);
+        await runStep(opId, 'waiting-for-worker', () => waitForWorkerReady(instanceId));
+      }
+      await runStep(opId, 'container-create', () => createProjectContainer(projectName));
+    } catch (err) {
+      db.updateProject(projectName, { status: 'error' });
+      throw err;
+    }
+  });
+}
+
+export function startRestart(projectName: string): OperationRow {
+  return startOperation('restart', projectName, ['container-restart'], {}, async (opId) => {
+    try {
+      await runStep(opId, 'container-restart', () => restartProjectContainer(projectName));
+    } catch (err) {
+      db.updateProject(projectName, { status: 'error' });
+      throw err;
+    }
+  });
+}
+
+/** Remove the container and its volume, terminate the worker, then delete the project row. */
+export function startDestroy(projectName: string): OperationRow {
+  const worker = db.getWorkerByProject(projectName);
+  const hasWorker = !!worker && worker.status !== 'terminated';
+  const steps = hasWorker ? ['container-destroy', 'worker-terminate', 'cleanup'] : ['container-destroy', 'cleanup'];
+
+  db.updateProject(projectName, { status: 'destroying' });
+  return startOperation('destroy', projectName, steps, {}, async (opId) => {
+    try {
+      await runStep(opId, 'container-destroy', () => destroyProjectContainer(projectName));
+      if (hasWorker) {
+        await runStep(opId, 'worker-terminate', () => terminateWorker(worker!.instance_id));
+      }
+    } catch (err) {
+      db.updateProject(projectName, { status: 'error' });
+      throw err;
+    }
+    await runStep(opId, 'cleanup', async () => db.deleteProject(projectName));
+  });
+}
+
+/**
+ * Hibernate a project: remove its container (keeping the workspace volume) and stop its
+ * worker instance. The task is synced to the DB first; `.task.json` stays on the volume.
+ */
+export function startStop(projectName: string): OperationRow {
+  const worker = db.getWorkerByProject(projectName);
+  const stopInstance = !!worker && worker.status !== 'stopped';
+  const steps = stopInstance ? ['task-sync', 'container-stop', 'worker-stop'] : ['task-sync', 'container-stop'];
+
+  return startOperation('stop', projectName, steps, {}, async (opId) => {
+    try {
+      await runStep(opId, 'task-sync', () => syncTaskFromContainer(projectName));
+      await runStep(opId, 'container-stop', async () => {
+        // A worker that isn't ready has no agent to ask; its container goes down with the instance
+        if (!worker || getWorkerUrl(projectName)) await destroyProjectContainer(projectName, false);
+      });
+      if (stopInstance) {
+        await runStep(opId, 'worker-stop', () => stopWorker(worker!.instance_id));
+      }
+    } catch (err) {
+      db.updateProject(projectName, { status: 'error' });
+      throw err;
+    }
+    db.updateProject(projectName, { status: 'stopped' });
+  });
+}
+
+/** Bring a stopped project back: start its worker, then recreate the container on the existing volume. */
+export function startStart(projectName: string): OperationRow {
+  const worker = db.getWorkerByProject(projectName);
+  const startInstance = !!worker && worker.status === 'stopped';
+  const steps = startInstance ? ['worker-start', 'bootstrapping', 'container-start'] : ['container-start'];
+
+  return startOperation('start', projectName, steps, {}, async (opId) => {
+    try {
+      if (startInstance) {
+        await runStep(opId, 'worker-start', () => startWorker(worker!.instance_id));
+        await runStep(opId, 'bootstrapping', () => waitForWorkerHealthy(worker!.instance_id));
+      }
+      // The supervisor picks up the task from .task.json on the volume
+      await runStep(opId, 'container-start', () => restartProjectContainer(projectName));
+    } catch (err) {
+      db.updateProject(projectName, { status: 'error' });
+      throw err;
+    }
+  });
+}
+
+const RESIZE_STEPS = ['stopping', 'modifying', 'starting', 'bootstrapping', 'container-recreate'];
+
+/** Resize a project's worker. On failure the worker is put back on its previous instance type. */
+export function startResize(worker: WorkerRow, instanceType: string): OperationRow {
+  const { instance_id: instanceId, project_name: projectName, instance_type: previousType } = worker;
+  const params = { from: previousType, to: instanceType, instance_id: instanceId };
+
+  db.updateProject(projectName, { status: 'resizing' });
+  return startOperation('resize', projectName, RESIZE_STEPS, params, async (opId) => {
+    try {
+      await resizeTo(instanceId, projectName, instanceType, (name, fn) => runStep(opId, name, fn));
+      console.log(`Worker ${instanceId} resized to ${instanceType}`);
+    } catch (err: any) {
+      appendLog(opId, `Rolling back to ${previousType}`);
+      try {
+        // The rollback is recorded as one extra step
+        await runStep(opId, 'rollback', () => resizeTo(instanceId, projectName, previousType, (_name, fn) => fn()));
+      } catch (rollbackErr: any) {
+        db.updateProject(projectName, { status: 'error' });
+        db.updateWorker(instanceId, { status: 'error' });
+        throw new Error(`${err.message}; rollback to ${previousType} failed: ${rollbackErr.message}`);
+      }
+      finishOperation(opId, 'rolled_back', err.message);
+    }
+  });
+}
+
+type StepRunner = <T>(name: string, fn: () => Promise<T>) => Promise<T>;
+
+/** Stop (if needed) → set type → start → wait for the agent → recreate the container. */
+async function resizeTo(instanceId: string, projectName: string, instanceType: string, step: StepRunner): Promise<void> {
+  await step('stopping', async () => {
+    // Container first while the agent is reachable; the workspace volume stays on the instance's disk
+    if (getWorkerUrl(projectName)) await destroyProjectContainer(projectName, false);
+    if (db.getWorker(instanceId)?.status !== 'stopped') await stopWorker(instanceId);
+  });
+  await step('modifying', () => setWorkerInstanceType(instanceId, instanceType));
+  await step('starting', () => startWorker(instanceId));
+  await step('bootstrapping', () => waitForWorkerHealthy(instanceId));
+  await step('container-recreate', () => createProjectContainer(projectName));
+}
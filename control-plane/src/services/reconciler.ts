@@ -0,0 +1,230 @@
+import * as db from '../db/index.js';
+import * as dockerService from './docker.js';
+import { getWorkerAgentUrl } from './worker-provisioner.js';
+import { checkIdlePolicy } from './idle-policy.js';
+import { startRestart } from './project-operations.js';
+import { collectTokenUsage, checkBudget } from './usage.js';
+import { ingestSupervisorEvents } from './supervisor-events.js';
+import { ingestTranscripts } from './transcripts.js';
+import type { ProjectRow, ReconcileFinding, ReconcileReport, WorkerRow } from '../types.js';
+
+const INTERVAL_MS = parseInt(process.env.RECONCILE_INTERVAL_MS || '60000');
+const HEARTBEAT_STALE_MS = parseInt(process.env.HEARTBEAT_STALE_MS || '300000'); // agents beat every 60s
+const PROVISION_STUCK_MS = parseInt(process.env.PROVISION_STUCK_MS || '900000'); // readiness wait gives up after ~7 min
+const AUTO_RESTART = process.env.RECONCILE_AUTO_RESTART === 'true' || process.env.RECONCILE_AUTO_RESTART === '1';
+const RESTART_COOLDOWN_MS = 10 * 60_000;
+const MAX_RECENT_ACTIONS = 50;
+
+// Projects whose status is owned by an in-flight create/resize/destroy
+const TRANSITIONAL_STATUSES = new Set(['creating', 'resizing', 'destroying']);
+
+let lastReport: ReconcileReport | null = null;
+let running: Promise<ReconcileReport> | null = null;
+const lastRestart = new Map<string, number>();
+const recentActions: ReconcileReport['recent_actions'] = [];
+
+/** Start the periodic reconcile loop (first pass shortly after startup). */
+export function startReconciler(): void {
+  if (INTERVAL_MS <= 0) return;
+  const tick = () => {
+    runReconcile().catch((err) => console.error(`Reconcile failed: ${err.message}`));
+  };
+  setTimeout(tick, 5_000).unref();
+  setInterval(tick, INTERVAL_MS).unref();
+}
+
+export function getLastReconcileReport(): ReconcileReport | null {
+  return lastReport;
+}
+
+/** Run one pass now; concurrent callers share the pass in flight. */
+export function runReconcile(): Promise<ReconcileReport> {
+  if (!running) {
+    running = reconcile().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+async function reconcile(): Promise<ReconcileReport> {
+  const start = Date.now();
+  const findings: ReconcileFinding[] = [];
+  const errors: string[] = [];
+  const projects = db.listProjects();
+  const workers = new Map(db.listWorkers().map((w) => [w.project_name, w]));
+
+  // Local containers; skipped entirely if Docker can't be listed so a Docker outage doesn't read as mass crashes
+  let containers: dockerService.ContainerInfo[] | null = null;
+  try {
+    containers = await dockerService.listContainers();
+  } catch (err: any) {
+    errors.push(`Docker unavailable: ${err.message}`);
+  }
+
+  if (containers) {
+    const byProject = new Map(containers.map((c) => [c.name, c]));
+    for (const project of projects) {
+      if (workers.has(project.name)) continue;
+      const finding = await reconcileLocalProject(project, byProject.get(project.name) || null);
+      if (finding) findings.push(finding);
+    }
+
+    const known = new Set(projects.map((p) => p.name));
+    for (const container of containers) {
+      if (known.has(container.name)) continue;
+      findings.push({
+        kind: 'orphan_container',
+        project: container.name,
+        detail: `Container ${container.id.slice(0, 12)} (${container.status}) has no project row`,
+        action: 'none',
+      });
+    }
+  }
+
+  const projectsByName = new Map(projects.map((p) => [p.name, p]));
+  const workerFindings = await Promise.all(
+    [...workers.values()].map((w) => reconcileWorker(w, projectsByName.get(w.project_name)).catch((err) => {
+      errors.push(`Worker ${w.instance_id}: ${err.message}`);
+      return [];
+    }))
+  );
+  findings.push(...workerFindings.flat());
+
+  // Token usage, budgets, supervisor events and transcripts, for projects this pass left running
+  const usageFindings = await Promise.all(
+    db.listProjects()
+      .filter((p) => p.status === 'running' && !db.getActiveOperation(p.name))
+      .map(async (p) => {
+        await ingestSupervisorEvents(p.name).catch((err) => {
+          errors.push(`Events ${p.name}: ${err.message}`);
+        });
+        await ingestTranscripts(p.name).catch((err) => {
+          errors.push(`Transcripts ${p.name}: ${err.message}`);
+        });
+        try {
+          await collectTokenUsage(p.name);
+          return await checkBudget(p);
+        } catch (err: any) {
+          errors.push(`Usage ${p.name}: ${err.message}`);
+          return null;
+        }
+      })
+  );
+  for (const f of usageFindings) if (f) findings.push(f);
+
+  for (const f of findings) {
+    if (f.action === 'none') continue;
+    console.log(`Reconcile: ${f.kind} ${f.project} — ${f.detail} (${f.action})`);
+    recentActions.unshift({ ...f, at: new Date().toISOString() });
+  }
+  recentActions.splice(MAX_RECENT_ACTIONS);
+
+  const report: ReconcileReport = {
+    started_at: new Date(start).toISOString(),
+    finished_at: new Date().toISOString(),
+    duration_ms: Date.now() - start,
+    auto_restart: AUTO_RESTART,
+    findings,
+    errors,
+    recent_actions: [...recentActions],
+  };
+  lastReport = report;
+  return report;
+}
+
+async function reconcileLocalProject(project: ProjectRow, container: dockerService.ContainerInfo | null): Promise<ReconcileFinding | null> {
+  if (TRANSITIONAL_STATUSES.has(project.status) || db.getActiveOperation(project.name)) return null;
+
+  if (project.status === 'running' && container?.status !== 'running') {
+    const detail = container ? 'Container is stopped' : 'Container no longer exists';
+    return handleCrash(project.name, detail);
+  }
+
+  if (project.status === 'stopped' && container?.status === 'running') {
+    db.updateProject(project.name, { status: 'running' });
+    return { kind: 'container_recovered', project: project.name, detail: 'Container is running again', action: 'status_updated' };
+  }
+
+  return null;
+}
+
+async function reconcileWorker(worker: WorkerRow, project: ProjectRow | undefined): Promise<ReconcileFinding[]> {
+  const base = { project: worker.project_name, instance_id: worker.instance_id };
+  // An operation in flight (e.g. a resize) owns the worker's status until it finishes
+  if (db.getActiveOperation(worker.project_name)) return [];
+
+  if (worker.status === 'provisioning' || worker.status === 'bootstrapping') {
+    const age = Date.now() - new Date(worker.created_at).getTime();
+    if (age < PROVISION_STUCK_MS) return [];
+    db.updateWorker(worker.instance_id, { status: 'error' });
+    if (project) db.updateProject(project.name, { status: 'error' });
+    return [{ ...base, kind: 'worker_stuck', detail: `Still ${worker.status} after ${Math.round(age / 60_000)} min`, action: 'status_updated' }];
+  }
+
+  if (worker.status !== 'ready' && worker.status !== 'unreachable') return [];
+
+  const lastSeen = new Date(worker.last_heartbeat || worker.created_at).getTime();
+  const stale = Date.now() - lastSeen > HEARTBEAT_STALE_MS;
+  const health = await probeWorker(worker);
+
+  if (!health) {
+    if (!stale || worker.status === 'unreachable') return [];
+    db.updateWorker(worker.instance_id, { status: 'unreachable' });
+    return [{ ...base, kind: 'worker_unreachable', detail: `No heartbeat since ${worker.last_heartbeat || 'launch'} and /health does not answer`, action: 'status_updated' }];
+  }
+
+  const findings: ReconcileFinding[] = [];
+  if (worker.status === 'unreachable') {
+    db.updateWorker(worker.instance_id, { status: 'ready', last_heartbeat: new Date().toISOString() });
+    findings.push({ ...base, kind: 'worker_recovered', detail: 'Worker agent answers again', action: 'status_updated' });
+  } else if (stale) {
+    findings.push({ ...base, kind: 'heartbeat_stale', detail: `No heartbeat since ${worker.last_heartbeat || 'launch'}, but /health answers`, action: 'none' });
+  }
+
+  if (project && !TRANSITIONAL_STATUSES.has(project.status)) {
+    if (project.status === 'running' && !health.containerRunning) {
+      findings.push({ ...base, ...handleCrash(project.name, 'Container is not running on the worker') });
+    } else if (project.status === 'stopped' && health.containerRunning) {
+      db.updateProject(project.name, { status: 'running' });
+      findings.push({ ...base, kind: 'container_recovered', detail: 'Container is running again on the worker', action: 'status_updated' });
+    } else if (health.containerRunning) {
+      const idle = await checkIdlePolicy(project, worker.instance_id);
+      if (idle) findings.push(idle);
+    }
+  }
+
+  return findings;
+}
+
+/** Mark a crashed project stopped, or restart it when auto-restart is on (at most once per cooldown). */
+function handleCrash(projectName: string, detail: string): ReconcileFinding {
+  const finding: ReconcileFinding = { kind: 'container_crashed', project: projectName, detail, action: 'status_updated' };
+
+  const last = lastRestart.get(projectName) || 0;
+  if (!AUTO_RESTART || Date.now() - last < RESTART_COOLDOWN_MS) {
+    db.updateProject(projectName, { status: 'stopped' });
+    return finding;
+  }
+
+  // A restart operation like a user's, so it holds the project's lock and shows up with the others
+  lastRestart.set(projectName, Date.now());
+  const op = startRestart(projectName);
+  finding.detail += `; restarting (operation ${op.id})`;
+  finding.action = 'restarted';
+  return finding;
+}
+
+// The agent's /health is unauthenticated and reachable whatever the DB status says
+async function probeWorker(worker: WorkerRow): Promise<{ containerRunning: boolean } | null> {
+  const agentUrl = getWorkerAgentUrl(worker);
+  if (!agentUrl) return null;
+  try {
+    const res = await fetch(`${agentUrl}/health`, { signal: AbortSignal.timeout(5000) });
+    if (!res.ok) return null;
+    const body = await res.json() as any;
+    return { containerRunning: !!body.containerRunning };
+  } catch {
+    return null;
+  }
+}
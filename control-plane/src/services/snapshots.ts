@@ -0,0 +1,92 @@
+import { randomBytes } from 'crypto';
+import { createReadStream, createWriteStream, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import { join, resolve } from 'path';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import * as db from '../db/index.js';
+import { controlSupervisor, getProjectArchive, putProjectArchive, runInProjectContainer, MAX_EXEC_TIMEOUT_MS } from './container-manager.js';
+import { appendLog, runStep, startOperation } from './operations.js';
+import type { OperationRow, SnapshotRow } from '../types.js';
+
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || resolve(process.cwd(), 'snapshots');
+const WORKSPACE = '/workspace';
+
+function snapshotFile(snapshot: Pick<SnapshotRow, 'project_name' | 'id'>): string {
+  return join(SNAPSHOT_DIR, snapshot.project_name, `${snapshot.id}.tar.gz`);
+}
+
+/** Tar the project workspace into the snapshot store. */
+export async function createSnapshot(projectName: string, label: string | null): Promise<SnapshotRow> {
+  const id = `snap_${randomBytes(6).toString('hex')}`;
+  const file = snapshotFile({ project_name: projectName, id });
+  const partial = `${file}.partial`;
+  mkdirSync(join(SNAPSHOT_DIR, projectName), { recursive: true });
+
+  try {
+    const tar = await getProjectArchive(projectName, WORKSPACE);
+    await pipeline(tar, createGzip(), createWriteStream(partial));
+    renameSync(partial, file);
+  } catch (err) {
+    rmSync(partial, { force: true });
+    throw err;
+  }
+
+  const row: SnapshotRow = {
+    id,
+    project_name: projectName,
+    label,
+    size_bytes: statSync(file).size,
+    created_at: new Date().toISOString(),
+  };
+  db.insertSnapshot(row);
+  return row;
+}
+
+/**
+ * Replace the workspace contents with the snapshot, as a background operation. Anything not in the
+ * snapshot is deleted. The supervisor is paused while the workspace is swapped so it doesn't write
+ * into a half-restored tree, and resumed once the snapshot is in place.
+ */
+export function startRestore(snapshot: SnapshotRow): OperationRow {
+  const file = snapshotFile(snapshot);
+  if (!existsSync(file)) {
+    throw new Error(`Snapshot archive missing from the store: ${file}`);
+  }
+
+  const projectName = snapshot.project_name;
+  const steps = ['supervisor-pause', 'workspace-clear', 'workspace-extract', 'supervisor-resume'];
+
+  return startOperation('restore', projectName, steps, { snapshot_id: snapshot.id }, async (opId) => {
+    const { supervisorFound } = await runStep(opId, 'supervisor-pause', () => controlSupervisor(projectName, 'pause'));
+    if (!supervisorFound) appendLog(opId, 'No supervisor connected; restoring without pausing it');
+
+    try {
+      await runStep(opId, 'workspace-clear', async () => {
+        const result = await runInProjectContainer(projectName, ['find', WORKSPACE, '-mindepth', '1', '-delete'], MAX_EXEC_TIMEOUT_MS);
+        if (result.exit_code !== 0) {
+          throw new Error(result.timed_out ? 'Timed out clearing the workspace' : result.stderr.trim() || `find exited with code ${result.exit_code}`);
+        }
+      });
+
+      await runStep(opId, 'workspace-extract', async () => {
+        // Archive entries are rooted at "workspace/", so extract at the filesystem root
+        const gunzip = createGunzip();
+        createReadStream(file).on('error', (err) => gunzip.destroy(err)).pipe(gunzip);
+        await putProjectArchive(projectName, '/', gunzip);
+      });
+    } catch (err) {
+      // Resuming now would let the agent work on a partial workspace
+      if (supervisorFound) appendLog(opId, `Supervisor left paused; restore again or resume it with: synv2 supervisor resume ${projectName}`);
+      throw err;
+    }
+
+    if (supervisorFound) {
+      await runStep(opId, 'supervisor-resume', () => controlSupervisor(projectName, 'resume'));
+    }
+  });
+}
+
+export function removeSnapshot(snapshot: SnapshotRow): void {
+  rmSync(snapshotFile(snapshot), { force: true });
+  db.deleteSnapshot(snapshot.id);
+}
@@ -0,0 +1,52 @@
+import * as db from '../db/index.js';
+import { ingestJsonLines } from './ingest-cursor.js';
+import type { SupervisorEventRow } from '../types.js';
+
+const EVENTS_FILE = '/workspace/.supervisor-events.jsonl';
+
+/**
+ * Copy new events from the project's `.supervisor-events.jsonl` into the database, reading on from
+ * where the last ingest stopped; returns how many were new.
+ */
+export function ingestSupervisorEvents(projectName: string): Promise<number> {
+  return ingestJsonLines(projectName, EVENTS_FILE, (lines) => {
+    const rows: Omit<SupervisorEventRow, 'id'>[] = [];
+    for (const line of lines) {
+      let event: Record<string, any>;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (!event || typeof event.id !== 'string' || typeof event.type !== 'string' || typeof event.ts !== 'string') continue;
+
+      const { id, ts, type, state, task_id, turn, ...data } = event;
+      rows.push({
+        project_name: projectName,
+        event_id: id,
+        ts,
+        type,
+        state: state ?? null,
+        task_id: task_id ?? null,
+        turn: typeof turn === 'number' ? turn : null,
+        data: JSON.stringify(data),
+      });
+    }
+
+    return rows.length > 0 ? db.insertSupervisorEvents(rows) : 0;
+  });
+}
+
+/** API shape: the event as the supervisor wrote it, plus `seq` for paging with `after`. */
+export function toEventResponse(row: SupervisorEventRow) {
+  return {
+    seq: row.id,
+    id: row.event_id,
+    ts: row.ts,
+    type: row.type,
+    state: row.state,
+    task_id: row.task_id,
+    turn: row.turn,
+    ...JSON.parse(row.data),
+  };
+}
@@ -0,0 +1,126 @@
+import * as db from '../db/index.js';
+import { execInProjectContainer, writeTaskFile } from './container-manager.js';
+import type { TaskRow } from '../types.js';
+
+const TASK_FILE = '/workspace/.task.json';
+const TASK_FILE_VERSION = 1;
+
+/** Build the .task.json document the supervisor reads from a task row and its questions. */
+export function toTaskFile(row: TaskRow): Record<string, any> {
+  const questions = db.getTaskQuestions(row.id).map((q) => ({
+    id: q.id,
+    text: q.text,
+    context: q.context ?? undefined,
+    priority: q.priority,
+    asked_at: q.asked_at,
+    answered_at: q.answered_at,
+    answer: q.answer,
+  }));
+
+  return {
+    version: TASK_FILE_VERSION,
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    type: row.type,
+    goal: JSON.parse(row.goal),
+    limits: JSON.parse(row.limits),
+    status: row.status,
+    started_at: row.started_at,
+    completed_at: row.completed_at,
+    completion_reason: row.completion_reason,
+    progress: JSON.parse(row.progress),
+    context: JSON.parse(row.context),
+    questions,
+  };
+}
+
+/** Store a new task definition (as built by the task route) in the database. */
+export function insertTaskFromFile(projectName: string, task: Record<string, any>): TaskRow {
+  db.insertTask({
+    id: task.id,
+    project_name: projectName,
+    name: task.name,
+    description: task.description || '',
+    type: task.type || 'subjective',
+    goal: JSON.stringify(task.goal || {}),
+    limits: JSON.stringify(task.limits || {}),
+    context: JSON.stringify(task.context || {}),
+    progress: JSON.stringify(task.progress || {}),
+    status: task.status || 'running',
+    started_at: task.started_at || new Date().toISOString(),
+    completed_at: task.completed_at || null,
+    completion_reason: task.completion_reason || null,
+  });
+  mergeQuestions(task.id, task.questions);
+  return db.getTask(task.id)!;
+}
+
+function mergeQuestions(taskId: string, questions: unknown): void {
+  if (!Array.isArray(questions)) return;
+  for (const q of questions) {
+    if (!q || typeof q.id !== 'string' || typeof q.text !== 'string') continue;
+    db.upsertTaskQuestion({
+      task_id: taskId,
+      id: q.id,
+      text: q.text,
+      context: q.context || null,
+      priority: q.priority === 'blocking' ? 'blocking' : 'question',
+      asked_at: q.asked_at || new Date().toISOString(),
+      answered_at: q.answered_at || null,
+      answer: q.answer ?? null,
+    });
+  }
+}
+
+/**
+ * Pull the container's .task.json into the database.
+ * The supervisor and agent own progress, new questions and completion; the database
+ * owns the definition, operator stop/resume and answers. Tasks created before the
+ * tasks table existed are imported on first sight.
+ * Returns the synced row, or null if the container has no readable task file.
+ */
+export async function syncTaskFromContainer(projectName: string): Promise<TaskRow | null> {
+  let task: any;
+  try {
+    const raw = await execInProjectContainer(projectName, ['cat', TASK_FILE]);
+    task = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!task || typeof task.id !== 'string' || typeof task.name !== 'string') return null;
+
+  const existing = db.getTask(task.id);
+  if (!existing) return insertTaskFromFile(projectName, task);
+  if (existing.project_name !== projectName || existing.archived_at) return null;
+
+  const updates: Parameters<typeof db.updateTask>[1] = {};
+  if (task.progress && typeof task.progress === 'object') {
+    updates.progress = JSON.stringify(task.progress);
+  }
+  // The container can only end a running task; it cannot revive one the operator stopped
+  if (existing.status === 'running' && task.status && task.status !== 'running') {
+    updates.status = task.status;
+    updates.completed_at = task.completed_at || new Date().toISOString();
+    updates.completion_reason = task.completion_reason || null;
+  }
+  db.updateTask(existing.id, updates);
+  mergeQuestions(existing.id, task.questions);
+
+  return db.getTask(existing.id)!;
+}
+
+/** Write the database copy of a task into the project container. */
+export async function pushTaskToContainer(projectName: string, taskId: string): Promise<Record<string, any>> {
+  const row = db.getTask(taskId);
+  if (!row) throw new Error(`Task "${taskId}" not found`);
+  const file = toTaskFile(row);
+  await writeTaskFile(projectName, file);
+  return file;
+}
+
+/** Sync from the container (best effort), then return the project's most recent task. */
+export async function getSyncedCurrentTask(projectName: string): Promise<TaskRow | null> {
+  await syncTaskFromContainer(projectName);
+  return db.getCurrentTask(projectName) || null;
+}
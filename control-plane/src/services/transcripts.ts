@@ -0,0 +1,106 @@
+import * as db from '../db/index.js';
+import { ingestJsonLines } from './ingest-cursor.js';
+import type { TranscriptRow } from '../types.js';
+
+const TRANSCRIPT_FILE = '/workspace/.transcripts.jsonl';
+const PREVIEW_CHARS = 200;
+const MATCH_CONTEXT_CHARS = 80;
+
+interface TranscriptTool {
+  tool: string;
+  input: string | null;
+  output: string | null;
+}
+
+/**
+ * Copy new turns from the project's `.transcripts.jsonl` into the database, reading on from where the
+ * last ingest stopped; returns how many were new.
+ */
+export function ingestTranscripts(projectName: string): Promise<number> {
+  return ingestJsonLines(projectName, TRANSCRIPT_FILE, (lines) => {
+    const rows: Omit<TranscriptRow, 'id'>[] = [];
+    for (const line of lines) {
+      let t: Record<string, any>;
+      try {
+        t = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (!t || typeof t.id !== 'string' || typeof t.turn !== 'number' || typeof t.started_at !== 'string') continue;
+
+      const tools: TranscriptTool[] = Array.isArray(t.tools) ? t.tools : [];
+      rows.push({
+        project_name: projectName,
+        transcript_id: t.id,
+        task_id: t.task_id ?? null,
+        turn: t.turn,
+        started_at: t.started_at,
+        ended_at: typeof t.ended_at === 'string' ? t.ended_at : t.started_at,
+        prompt_type: t.prompt_type ?? null,
+        classification: t.classification ?? null,
+        result: t.result ?? null,
+        tool_count: tools.length,
+        prompt: String(t.prompt ?? ''),
+        text: String(t.text ?? ''),
+        tools: JSON.stringify(tools),
+      });
+    }
+
+    return rows.length > 0 ? db.insertTranscripts(rows) : 0;
+  });
+}
+
+/** Up to MATCH_CONTEXT_CHARS either side of the first case-insensitive occurrence of `q`, on one line. */
+function snippet(text: string | null, q: string): string | null {
+  if (!text) return null;
+  const at = text.toLowerCase().indexOf(q.toLowerCase());
+  if (at < 0) return null;
+  const start = Math.max(0, at - MATCH_CONTEXT_CHARS);
+  const end = Math.min(text.length, at + q.length + MATCH_CONTEXT_CHARS);
+  const body = text.slice(start, end).replace(/\s+/g, ' ');
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+}
+
+/** Where a search hit: the agent's text first, then tool calls, then the prompt. */
+function findMatch(row: TranscriptRow, q: string): { in: string; text: string } | null {
+  const inText = snippet(row.text, q);
+  if (inText) return { in: 'text', text: inText };
+  for (const t of JSON.parse(row.tools) as TranscriptTool[]) {
+    const inTool = snippet(t.input, q) ?? snippet(t.output, q);
+    if (inTool) return { in: `tool:${t.tool}`, text: inTool };
+  }
+  const inPrompt = snippet(row.prompt, q);
+  return inPrompt ? { in: 'prompt', text: inPrompt } : null;
+}
+
+/** API list shape: one line's worth per turn, plus where `q` matched when searching. */
+export function toTranscriptSummary(row: TranscriptRow, q?: string) {
+  const preview = row.text.replace(/\s+/g, ' ').trim();
+  return {
+    seq: row.id,
+    id: row.transcript_id,
+    turn: row.turn,
+    task_id: row.task_id,
+    started_at: row.started_at,
+    ended_at: row.ended_at,
+    duration_ms: new Date(row.ended_at).getTime() - new Date(row.started_at).getTime(),
+    prompt_type: row.prompt_type,
+    classification: row.classification,
+    result: row.result,
+    tool_count: row.tool_count,
+    text_chars: row.text.length,
+    preview: preview.length > PREVIEW_CHARS ? `${preview.slice(0, PREVIEW_CHARS)}…` : preview,
+    ...(q ? { match: findMatch(row, q) } : {}),
+  };
+}
+
+/** API detail shape: the whole turn. */
+export function toTranscriptResponse(row: TranscriptRow) {
+  const { preview, ...summary } = toTranscriptSummary(row);
+  return {
+    ...summary,
+    prompt: row.prompt,
+    text: row.text,
+    tools: JSON.parse(row.tools) as TranscriptTool[],
+  };
+}
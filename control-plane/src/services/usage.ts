@@ -0,0 +1,253 @@
+import * as db from '../db/index.js';
+import { controlSupervisor, getContainerHealth, getGatewayUsage } from './container-manager.js';
+import { startStop } from './project-operations.js';
+import { getPriceTable, tokenPricesFor } from './pricing.js';
+import type { ProjectRow, ReconcileFinding, TokenCounts, TurnUsageRow } from '../types.js';
+
+const TOKEN_FIELDS = ['input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_write_tokens', 'turns'] as const;
+
+/** Counters as reported by a gateway's /health; they start at zero each time the gateway starts. */
+interface GatewayUsageReport extends TokenCounts {
+  boot_id: string;
+  seq?: number; // last per-call record counted in these totals
+}
+
+/** One model call as recorded by the gateway's GET /usage. */
+interface GatewayUsageRecord extends Omit<TurnUsageRow, 'id' | 'project_name' | 'created_at'> {
+  seq: number;
+  at: string;
+}
+
+type TokenTotals = Omit<TokenCounts, 'turns'>;
+
+const CALL_FIELDS = ['input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_write_tokens'] as const;
+
+// Collections in progress, so a reconcile pass and an API request don't both copy the same records
+const collecting = new Map<string, Promise<void>>();
+
+function round(value: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+/** Fold a gateway report into the project's running totals, counting only what is new since the last report. */
+export function recordTokenReport(projectName: string, report: GatewayUsageReport): void {
+  const row = db.getTokenUsage(projectName);
+  const last = row ? JSON.parse(row.last_report) as Partial<GatewayUsageReport> : {};
+  // A different boot id means the gateway restarted and its counters began again at zero
+  const base = last.boot_id === report.boot_id ? last : {};
+
+  const totals = {} as TokenCounts;
+  for (const field of TOKEN_FIELDS) {
+    totals[field] = (row?.[field] ?? 0) + Math.max(0, (report[field] || 0) - (base[field] || 0));
+  }
+  db.upsertTokenUsage({ project_name: projectName, ...totals, last_report: JSON.stringify(report), updated_at: new Date().toISOString() });
+}
+
+/**
+ * Pull the latest token counters and per-call records from the project's gateway, if it answers.
+ * Pass `health` when the caller already fetched the gateway's /health.
+ */
+export function collectTokenUsage(projectName: string, health?: any): Promise<void> {
+  const pending = collecting.get(projectName);
+  if (pending) return pending;
+
+  const run = (async () => {
+    const report: GatewayUsageReport | undefined = (health ?? await getContainerHealth(projectName))?.usage;
+    if (!report?.boot_id) return;
+    const seq = await collectCallUsage(projectName, report);
+    recordTokenReport(projectName, { ...report, seq });
+  })().finally(() => collecting.delete(projectName));
+
+  collecting.set(projectName, run);
+  return run;
+}
+
+/** Copy the gateway's per-call records up to the report's seq; returns the seq stored through. */
+async function collectCallUsage(projectName: string, report: GatewayUsageReport): Promise<number> {
+  const row = db.getTokenUsage(projectName);
+  const last = row ? JSON.parse(row.last_report) as Partial<GatewayUsageReport> : {};
+  const after = last.boot_id === report.boot_id ? last.seq ?? 0 : 0;
+  if (report.seq === undefined || report.seq <= after) return after;
+
+  // Unreachable now: keep the old position and try again next time
+  const result = await getGatewayUsage(projectName, after) as { boot_id: string; records: GatewayUsageRecord[] } | null;
+  if (!result || result.boot_id !== report.boot_id) return after;
+
+  for (const r of result.records) {
+    if (r.seq > report.seq) break;
+    db.insertTurnUsage({
+      project_name: projectName,
+      task_id: r.task_id,
+      turn: r.turn,
+      source: r.source,
+      purpose: r.purpose,
+      model: r.model,
+      input_tokens: r.input_tokens,
+      output_tokens: r.output_tokens,
+      cache_read_tokens: r.cache_read_tokens,
+      cache_write_tokens: r.cache_write_tokens,
+      created_at: r.at,
+    });
+  }
+  return report.seq;
+}
+
+/** Cost of tokens at the model's rates, or the default rate when the model isn't known. */
+function tokenCostUsd(tokens: TokenTotals, model: string | null = null): number {
+  const prices = tokenPricesFor(model);
+  return (
+    tokens.input_tokens * prices.input +
+    tokens.output_tokens * prices.output +
+    tokens.cache_read_tokens * prices.cache_read +
+    tokens.cache_write_tokens * prices.cache_write
+  ) / 1_000_000;
+}
+
+function emptyTotals(): TokenTotals {
+  return { input_tokens: 0, output_tokens: 0, cache_read_tokens: 0, cache_write_tokens: 0 };
+}
+
+function addCall(totals: TokenTotals, row: TokenTotals): void {
+  for (const field of CALL_FIELDS) totals[field] += row[field];
+}
+
+/**
+ * A project's token cost: its recorded calls priced by model, plus whatever the gateway's running
+ * totals count beyond those records (e.g. calls from before per-call records existed) at the default rate.
+ */
+function projectTokenCostUsd(projectName: string, totals: TokenTotals): number {
+  const recorded = emptyTotals();
+  let cost = 0;
+  for (const row of db.sumTurnUsageByModel(projectName)) {
+    cost += tokenCostUsd(row, row.model);
+    addCall(recorded, row);
+  }
+
+  const unrecorded = emptyTotals();
+  for (const field of CALL_FIELDS) unrecorded[field] = Math.max(0, totals[field] - recorded[field]);
+  return cost + tokenCostUsd(unrecorded);
+}
+
+/**
+ * Tokens a task has used: totals, split by model, and per turn. Supervisor memory calls are
+ * counted against the turn they summarized.
+ */
+export function getTaskUsage(projectName: string, taskId: string) {
+  const rows = db.listTurnUsage(projectName, taskId);
+
+  const totals = emptyTotals();
+  const byModel = new Map<string, TokenTotals & { model: string; calls: number; cost_usd: number }>();
+  const byTurn = new Map<number, TokenTotals & { turn: number; models: string[]; calls: number }>();
+
+  for (const row of rows) {
+    addCall(totals, row);
+
+    const model = row.model || 'unknown';
+    const modelEntry = byModel.get(model) || { model, calls: 0, cost_usd: 0, ...emptyTotals() };
+    modelEntry.calls++;
+    modelEntry.cost_usd += tokenCostUsd(row, row.model);
+    addCall(modelEntry, row);
+    byModel.set(model, modelEntry);
+
+    if (row.turn === null) continue;
+    const turnEntry = byTurn.get(row.turn) || { turn: row.turn, models: [], calls: 0, ...emptyTotals() };
+    turnEntry.calls++;
+    addCall(turnEntry, row);
+    if (!turnEntry.models.includes(model)) turnEntry.models.push(model);
+    byTurn.set(row.turn, turnEntry);
+  }
+
+  return {
+    task_id: taskId,
+    calls: rows.length,
+    ...totals,
+    cost_usd: round([...byModel.values()].reduce((sum, m) => sum + m.cost_usd, 0), 4),
+    by_model: [...byModel.values()].map((m) => ({ ...m, cost_usd: round(m.cost_usd, 4) })),
+    turns: [...byTurn.values()].sort((a, b) => a.turn - b.turn),
+  };
+}
+
+/** Instance-hours (from worker run intervals) and token usage priced with the current price table. */
+export function getProjectUsage(project: ProjectRow) {
+  const prices = getPriceTable();
+  const now = Date.now();
+
+  const byType = new Map<string, { instance_type: string; provider: string; hours: number; hourly_usd: number | null; cost_usd: number }>();
+  for (const interval of db.listWorkerUsage(project.name)) {
+    const end = interval.ended_at ? new Date(interval.ended_at).getTime() : now;
+    const hours = Math.max(0, end - new Date(interval.started_at).getTime()) / 3_600_000;
+    // Local-provider workers are processes on this host and cost nothing extra
+    const hourly = interval.provider === 'local' ? 0 : prices.instances[interval.instance_type] ?? null;
+
+    const key = `${interval.provider}:${interval.instance_type}`;
+    const entry = byType.get(key) || { instance_type: interval.instance_type, provider: interval.provider, hours: 0, hourly_usd: hourly, cost_usd: 0 };
+    entry.hours += hours;
+    entry.cost_usd += hours * (hourly ?? 0);
+    byType.set(key, entry);
+  }
+
+  const instances = [...byType.values()].map((e) => ({ ...e, hours: round(e.hours, 2), cost_usd: round(e.cost_usd, 4) }));
+  const computeCost = [...byType.values()].reduce((sum, e) => sum + e.cost_usd, 0);
+
+  const tokenRow = db.getTokenUsage(project.name);
+  const tokens = {} as TokenCounts;
+  for (const field of TOKEN_FIELDS) tokens[field] = tokenRow?.[field] ?? 0;
+  const tokenCost = projectTokenCostUsd(project.name, tokens);
+
+  return {
+    project: project.name,
+    compute: {
+      hours: round(instances.reduce((sum, e) => sum + e.hours, 0), 2),
+      cost_usd: round(computeCost, 4),
+      instances,
+      // Instance types missing from the price table are counted as free
+      unpriced_types: instances.filter((e) => e.hourly_usd === null).map((e) => e.instance_type),
+    },
+    tokens: { ...tokens, cost_usd: round(tokenCost, 4), updated_at: tokenRow?.updated_at ?? null },
+    total_cost_usd: round(computeCost + tokenCost, 4),
+    budget: {
+      usd: project.budget_usd,
+      action: project.budget_action,
+      exceeded_at: project.budget_exceeded_at,
+    },
+  };
+}
+
+/**
+ * Take the budget action once a running project's cost reaches its budget (called from each
+ * reconcile pass): pause the supervisor, or stop the worker. Retried on the next pass if it fails.
+ */
+export async function checkBudget(project: ProjectRow): Promise<ReconcileFinding | null> {
+  if (project.budget_usd === null || project.budget_exceeded_at || project.status !== 'running') return null;
+
+  const cost = getProjectUsage(project).total_cost_usd;
+  if (cost < project.budget_usd) return null;
+
+  const finding: ReconcileFinding = {
+    kind: 'budget_exceeded',
+    project: project.name,
+    detail: `Cost $${cost.toFixed(2)} reached the $${project.budget_usd.toFixed(2)} budget`,
+    action: 'none',
+  };
+
+  const worker = db.getWorkerByProject(project.name);
+  try {
+    if (project.budget_action === 'stop' && worker) {
+      const op = startStop(project.name);
+      finding.detail += `; stopping (operation ${op.id})`;
+      finding.action = 'stopped';
+    } else {
+      const result = await controlSupervisor(project.name, 'pause');
+      if (!result.supervisorFound) throw new Error('supervisor not running');
+      finding.detail += '; supervisor paused';
+      finding.action = 'paused';
+    }
+  } catch (err: any) {
+    finding.detail += `; ${project.budget_action} failed: ${err.message}`;
+    return finding;
+  }
+
+  db.updateProject(project.name, { budget_exceeded_at: new Date().toISOString() });
+  return finding;
+}
@@ -7,6 +7,10 @@ export interface ProjectRow {
   env_enc: string; // JSON object, encrypted
   instance_type: string | null;
   worker_instance_id: string | null;
+  idle_stop_minutes: number | null; // stop the worker after this long idle; null = never
+  budget_usd: number | null;
+  budget_action: string; // pause | stop
+  budget_exceeded_at: string | null; // set once the budget action has been taken
   created_at: string;
   updated_at: string;
 }
@@ -21,13 +25,21 @@ export interface WorkerRow {
   region: string;
   availability_zone: string | null;
   worker_token: string | null;
+  provider: string; // compute provider that owns the instance (aws | local)
+  agent_port: number | null; // null means the default worker agent port
   created_at: string;
   last_heartbeat: string | null;
 }
 
+export type TokenRole = 'read' | 'operator' | 'admin';
+
 export interface TokenRow {
   token_hash: string;
+  id: string;
   label: string;
+  role: TokenRole;
+  projects: string | null; // JSON array of project names, null = all projects
+  expires_at: string | null;
   created_at: string;
 }
 
@@ -38,6 +50,87 @@ export interface SecretRow {
   created_at: string;
 }
 
+export interface TaskRow {
+  id: string;
+  project_name: string;
+  name: string;
+  description: string;
+  type: string; // measurable | subjective
+  goal: string; // JSON object
+  limits: string; // JSON object
+  context: string; // JSON object
+  progress: string; // JSON object, synced from the container
+  status: string; // running | completed | stopped
+  started_at: string;
+  completed_at: string | null;
+  completion_reason: string | null;
+  archived_at: string | null; // set when the project is destroyed; the row is kept as history
+  updated_at: string;
+}
+
+export interface TaskQuestionRow {
+  task_id: string;
+  id: string;
+  text: string;
+  context: string | null;
+  priority: string; // question | blocking
+  asked_at: string;
+  answered_at: string | null;
+  answer: string | null;
+}
+
+export interface AuditEventRow {
+  id: number;
+  created_at: string;
+  token_id: string | null;
+  token_label: string | null;
+  project_name: string | null;
+  method: string; // HTTP method, or WS for chat sessions
+  route: string; // concrete path, e.g. /api/projects/foo/secrets
+  action: string; // method + route pattern, e.g. POST /api/projects/:name/secrets
+  body: string | null; // JSON, secret values redacted
+  status: number; // HTTP status or WS close code
+  duration_ms: number;
+}
+
+export interface SnapshotRow {
+  id: string;
+  project_name: string;
+  label: string | null;
+  size_bytes: number;
+  created_at: string;
+}
+
+export type OperationStatus = 'running' | 'succeeded' | 'failed' | 'rolled_back';
+export type OperationStepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface OperationStep {
+  name: string;
+  status: OperationStepStatus;
+  started_at: string | null;
+  finished_at: string | null;
+  error?: string;
+}
+
+export interface OperationLogEntry {
+  at: string;
+  message: string;
+}
+
+export interface OperationRow {
+  id: string;
+  type: string;
+  project_name: string;
+  status: OperationStatus;
+  params: string; // JSON object
+  steps: string; // JSON OperationStep[]
+  logs: string; // JSON OperationLogEntry[]
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
 export interface ProjectCreateRequest {
   name: string;
   anthropicApiKey: string;
@@ -69,3 +162,118 @@ export interface StatusResponse {
     disk_total_gb: number;
   };
 }
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  exit_code: number | null; // null if the process outlived its timeout and its status is unknown
+  duration_ms: number;
+  truncated: boolean;
+  timed_out: boolean;
+}
+
+export type ReconcileFindingKind =
+  | 'container_crashed' // DB says running, container is stopped or gone
+  | 'container_recovered' // DB says stopped, container is running again
+  | 'worker_unreachable' // heartbeat stale and the agent does not answer
+  | 'worker_recovered' // an unreachable worker answers again
+  | 'heartbeat_stale' // agent answers but has stopped sending heartbeats
+  | 'worker_stuck' // provisioning/bootstrapping for too long
+  | 'orphan_container' // labelled synv2 container with no project row
+  | 'idle_stop' // idle policy expired: task finished and no human attached
+  | 'budget_exceeded'; // project cost reached its budget
+
+export interface ReconcileFinding {
+  kind: ReconcileFindingKind;
+  project: string;
+  instance_id?: string;
+  detail: string;
+  action: 'none' | 'status_updated' | 'restarted' | 'stopped' | 'paused'; // restarted/stopped: an operation was started
+}
+
+export interface ReconcileReport {
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  auto_restart: boolean;
+  findings: ReconcileFinding[];
+  errors: string[];
+  recent_actions: (ReconcileFinding & { at: string })[]; // newest first, across passes
+}
+
+export interface WorkerUsageRow {
+  id: number;
+  instance_id: string;
+  project_name: string;
+  instance_type: string;
+  provider: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface TokenCounts {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  turns: number;
+}
+
+export interface TokenUsageRow extends TokenCounts {
+  project_name: string;
+  last_report: string; // JSON: gateway counters as last seen ({ boot_id, seq, ...TokenCounts })
+  updated_at: string;
+}
+
+export interface SupervisorEventRow {
+  id: number; // ingestion order, used as the `after` cursor
+  project_name: string;
+  event_id: string; // supervisor-assigned, unique per project
+  ts: string;
+  type: string; // state_change | turn_start | turn_end | verification | question | question_answered | directives_applied | task_end
+  state: string | null;
+  task_id: string | null;
+  turn: number | null;
+  data: string; // JSON: the event's remaining fields
+}
+
+/** How far the control plane has read an append-only JSONL file in a project's workspace */
+export interface IngestCursorRow {
+  project_name: string;
+  file: string;
+  byte_offset: number;
+  head: string | null; // checksum of the file's first line; a different one means the file was rotated
+  updated_at: string;
+}
+
+export interface TranscriptRow {
+  id: number; // ingestion order, used as the paging cursor
+  project_name: string;
+  transcript_id: string; // supervisor-assigned, unique per project
+  task_id: string | null;
+  turn: number;
+  started_at: string;
+  ended_at: string;
+  prompt_type: string | null;
+  classification: string | null;
+  result: string | null;
+  tool_count: number;
+  prompt: string;
+  text: string;
+  tools: string; // JSON: [{ tool, input, output }]
+}
+
+export interface TurnUsageRow {
+  id: number;
+  project_name: string;
+  task_id: string | null;
+  turn: number | null;
+  source: 'agent' | 'supervisor';
+  purpose: string | null;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  created_at: string;
+}
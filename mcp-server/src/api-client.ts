@@ -9,7 +9,7 @@ export class ApiClient {
     this.token = config.token;
   }
 
-  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  private async request<T>(method: string, path: string, body?: unknown, timeoutMs = 15_000): Promise<T> {
     const res = await fetch(`${this.host}${path}`, {
       method,
       headers: {
@@ -17,7 +17,7 @@ export class ApiClient {
         'Content-Type': 'application/json',
       },
       body: body ? JSON.stringify(body) : undefined,
-      signal: AbortSignal.timeout(15_000),
+      signal: AbortSignal.timeout(timeoutMs),
     });
 
     if (!res.ok) {
@@ -63,8 +63,9 @@ export class ApiClient {
     });
   }
 
-  async exec(name: string, cmd: string[]): Promise<any> {
-    return this.request('POST', `/api/projects/${this.enc(name)}/exec`, { cmd });
+  async exec(name: string, cmd: string[], timeoutMs = 30_000): Promise<any> {
+    // Leave room for the control plane to report a timed-out command
+    return this.request('POST', `/api/projects/${this.enc(name)}/exec`, { cmd, timeout: timeoutMs }, timeoutMs + 20_000);
   }
 
   async getProcesses(name: string): Promise<any> {
@@ -95,4 +96,26 @@ export class ApiClient {
     const qs = lines ? `?lines=${lines}` : '';
     return this.request('GET', `/api/projects/${this.enc(name)}/logs${qs}`);
   }
+
+  async getEvents(name: string, filters: { type?: string; since?: string; limit?: number }): Promise<any> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return this.request('GET', `/api/projects/${this.enc(name)}/events${qs ? `?${qs}` : ''}`);
+  }
+
+  async getTranscripts(name: string, filters: { q?: string; turn?: number; before?: number; limit?: number }): Promise<any> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return this.request('GET', `/api/projects/${this.enc(name)}/transcripts${qs ? `?${qs}` : ''}`);
+  }
+
+  async getTranscript(name: string, seq: number): Promise<any> {
+    return this.request('GET', `/api/projects/${this.enc(name)}/transcripts/${seq}`);
+  }
 }
@@ -10,6 +10,13 @@ export interface Synv2Config {
 const CONFIG_PATH = join(homedir(), '.synv2', 'config.json');
 
 export function loadConfig(): Synv2Config {
+  // SYNV2_HOST / SYNV2_TOKEN let the MCP server run with its own (e.g. operator-scoped) token
+  const envHost = process.env.SYNV2_HOST;
+  const envToken = process.env.SYNV2_TOKEN;
+  if (envHost && envToken) {
+    return { host: envHost.replace(/\/$/, ''), token: envToken };
+  }
+
   if (!existsSync(CONFIG_PATH)) {
     throw new Error(`Config not found at ${CONFIG_PATH}. Run \`synv2 setup\` first.`);
   }
@@ -17,5 +24,5 @@ export function loadConfig(): Synv2Config {
   if (!raw.host || !raw.token) {
     throw new Error('Invalid config: missing host or token');
   }
-  return { host: raw.host.replace(/\/$/, ''), token: raw.token };
+  return { host: (envHost || raw.host).replace(/\/$/, ''), token: envToken || raw.token };
 }
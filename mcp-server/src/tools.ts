@@ -23,7 +23,7 @@ export function registerTools(server: McpServer, config: Synv2Config) {
 
   server.tool(
     'get_project_status',
-    'Get detailed status of a project including task progress, pending questions, and metrics',
+    'Get detailed status of a project including task progress, pending questions, metrics, and tokens used by the current task (task_usage: totals, per model, per turn)',
     { project: z.string().describe('Project name') },
     async ({ project }) => {
       const result = await api.getProject(project);
@@ -184,13 +184,14 @@ export function registerTools(server: McpServer, config: Synv2Config) {
 
   server.tool(
     'exec_in_container',
-    'Execute a command inside a project\'s container. Returns stdout. Use for debugging, inspecting processes, or running one-off commands.',
+    'Execute a command inside a project\'s container. Returns stdout, stderr, exit_code, duration_ms, truncated and timed_out. A non-zero exit_code means the command failed. Use for debugging, inspecting processes, or running one-off commands.',
     {
       project: z.string().describe('Project name'),
       cmd: z.array(z.string()).describe('Command and arguments (e.g. ["ps", "aux"])'),
+      timeout: z.number().min(1).max(600).optional().describe('Kill the command after this many seconds (default: 30)'),
     },
-    async ({ project, cmd }) => {
-      const result = await api.exec(project, cmd);
+    async ({ project, cmd, timeout }) => {
+      const result = await api.exec(project, cmd, timeout ? Math.round(timeout * 1000) : undefined);
       return text(result);
     }
   );
@@ -217,4 +218,48 @@ export function registerTools(server: McpServer, config: Synv2Config) {
       return text(result);
     }
   );
+
+  server.tool(
+    'get_supervisor_events',
+    'Query structured supervisor events for a project, newest first. Types: state_change, turn_start, turn_end (with classification), verification, question, question_answered, directives_applied, task_end.',
+    {
+      project: z.string().describe('Project name'),
+      type: z.string().optional().describe('Only these event types, comma-separated (e.g. "turn_end,verification")'),
+      since: z.string().optional().describe('Only events at or after this ISO timestamp'),
+      limit: z.number().optional().describe('Maximum number of events (default: 100, max: 1000)'),
+    },
+    async ({ project, type, since, limit }) => {
+      const result = await api.getEvents(project, { type, since, limit });
+      return text(result);
+    }
+  );
+
+  server.tool(
+    'search_transcripts',
+    'List or search the archived per-turn transcripts of a project, newest first. Each result is a summary (turn, classification, tool count, preview, and where the query matched); pass its seq to get_transcript for the full turn.',
+    {
+      project: z.string().describe('Project name'),
+      query: z.string().optional().describe('Only turns whose prompt, text or tool calls contain this text (case-insensitive)'),
+      turn: z.number().optional().describe('Only turns with this number'),
+      before: z.number().optional().describe('Only turns older than this seq (use next_before to page)'),
+      limit: z.number().optional().describe('Maximum number of turns (default: 20, max: 200)'),
+    },
+    async ({ project, query, turn, before, limit }) => {
+      const result = await api.getTranscripts(project, { q: query, turn, before, limit });
+      return text(result);
+    }
+  );
+
+  server.tool(
+    'get_transcript',
+    'Get one archived turn in full: the prompt, the agent\'s text and every tool call with its input and output.',
+    {
+      project: z.string().describe('Project name'),
+      seq: z.number().describe('Transcript seq from search_transcripts'),
+    },
+    async ({ project, seq }) => {
+      const result = await api.getTranscript(project, seq);
+      return text(result);
+    }
+  );
 }